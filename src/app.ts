@@ -3,10 +3,15 @@ import cors from "cors";
 import express, { Application, NextFunction, Request, Response } from "express";
 import path from "path";
 import globalErrorHandler from "./app/middleware/globalErrorHandler";
+import { MockOidcProviderRoutes } from "./app/modules/Auth/mock-oidc-provider";
 import router from "./app/routes";
+import config from "./config";
 
 const app: Application = express();
 
+// Behind Vercel's proxy; needed for per-IP rate limits and login throttling
+app.set("trust proxy", 1);
+
 // Add request logging for debugging
 app.use((req: Request, res: Response, next: NextFunction) => {
   console.log(`Incoming request: ${req.method} ${req.path}`);
@@ -63,6 +68,16 @@ app.use(cors(corsOptions));
 app.use(cookieParser());
 
 //parser
+// File imports post the whole file as JSON, which outgrows the 100kb default;
+// parsed bodies are skipped by the general parser below
+app.use(
+  [
+    "/api/v1/budget/import",
+    "/api/v1/budget/exchange-rates/import",
+    "/api/v1/classes/import",
+  ],
+  express.json({ limit: config.import_body_limit })
+);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -89,6 +104,11 @@ console.log("Mounting API routes at /api/v1");
 
 app.use("/api/v1", router);
 
+// Local OpenID provider for development and tests (OIDC_MOCK_ENABLED=true)
+if (config.oidc.mock.enabled) {
+  app.use("/mock-oidc", MockOidcProviderRoutes);
+}
+
 // Handle 404 for unmatched routes
 app.use((req: Request, res: Response, next: NextFunction) => {
   console.log(`404 - Route not found: ${req.method} ${req.originalUrl}`);
@@ -3,6 +3,8 @@ import ApiError from "../errors/ApiError";
 import { jwtHelpers } from "../../helpers/jwtHelpers";
 import config from "../../config";
 import { Secret } from "jsonwebtoken";
+import { PersonalAccessTokenServices } from "../modules/Auth/personal-access-token.service";
+import { SessionServices } from "../modules/Auth/session.service";
 
 const auth = (...roles: string[]) => {
   return async (
@@ -22,14 +24,46 @@ const auth = (...roles: string[]) => {
         throw new ApiError(401, "Invalid token format");
       }
 
+      // Personal access tokens only reach the modules their scopes name
+      if (
+        PersonalAccessTokenServices.isPersonalAccessToken(tokenWithoutBearer)
+      ) {
+        const { user, tokenId, scopes } =
+          await PersonalAccessTokenServices.authenticate(
+            tokenWithoutBearer,
+            req.ip
+          );
+
+        const resource = req.baseUrl.split("/").pop() || "";
+
+        if (!PersonalAccessTokenServices.hasScope(scopes, resource, req.method))
+          throw new ApiError(403, "Access token is missing the required scope");
+
+        req.user = {
+          ...user,
+          authType: "personal_access_token",
+          tokenId,
+          scopes,
+        };
+
+        if (roles.length && !roles.includes(user.role))
+          throw new ApiError(403, "Forbidden");
+
+        return next();
+      }
+
       const verifiedUser = jwtHelpers.verifyToken(
         tokenWithoutBearer,
         config.jwt.jwt_secret as Secret
       );
 
-      req.user = verifiedUser;
+      const { role } = await SessionServices.authenticate(
+        verifiedUser.sessionId
+      );
+
+      req.user = { ...verifiedUser, role };
 
-      if (roles.length && !roles.includes(verifiedUser.role))
+      if (roles.length && !roles.includes(role))
         throw new ApiError(403, "Forbidden");
 
       next();
@@ -1,10 +1,104 @@
-import { rateLimit } from "express-rate-limit";
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  limit: 5, // Limit each IP to 5 requests per `window` (here, per 15 minutes).
-  standardHeaders: "draft-8", // draft-6: `RateLimit-*` headers; draft-7 & draft-8: combined `RateLimit` header
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers.
-  // store: ... , // Redis, Memcached, etc. See below.
+import { Request } from "express";
+import { Options, rateLimit, Store } from "express-rate-limit";
+import config from "../../config";
+import { getRateLimitStore } from "../shared/rateLimitStore";
+
+type TRateLimiterOptions = {
+  name: string; // namespaces the counters of this limiter
+  windowMs: number;
+  limit: number;
+  by?: "ip" | "user"; // "user" must be mounted after auth()
+  message?: string;
+};
+
+// Bridges express-rate-limit to our pluggable counter store. The store is
+// looked up per call so swapping it (e.g. in tests) takes effect at once.
+class SharedStore implements Store {
+  windowMs = 60 * 1000;
+  localKeys = false;
+
+  constructor(public prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string) {
+    const counter = await getRateLimitStore().get(this.prefix + key);
+    return counter
+      ? { totalHits: counter.count, resetTime: counter.resetAt }
+      : undefined;
+  }
+
+  async increment(key: string) {
+    const counter = await getRateLimitStore().increment(
+      this.prefix + key,
+      this.windowMs
+    );
+    return { totalHits: counter.count, resetTime: counter.resetAt };
+  }
+
+  async decrement(key: string) {
+    await getRateLimitStore().decrement(this.prefix + key);
+  }
+
+  async resetKey(key: string) {
+    await getRateLimitStore().reset(this.prefix + key);
+  }
+}
+
+const rateLimiter = ({
+  name,
+  windowMs,
+  limit,
+  by = "ip",
+  message = "Too many requests, please try again later.",
+}: TRateLimiterOptions) =>
+  rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: "draft-8",
+    legacyHeaders: false,
+    store: new SharedStore(`rl:${name}:`),
+    keyGenerator: (req: Request & { user?: any }) =>
+      by === "user" && req.user?.id ? `user:${req.user.id}` : `ip:${req.ip}`,
+    // A store outage should not take the API down with it
+    passOnStoreError: true,
+    handler: (req, res, next, options) => {
+      res.status(options.statusCode).json({
+        success: false,
+        message,
+        error: {
+          message,
+        },
+      });
+    },
+  });
+
+// Unauthenticated auth endpoints (register, password reset, verification)
+export const authRateLimiter = rateLimiter({
+  name: "auth",
+  windowMs: 15 * 60 * 1000,
+  limit: 20,
+  message: "Too many requests from this IP, please try again later.",
+});
+
+// Gemini-backed endpoints share one per-user budget
+export const aiRateLimiter = rateLimiter({
+  name: "ai",
+  windowMs: 60 * 1000,
+  limit: config.rate_limit.ai_requests_per_minute,
+  by: "user",
+  message: "AI request limit reached, please wait a minute and try again.",
+});
+
+export const analyticsRateLimiter = rateLimiter({
+  name: "analytics",
+  windowMs: 60 * 1000,
+  limit: config.rate_limit.analytics_requests_per_minute,
+  by: "user",
+  message:
+    "Analytics request limit reached, please wait a minute and try again.",
 });
 
-export default limiter;
+export default rateLimiter;
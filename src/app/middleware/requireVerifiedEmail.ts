@@ -0,0 +1,36 @@
+import { NextFunction, Request, Response } from "express";
+import config from "../../config";
+import ApiError from "../errors/ApiError";
+import prisma from "../shared/prisma";
+
+// Must run after auth(). The flag is read from the database because the
+// access token may have been issued before the address was verified.
+const requireVerifiedEmail = () => {
+  return async (
+    req: Request & { user?: any },
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      if (config.email_verification.policy === "none") return next();
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user?.id },
+        select: { emailVerified: true },
+      });
+
+      if (!user?.emailVerified) {
+        throw new ApiError(
+          403,
+          "Please verify your email address to use this feature"
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export default requireVerifiedEmail;
@@ -1,10 +1,35 @@
-import { Request, Response } from "express";
+import { CookieOptions, Request, Response } from "express";
+import config from "../../../config";
+import ApiError from "../../errors/ApiError";
 import catchAsync from "../../shared/catchAsync";
 import sendResponse from "../../shared/sendResponse";
 import { AuthServices } from "./auth.services";
+import { TSessionContext } from "./auth.types";
+import { EmailVerificationServices } from "./email-verification.service";
+import { OidcServices } from "./oidc.service";
+import { PersonalAccessTokenServices } from "./personal-access-token.service";
+import { ProfileServices } from "./profile.service";
+import { SessionServices } from "./session.service";
+import { TwoFactorServices } from "./two-factor.service";
+
+const refreshTokenCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: config.env === "production",
+  sameSite: config.env === "production" ? "none" : "lax",
+};
+
+const getRefreshToken = (req: Request): string | undefined =>
+  req.cookies?.refreshToken || req.body?.refreshToken;
+
+const getSessionContext = (req: Request): TSessionContext => ({
+  userAgent: req.get("user-agent"),
+  ipAddress: req.ip,
+});
 
 const register = catchAsync(async (req: Request, res: Response) => {
-  const result = await AuthServices.register(req.body);
+  const result = await AuthServices.register(req.body, getSessionContext(req));
+
+  res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
 
   sendResponse(res, {
     statusCode: 201,
@@ -15,7 +40,68 @@ const register = catchAsync(async (req: Request, res: Response) => {
 });
 
 const login = catchAsync(async (req: Request, res: Response) => {
-  const result = await AuthServices.login(req.body);
+  const result = await AuthServices.login(req.body, getSessionContext(req));
+
+  if ("refreshToken" in result) {
+    res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
+  }
+
+  sendResponse(res, {
+    statusCode: 201,
+    success: true,
+    message: "Logged In Successful.",
+    data: result,
+  });
+});
+
+const loginWithTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthServices.loginWithTwoFactor(
+    req.body,
+    getSessionContext(req)
+  );
+
+  res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
+
+  sendResponse(res, {
+    statusCode: 201,
+    success: true,
+    message: "Logged In Successful.",
+    data: result,
+  });
+});
+
+const getOidcProviders = catchAsync(async (req: Request, res: Response) => {
+  const result = OidcServices.getProviderList();
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Sign-in providers retrieved successfully.",
+    data: result,
+  });
+});
+
+const startOidcLogin = catchAsync(async (req: Request, res: Response) => {
+  const result = await OidcServices.createAuthorizationUrl(req.params.provider);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Redirect the user to the authorization URL.",
+    data: result,
+  });
+});
+
+const completeOidcLogin = catchAsync(async (req: Request, res: Response) => {
+  const result = await OidcServices.handleCallback(
+    req.params.provider,
+    req.body,
+    getSessionContext(req)
+  );
+
+  if ("refreshToken" in result) {
+    res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
+  }
 
   sendResponse(res, {
     statusCode: 201,
@@ -25,7 +111,339 @@ const login = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const refreshToken = catchAsync(async (req: Request, res: Response) => {
+  const token = getRefreshToken(req);
+
+  if (!token) throw new ApiError(401, "Refresh token is required");
+
+  const result = await AuthServices.refreshToken(token, getSessionContext(req));
+
+  res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Access token refreshed successfully.",
+    data: result,
+  });
+});
+
+const logout = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthServices.logout(getRefreshToken(req));
+
+  res.clearCookie("refreshToken", refreshTokenCookieOptions);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Logged out successfully.",
+    data: result,
+  });
+});
+
+const forgotPassword = catchAsync(async (req: Request, res: Response) => {
+  await AuthServices.forgotPassword(req.body.email);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "If an account exists for this email, a reset link has been sent.",
+    data: null,
+  });
+});
+
+const resetPassword = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthServices.resetPassword(req.body);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Password reset successfully.",
+    data: result,
+  });
+});
+
+const verifyEmail = catchAsync(async (req: Request, res: Response) => {
+  const result = await EmailVerificationServices.verifyEmail(req.body.token);
+
+  sendResponse(res, {
+    statusCode: 200,
+    success: true,
+    message: "Email verified successfully.",
+    data: result,
+  });
+});
+
+const resendVerificationEmail = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await EmailVerificationServices.resendVerificationEmail(
+      req.user.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Verification email sent.",
+      data: result,
+    });
+  }
+);
+
+const getMyProfile = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ProfileServices.getMyProfile(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Profile retrieved successfully.",
+      data: result,
+    });
+  }
+);
+
+const updateMyProfile = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ProfileServices.updateMyProfile(req.user.id, req.body);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Profile updated successfully.",
+      data: result,
+    });
+  }
+);
+
+const changePassword = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ProfileServices.changePassword(
+      req.user.id,
+      req.body,
+      getSessionContext(req)
+    );
+
+    res.cookie("refreshToken", result.refreshToken, refreshTokenCookieOptions);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Password changed successfully.",
+      data: result,
+    });
+  }
+);
+
+const requestAccountDeletion = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ProfileServices.requestAccountDeletion(
+      req.user.id,
+      req.body.password
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Account deletion scheduled.",
+      data: result,
+    });
+  }
+);
+
+const cancelAccountDeletion = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ProfileServices.cancelAccountDeletion(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Account deletion cancelled.",
+      data: result,
+    });
+  }
+);
+
+const createPersonalAccessToken = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await PersonalAccessTokenServices.createToken(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Access token created. Copy it now, it will not be shown again.",
+      data: result,
+    });
+  }
+);
+
+const getPersonalAccessTokens = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await PersonalAccessTokenServices.getTokens(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Access tokens retrieved successfully.",
+      data: result,
+    });
+  }
+);
+
+const revokePersonalAccessToken = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await PersonalAccessTokenServices.revokeToken(
+      req.user.id,
+      req.params.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Access token revoked successfully.",
+      data: result,
+    });
+  }
+);
+
+const setupTwoFactor = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await TwoFactorServices.setupTwoFactor(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Scan the provisioning URI with your authenticator app.",
+      data: result,
+    });
+  }
+);
+
+const confirmTwoFactor = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await TwoFactorServices.confirmTwoFactor(
+      req.user.id,
+      req.body.code
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message:
+        "Two-factor authentication enabled. Store your backup codes safely.",
+      data: result,
+    });
+  }
+);
+
+const disableTwoFactor = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await TwoFactorServices.disableTwoFactor(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Two-factor authentication disabled.",
+      data: result,
+    });
+  }
+);
+
+const regenerateBackupCodes = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await TwoFactorServices.regenerateBackupCodes(
+      req.user.id,
+      req.body.code
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Backup codes regenerated.",
+      data: result,
+    });
+  }
+);
+
+const getSessions = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SessionServices.getSessions(
+      req.user.id,
+      req.user.sessionId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Sessions retrieved successfully.",
+      data: result,
+    });
+  }
+);
+
+const revokeSession = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SessionServices.revokeSession(
+      req.user.id,
+      req.params.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Session revoked successfully.",
+      data: result,
+    });
+  }
+);
+
+const revokeOtherSessions = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SessionServices.revokeOtherSessions(
+      req.user.id,
+      req.user.sessionId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Signed out of all other sessions.",
+      data: result,
+    });
+  }
+);
+
 export const AuthControllers = {
   register,
   login,
+  loginWithTwoFactor,
+  getOidcProviders,
+  startOidcLogin,
+  completeOidcLogin,
+  refreshToken,
+  logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  getMyProfile,
+  updateMyProfile,
+  changePassword,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  createPersonalAccessToken,
+  getPersonalAccessTokens,
+  revokePersonalAccessToken,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
 };
@@ -1,5 +1,25 @@
 import express from "express";
+import auth from "../../middleware/auth";
+import { authRateLimiter } from "../../middleware/rateLimiter";
+import validateRequest from "../../middleware/validateRequest";
 import { AuthControllers } from "./auth.controllers";
+import {
+  changePasswordSchema,
+  createPersonalAccessTokenSchema,
+  deleteAccountSchema,
+  disableTwoFactorSchema,
+  forgotPasswordSchema,
+  oidcCallbackSchema,
+  oidcProviderParamsSchema,
+  personalAccessTokenParamsSchema,
+  refreshTokenSchema,
+  resetPasswordSchema,
+  sessionParamsSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  updateProfileSchema,
+  verifyEmailSchema,
+} from "./auth.validation";
 
 const router = express.Router();
 
@@ -11,11 +31,155 @@ router.get("/", (req, res) => {
     endpoints: {
       register: "POST /api/v1/auth/register",
       login: "POST /api/v1/auth/login",
+      loginTwoFactor: "POST /api/v1/auth/login/2fa",
+      oidc: "GET /api/v1/auth/oidc/providers, POST /api/v1/auth/oidc/:provider/{authorize,callback}",
+      refreshToken: "POST /api/v1/auth/refresh-token",
+      logout: "POST /api/v1/auth/logout",
+      forgotPassword: "POST /api/v1/auth/forgot-password",
+      resetPassword: "POST /api/v1/auth/reset-password",
+      verifyEmail: "POST /api/v1/auth/verify-email",
+      resendVerification: "POST /api/v1/auth/resend-verification",
+      me: "GET|PATCH|DELETE /api/v1/auth/me",
+      changePassword: "POST /api/v1/auth/change-password",
+      cancelDeletion: "POST /api/v1/auth/me/cancel-deletion",
+      tokens: "GET|POST /api/v1/auth/tokens, DELETE /api/v1/auth/tokens/:id",
+      twoFactor: "POST /api/v1/auth/2fa/{setup,confirm,disable,backup-codes}",
+      sessions:
+        "GET /api/v1/auth/sessions, DELETE /api/v1/auth/sessions/:id, POST /api/v1/auth/sessions/revoke-others",
     },
   });
 });
 
-router.post("/register", AuthControllers.register);
+router.post("/register", authRateLimiter, AuthControllers.register);
 router.post("/login", AuthControllers.login);
+router.get("/oidc/providers", AuthControllers.getOidcProviders);
+router.post(
+  "/oidc/:provider/authorize",
+  authRateLimiter,
+  validateRequest(oidcProviderParamsSchema),
+  AuthControllers.startOidcLogin
+);
+router.post(
+  "/oidc/:provider/callback",
+  authRateLimiter,
+  validateRequest(oidcCallbackSchema),
+  AuthControllers.completeOidcLogin
+);
+router.post(
+  "/login/2fa",
+  authRateLimiter,
+  validateRequest(twoFactorLoginSchema),
+  AuthControllers.loginWithTwoFactor
+);
+router.post(
+  "/refresh-token",
+  validateRequest(refreshTokenSchema),
+  AuthControllers.refreshToken
+);
+router.post(
+  "/logout",
+  validateRequest(refreshTokenSchema),
+  AuthControllers.logout
+);
+router.post(
+  "/forgot-password",
+  authRateLimiter,
+  validateRequest(forgotPasswordSchema),
+  AuthControllers.forgotPassword
+);
+router.post(
+  "/reset-password",
+  authRateLimiter,
+  validateRequest(resetPasswordSchema),
+  AuthControllers.resetPassword
+);
+router.post(
+  "/verify-email",
+  authRateLimiter,
+  validateRequest(verifyEmailSchema),
+  AuthControllers.verifyEmail
+);
+router.post(
+  "/resend-verification",
+  auth(),
+  authRateLimiter,
+  AuthControllers.resendVerificationEmail
+);
+
+// Profile Routes
+router.get("/me", auth(), AuthControllers.getMyProfile);
+router.patch(
+  "/me",
+  auth(),
+  validateRequest(updateProfileSchema),
+  AuthControllers.updateMyProfile
+);
+router.delete(
+  "/me",
+  auth(),
+  validateRequest(deleteAccountSchema),
+  AuthControllers.requestAccountDeletion
+);
+router.post(
+  "/me/cancel-deletion",
+  auth(),
+  AuthControllers.cancelAccountDeletion
+);
+router.post(
+  "/change-password",
+  auth(),
+  validateRequest(changePasswordSchema),
+  AuthControllers.changePassword
+);
+
+// Personal Access Token Routes
+router.post(
+  "/tokens",
+  auth(),
+  validateRequest(createPersonalAccessTokenSchema),
+  AuthControllers.createPersonalAccessToken
+);
+router.get("/tokens", auth(), AuthControllers.getPersonalAccessTokens);
+router.delete(
+  "/tokens/:id",
+  auth(),
+  validateRequest(personalAccessTokenParamsSchema),
+  AuthControllers.revokePersonalAccessToken
+);
+
+// Session Routes
+router.get("/sessions", auth(), AuthControllers.getSessions);
+router.post(
+  "/sessions/revoke-others",
+  auth(),
+  AuthControllers.revokeOtherSessions
+);
+router.delete(
+  "/sessions/:id",
+  auth(),
+  validateRequest(sessionParamsSchema),
+  AuthControllers.revokeSession
+);
+
+// Two-Factor Authentication Routes
+router.post("/2fa/setup", auth(), AuthControllers.setupTwoFactor);
+router.post(
+  "/2fa/confirm",
+  auth(),
+  validateRequest(twoFactorCodeSchema),
+  AuthControllers.confirmTwoFactor
+);
+router.post(
+  "/2fa/disable",
+  auth(),
+  validateRequest(disableTwoFactorSchema),
+  AuthControllers.disableTwoFactor
+);
+router.post(
+  "/2fa/backup-codes",
+  auth(),
+  validateRequest(twoFactorCodeSchema),
+  AuthControllers.regenerateBackupCodes
+);
 
 export const AuthRoutes = router;
@@ -1,10 +1,21 @@
+import { User } from "@prisma/client";
 import bcrypt from "bcrypt";
 import { Secret } from "jsonwebtoken";
 import config from "../../../config";
 import { jwtHelpers } from "../../../helpers/jwtHelpers";
-import { findUserByEmail } from "../../../helpers/userHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import {
+  excludeSensitiveFields,
+  findUserByEmail,
+} from "../../../helpers/userHelpers";
 import ApiError from "../../errors/ApiError";
+import { mailer } from "../../shared/mailer";
 import prisma from "../../shared/prisma";
+import { TSessionContext, TTwoFactorLogin } from "./auth.types";
+import { EmailVerificationServices } from "./email-verification.service";
+import { LoginThrottleServices } from "./login-throttle.service";
+import { RefreshTokenServices } from "./refresh-token.service";
+import { TwoFactorServices } from "./two-factor.service";
 
 type TRegister = {
   name: string;
@@ -17,7 +28,33 @@ type TLogin = {
   password: string;
 };
 
-const register = async (payload: TRegister) => {
+type TResetPassword = {
+  token: string;
+  newPassword: string;
+};
+
+// The access token carries the session id so the session list can tell
+// which entry is the caller's own
+const issueLoginTokens = async (user: User, context: TSessionContext) => {
+  const userWithoutPassword = excludeSensitiveFields(user);
+
+  const { refreshToken, familyId } =
+    await RefreshTokenServices.issueRefreshToken(userWithoutPassword, context);
+
+  const accessToken = jwtHelpers.generateToken(
+    { ...userWithoutPassword, sessionId: familyId },
+    config.jwt.jwt_secret as Secret,
+    config.jwt.expires_in as string
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    userWithoutPassword,
+  };
+};
+
+const register = async (payload: TRegister, context: TSessionContext = {}) => {
   const { name, email, password } = payload;
 
   // Check if user already exists
@@ -41,19 +78,15 @@ const register = async (payload: TRegister) => {
     },
   });
 
-  const { password: _, ...userWithoutPassword } = newUser;
-
-  const accessToken = jwtHelpers.generateToken(
-    userWithoutPassword,
-    config.jwt.jwt_secret as Secret,
-    config.jwt.expires_in as string
-  );
+  try {
+    await EmailVerificationServices.sendVerificationEmail(newUser);
+  } catch (error) {
+    // The user can request a new email later, so don't fail registration
+    console.error("Failed to send verification email:", error);
+  }
 
-  const refreshToken = jwtHelpers.generateToken(
-    userWithoutPassword,
-    config.jwt.refresh_token_secret as Secret,
-    config.jwt.refresh_token_expires_in as string
-  );
+  const { accessToken, refreshToken, userWithoutPassword } =
+    await issueLoginTokens(newUser, context);
 
   return {
     accessToken,
@@ -62,41 +95,198 @@ const register = async (payload: TRegister) => {
   };
 };
 
-const login = async (payload: TLogin) => {
+// Shared by every first-factor login (password, OIDC) once the user is known
+const completeLogin = async (user: User, context: TSessionContext) => {
+  if (user.suspendedAt) {
+    throw new ApiError(403, "Your account has been suspended.");
+  }
+
+  if (config.email_verification.policy === "login" && !user.emailVerified) {
+    throw new ApiError(
+      403,
+      "Please verify your email address before logging in."
+    );
+  }
+
+  // First factor succeeded, but a second factor is still required
+  if (user.twoFactorEnabled) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: TwoFactorServices.createLoginChallenge(user.id),
+    };
+  }
+
+  return issueLoginTokens(user, context);
+};
+
+const login = async (payload: TLogin, context: TSessionContext = {}) => {
   // find user
   // check whether password correct
   // generate access and refresh token
   // return data
   const { email, password } = payload;
 
-  const user = await findUserByEmail(email);
+  const throttleKeys = LoginThrottleServices.getThrottleKeys(
+    email,
+    context.ipAddress
+  );
+
+  const user = await LoginThrottleServices.guard(throttleKeys, async () => {
+    const user = await findUserByEmail(email);
+
+    // Accounts past their deletion grace period are treated as gone and left
+    // for purgeDeletedAccounts; the response matches a wrong password
+    if (user.deletionScheduledFor && user.deletionScheduledFor <= new Date()) {
+      throw new ApiError(401, "Invalid Credentials.");
+    }
 
-  const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await bcrypt.compare(password, user.password);
 
-  if (!isPasswordValid) throw new ApiError(401, "Invalid Credentials.");
+    if (!isPasswordValid) throw new ApiError(401, "Invalid Credentials.");
 
-  const { password: _, ...userWithoutPassword } = user;
+    return user;
+  });
+
+  return completeLogin(user, context);
+};
+
+const loginWithTwoFactor = async (
+  payload: TTwoFactorLogin,
+  context: TSessionContext = {}
+) => {
+  const userId = TwoFactorServices.decodeLoginChallenge(payload.challengeToken);
+  const throttleKeys = LoginThrottleServices.getThrottleKeys(
+    `2fa:${userId}`,
+    context.ipAddress
+  );
+
+  const user = await LoginThrottleServices.guard(throttleKeys, () =>
+    TwoFactorServices.verifyLoginChallenge(payload)
+  );
+
+  if (user.suspendedAt) {
+    throw new ApiError(403, "Your account has been suspended.");
+  }
+
+  return issueLoginTokens(user, context);
+};
+
+const refreshToken = async (token: string, context: TSessionContext = {}) => {
+  const { user, refreshToken, sessionId } =
+    await RefreshTokenServices.rotateRefreshToken(token, context);
 
   const accessToken = jwtHelpers.generateToken(
-    userWithoutPassword,
+    { ...user, sessionId },
     config.jwt.jwt_secret as Secret,
     config.jwt.expires_in as string
   );
 
-  const refreshToken = jwtHelpers.generateToken(
-    userWithoutPassword,
-    config.jwt.refresh_token_secret as Secret,
-    config.jwt.refresh_token_expires_in as string
-  );
-
   return {
     accessToken,
     refreshToken,
-    userWithoutPassword,
   };
 };
 
+const logout = async (token?: string) => {
+  if (token) {
+    await RefreshTokenServices.revokeRefreshToken(token);
+  }
+
+  return { message: "Logged out successfully" };
+};
+
+const forgotPassword = async (email: string) => {
+  if (!config.reset_pass_link) {
+    throw new Error("RESET_PASS_LINK is not set");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  // Respond the same way whether or not the account exists
+  if (!user) return;
+
+  const resetToken = jwtHelpers.generateToken(
+    {
+      id: user.id,
+      email: user.email,
+      nonce: tokenHelpers.generateRandomToken(8),
+    },
+    config.jwt.reset_pass_secret as Secret,
+    config.jwt.reset_pass_token_expires_in as string
+  );
+
+  const decoded = jwtHelpers.verifyToken(
+    resetToken,
+    config.jwt.reset_pass_secret as Secret
+  );
+
+  await prisma.passwordResetToken.create({
+    data: {
+      tokenHash: tokenHelpers.hashToken(resetToken),
+      userId: user.id,
+      expiresAt: new Date((decoded.exp as number) * 1000),
+    },
+  });
+
+  const resetLink = `${config.reset_pass_link}?token=${resetToken}`;
+
+  try {
+    await mailer.sendMail({
+      to: user.email,
+      subject: "Reset your password",
+      text: `Hi ${user.name},\n\nUse the link below to reset your password. It can only be used once.\n\n${resetLink}\n\nIf you did not request this, you can ignore this email.`,
+    });
+  } catch (error) {
+    // A failure here must not reveal that the account exists
+    console.error("Failed to send password reset email:", error);
+  }
+};
+
+const resetPassword = async (payload: TResetPassword) => {
+  const { token, newPassword } = payload;
+
+  jwtHelpers.verifyToken(token, config.jwt.reset_pass_secret as Secret);
+
+  const storedToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+  });
+
+  if (
+    !storedToken ||
+    storedToken.usedAt ||
+    storedToken.expiresAt < new Date()
+  ) {
+    throw new ApiError(400, "Reset token is invalid or has expired.");
+  }
+
+  const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: storedToken.userId },
+      data: { password: hashedPassword },
+    }),
+    // Burn this token and any other outstanding ones for the user
+    prisma.passwordResetToken.updateMany({
+      where: { userId: storedToken.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+  ]);
+
+  await RefreshTokenServices.revokeAllForUser(storedToken.userId);
+
+  return { message: "Password reset successfully" };
+};
+
 export const AuthServices = {
   register,
   login,
+  completeLogin,
+  loginWithTwoFactor,
+  refreshToken,
+  logout,
+  forgotPassword,
+  resetPassword,
 };
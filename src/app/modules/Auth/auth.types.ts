@@ -0,0 +1,93 @@
+export enum UserRole {
+  STUDENT = "STUDENT",
+  MODERATOR = "MODERATOR",
+  ADMIN = "ADMIN",
+}
+
+export type TUpdateProfile = {
+  name?: string;
+  avatar?: string | null;
+  timezone?: string;
+  baseCurrency?: string;
+};
+
+export type TChangePassword = {
+  currentPassword: string;
+  newPassword: string;
+};
+
+export const USER_PROFILE_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  avatar: true,
+  timezone: true,
+  baseCurrency: true,
+  role: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  deletionScheduledFor: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export type TCreatePersonalAccessToken = {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+};
+
+// Personal access tokens are limited to these API modules; a ":write"
+// scope also grants read access to the same module.
+export const TOKEN_SCOPE_RESOURCES = [
+  "classes",
+  "budget",
+  "focus",
+  "subjects",
+  "study-planner",
+  "exams",
+  "learning",
+  "analytics",
+  "collaboration",
+  "notifications",
+] as const;
+
+export const TOKEN_SCOPES = TOKEN_SCOPE_RESOURCES.flatMap((resource) => [
+  `${resource}:read`,
+  `${resource}:write`,
+]);
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "stk_";
+
+export type TTwoFactorLogin = {
+  challengeToken: string;
+  code?: string;
+  backupCode?: string;
+};
+
+export type TDisableTwoFactor = {
+  password: string;
+  code?: string;
+  backupCode?: string;
+};
+
+// Where a login came from, recorded on its session
+export type TSessionContext = {
+  userAgent?: string;
+  ipAddress?: string;
+};
+
+export type TOidcProvider = {
+  name: string;
+  label: string;
+  issuer: string;
+  client_id: string;
+  client_secret?: string;
+  redirect_uri: string;
+  scopes: string;
+};
+
+export type TOidcCallback = {
+  code: string;
+  state: string;
+};
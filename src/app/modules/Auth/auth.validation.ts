@@ -0,0 +1,205 @@
+import { z } from "zod";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { TOKEN_SCOPES } from "./auth.types";
+
+// The refresh token normally arrives in the httpOnly cookie; the body
+// field is a fallback for clients that cannot use cookies.
+export const refreshTokenSchema = z.object({
+  body: z
+    .object({
+      refreshToken: z.string().min(1, "Refresh token cannot be empty").optional(),
+    })
+    .optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  body: z.object({
+    email: z
+      .string({
+        required_error: "Email is required",
+      })
+      .email("Invalid email address"),
+  }),
+});
+
+export const resetPasswordSchema = z.object({
+  body: z.object({
+    token: z
+      .string({
+        required_error: "Reset token is required",
+      })
+      .min(1, "Reset token cannot be empty"),
+    newPassword: z
+      .string({
+        required_error: "New password is required",
+      })
+      .min(6, "Password must be at least 6 characters"),
+  }),
+});
+
+export const verifyEmailSchema = z.object({
+  body: z.object({
+    token: z
+      .string({
+        required_error: "Verification token is required",
+      })
+      .min(1, "Verification token cannot be empty"),
+  }),
+});
+
+export const updateProfileSchema = z.object({
+  body: z
+    .object({
+      name: z
+        .string()
+        .min(1, "Name cannot be empty")
+        .max(100, "Name too long")
+        .optional(),
+      avatar: z
+        .string()
+        .url("Avatar must be a valid URL")
+        .nullable()
+        .optional(),
+      timezone: z
+        .string()
+        .refine(timezoneHelpers.isValidTimeZone, {
+          message: "Timezone must be an IANA name, e.g. Europe/Berlin",
+        })
+        .optional(),
+      baseCurrency: z
+        .string()
+        .refine(currencyHelpers.isValidCurrency, {
+          message: "Base currency must be a 3-letter ISO 4217 code, e.g. EUR",
+        })
+        .optional(),
+    })
+    .strict(),
+});
+
+export const changePasswordSchema = z.object({
+  body: z.object({
+    currentPassword: z
+      .string({
+        required_error: "Current password is required",
+      })
+      .min(1, "Current password cannot be empty"),
+    newPassword: z
+      .string({
+        required_error: "New password is required",
+      })
+      .min(6, "Password must be at least 6 characters"),
+  }),
+});
+
+export const deleteAccountSchema = z.object({
+  body: z.object({
+    password: z
+      .string({
+        required_error: "Password is required",
+      })
+      .min(1, "Password cannot be empty"),
+  }),
+});
+
+export const createPersonalAccessTokenSchema = z.object({
+  body: z.object({
+    name: z
+      .string({
+        required_error: "Token name is required",
+      })
+      .min(1, "Token name cannot be empty")
+      .max(100, "Token name too long"),
+    scopes: z
+      .array(
+        z.string().refine((scope) => TOKEN_SCOPES.includes(scope), {
+          message: "Invalid scope",
+        }),
+        { required_error: "At least one scope is required" }
+      )
+      .min(1, "At least one scope is required"),
+    expiresInDays: z.number().int().min(1).max(365).optional(),
+  }),
+});
+
+export const personalAccessTokenParamsSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Token ID is required",
+    }),
+  }),
+});
+
+export const sessionParamsSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Session ID is required",
+    }),
+  }),
+});
+
+export const oidcProviderParamsSchema = z.object({
+  params: z.object({
+    provider: z.string({
+      required_error: "Provider is required",
+    }),
+  }),
+});
+
+export const oidcCallbackSchema = z.object({
+  params: z.object({
+    provider: z.string({
+      required_error: "Provider is required",
+    }),
+  }),
+  body: z.object({
+    code: z.string({
+      required_error: "Authorization code is required",
+    }),
+    state: z.string({
+      required_error: "State is required",
+    }),
+  }),
+});
+
+const totpCode = z.string().regex(/^\d{6}$/, "Code must be 6 digits");
+
+export const twoFactorLoginSchema = z.object({
+  body: z
+    .object({
+      challengeToken: z
+        .string({
+          required_error: "Challenge token is required",
+        })
+        .min(1, "Challenge token cannot be empty"),
+      code: totpCode.optional(),
+      backupCode: z.string().min(1, "Backup code cannot be empty").optional(),
+    })
+    .refine((data) => data.code || data.backupCode, {
+      message: "Either code or backupCode is required",
+      path: ["code"],
+    }),
+});
+
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: totpCode,
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z
+    .object({
+      password: z
+        .string({
+          required_error: "Password is required",
+        })
+        .min(1, "Password cannot be empty"),
+      code: totpCode.optional(),
+      backupCode: z.string().min(1, "Backup code cannot be empty").optional(),
+    })
+    .refine((data) => data.code || data.backupCode, {
+      message: "Either code or backupCode is required",
+      path: ["code"],
+    }),
+});
@@ -0,0 +1,126 @@
+import config from "../../../config";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import ApiError from "../../errors/ApiError";
+import { mailer } from "../../shared/mailer";
+import prisma from "../../shared/prisma";
+
+const sendVerificationEmail = async (user: {
+  id: string;
+  name: string;
+  email: string;
+}) => {
+  if (!config.email_verification.link) {
+    throw new Error("EMAIL_VERIFICATION_LINK is not set");
+  }
+
+  const verificationToken = tokenHelpers.generateRandomToken();
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      tokenHash: tokenHelpers.hashToken(verificationToken),
+      userId: user.id,
+      expiresAt: new Date(
+        Date.now() +
+          config.email_verification.token_expires_in_hours * 60 * 60 * 1000
+      ),
+    },
+  });
+
+  const verificationLink = `${config.email_verification.link}?token=${verificationToken}`;
+
+  await mailer.sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below:\n\n${verificationLink}\n\nThe link expires in ${config.email_verification.token_expires_in_hours} hours.`,
+  });
+};
+
+const verifyEmail = async (token: string) => {
+  const storedToken = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+  });
+
+  if (
+    !storedToken ||
+    storedToken.usedAt ||
+    storedToken.expiresAt < new Date()
+  ) {
+    throw new ApiError(400, "Verification token is invalid or has expired.");
+  }
+
+  const now = new Date();
+
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: storedToken.userId },
+      data: { emailVerified: true, emailVerifiedAt: now },
+      select: { id: true, email: true, emailVerified: true },
+    }),
+    prisma.emailVerificationToken.updateMany({
+      where: { userId: storedToken.userId, usedAt: null },
+      data: { usedAt: now },
+    }),
+  ]);
+
+  return user;
+};
+
+const resendVerificationEmail = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) throw new ApiError(404, "User Not Found");
+
+  if (user.emailVerified) {
+    throw new ApiError(400, "Email is already verified.");
+  }
+
+  const { resend_interval_seconds, max_resends_per_day } =
+    config.email_verification;
+
+  const [lastToken, sentToday] = await Promise.all([
+    prisma.emailVerificationToken.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.emailVerificationToken.count({
+      where: {
+        userId,
+        createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+      },
+    }),
+  ]);
+
+  if (
+    lastToken &&
+    Date.now() - lastToken.createdAt.getTime() < resend_interval_seconds * 1000
+  ) {
+    throw new ApiError(
+      429,
+      `Please wait ${resend_interval_seconds} seconds before requesting another email.`
+    );
+  }
+
+  if (sentToday >= max_resends_per_day) {
+    throw new ApiError(
+      429,
+      "Too many verification emails requested. Try again tomorrow."
+    );
+  }
+
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    // Same as on registration: log it and let the user try again later
+    console.error("Failed to send verification email:", error);
+  }
+
+  return { message: "Verification email sent" };
+};
+
+export const EmailVerificationServices = {
+  sendVerificationEmail,
+  verifyEmail,
+  resendVerificationEmail,
+};
@@ -0,0 +1,102 @@
+import config from "../../../config";
+import ApiError from "../../errors/ApiError";
+import { getRateLimitStore } from "../../shared/rateLimitStore";
+
+const MINUTE = 60 * 1000;
+// How long repeated lockouts keep escalating before starting over
+const LOCKOUT_LEVEL_WINDOW_MS = 24 * 60 * MINUTE;
+
+// Failed attempts are tracked both per account and per client IP, so neither
+// guessing one password from many IPs nor many accounts from one IP works.
+const getThrottleKeys = (account: string, ip?: string) => {
+  const keys = [`account:${account.toLowerCase()}`];
+  if (ip) keys.push(`ip:${ip}`);
+  return keys;
+};
+
+const assertNotLocked = async (keys: string[]) => {
+  const store = getRateLimitStore();
+
+  for (const key of keys) {
+    const lock = await store.get(`login:lock:${key}`);
+
+    if (lock) {
+      const minutes = Math.ceil((lock.resetAt.getTime() - Date.now()) / MINUTE);
+      throw new ApiError(
+        429,
+        `Too many failed login attempts. Try again in ${minutes} minute(s).`
+      );
+    }
+  }
+};
+
+// Each lockout for the same key lasts twice as long as the previous one
+const recordFailure = async (keys: string[]) => {
+  const store = getRateLimitStore();
+  const {
+    login_max_attempts,
+    login_ip_max_attempts,
+    login_window_minutes,
+    lockout_base_minutes,
+    lockout_max_minutes,
+  } = config.rate_limit;
+
+  for (const key of keys) {
+    const failures = await store.increment(
+      `login:fail:${key}`,
+      login_window_minutes * MINUTE
+    );
+
+    // One IP can be a whole campus or NAT, so it gets a much higher limit
+    const maxAttempts = key.startsWith("ip:")
+      ? login_ip_max_attempts
+      : login_max_attempts;
+
+    if (failures.count < maxAttempts) continue;
+
+    const level = await store.increment(
+      `login:level:${key}`,
+      LOCKOUT_LEVEL_WINDOW_MS
+    );
+    const lockoutMinutes = Math.min(
+      lockout_base_minutes * 2 ** (level.count - 1),
+      lockout_max_minutes
+    );
+
+    await store.increment(`login:lock:${key}`, lockoutMinutes * MINUTE);
+    await store.reset(`login:fail:${key}`);
+  }
+};
+
+// Only the account is cleared; a busy IP keeps its failure history
+const recordSuccess = async (keys: string[]) => {
+  const store = getRateLimitStore();
+
+  for (const key of keys.filter((key) => key.startsWith("account:"))) {
+    await store.reset(`login:fail:${key}`);
+    await store.reset(`login:level:${key}`);
+  }
+};
+
+// Runs an authentication step under throttling: refuses while locked and
+// counts a failure whenever the step throws.
+const guard = async <T>(keys: string[], attempt: () => Promise<T>) => {
+  await assertNotLocked(keys);
+
+  try {
+    const result = await attempt();
+    await recordSuccess(keys);
+    return result;
+  } catch (error) {
+    await recordFailure(keys);
+    throw error;
+  }
+};
+
+export const LoginThrottleServices = {
+  getThrottleKeys,
+  assertNotLocked,
+  recordFailure,
+  recordSuccess,
+  guard,
+};
@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import config from "../../../config";
+
+// A minimal OpenID provider so the OIDC flow can be exercised locally and in
+// tests without a real identity provider. It signs in whoever it is told to:
+// pass ?login_hint=<email> (and optionally &name= and &email_verified=false)
+// to the authorize URL and it redirects straight back with a code.
+
+export const MOCK_OIDC_CLIENT = {
+  name: "mock",
+  label: "Mock identity provider",
+  client_id: "student-toolkit",
+  client_secret: "mock-client-secret",
+};
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+type TAuthorizationCode = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+};
+
+// Generated per process; clients pick the key up from the JWKS endpoint
+const keyId = crypto.randomUUID();
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+const codes = new Map<string, TAuthorizationCode>();
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+const sendOAuthError = (
+  res: Response,
+  error: string,
+  description: string,
+  status = 400
+) => {
+  res.status(status).json({ error, error_description: description });
+};
+
+const router = express.Router();
+
+router.get("/.well-known/openid-configuration", (req, res) => {
+  const issuer = config.oidc.mock.issuer;
+
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: [
+      "client_secret_post",
+      "client_secret_basic",
+    ],
+  });
+});
+
+router.get("/jwks", (req, res) => {
+  res.json({
+    keys: [
+      {
+        ...publicKey.export({ format: "jwk" }),
+        kid: keyId,
+        alg: "RS256",
+        use: "sig",
+      },
+    ],
+  });
+});
+
+router.get("/authorize", (req: Request, res: Response) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  if (query.client_id !== MOCK_OIDC_CLIENT.client_id) {
+    return sendOAuthError(res, "invalid_client", "Unknown client_id");
+  }
+
+  if (!query.redirect_uri || query.response_type !== "code") {
+    return sendOAuthError(
+      res,
+      "invalid_request",
+      "redirect_uri and response_type=code are required"
+    );
+  }
+
+  if (!query.code_challenge || query.code_challenge_method !== "S256") {
+    return sendOAuthError(res, "invalid_request", "PKCE with S256 is required");
+  }
+
+  const email = query.login_hint || "student@example.edu";
+  const code = base64Url(crypto.randomBytes(24));
+
+  codes.set(code, {
+    clientId: query.client_id,
+    redirectUri: query.redirect_uri,
+    codeChallenge: query.code_challenge,
+    nonce: query.nonce,
+    email,
+    name: query.name || email.split("@")[0],
+    emailVerified: query.email_verified !== "false",
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirectUrl = new URL(query.redirect_uri);
+  redirectUrl.searchParams.set("code", code);
+  if (query.state) redirectUrl.searchParams.set("state", query.state);
+
+  res.redirect(302, redirectUrl.toString());
+});
+
+router.post("/token", (req: Request, res: Response) => {
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+
+  // client_secret_basic
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Basic ")) {
+    const [id, secret] = Buffer.from(authorization.slice(6), "base64")
+      .toString()
+      .split(":")
+      .map(decodeURIComponent);
+    clientId = id;
+    clientSecret = secret;
+  }
+
+  if (
+    clientId !== MOCK_OIDC_CLIENT.client_id ||
+    clientSecret !== MOCK_OIDC_CLIENT.client_secret
+  ) {
+    return sendOAuthError(
+      res,
+      "invalid_client",
+      "Client authentication failed",
+      401
+    );
+  }
+
+  if (req.body.grant_type !== "authorization_code") {
+    return sendOAuthError(
+      res,
+      "unsupported_grant_type",
+      "Only authorization_code is supported"
+    );
+  }
+
+  const authorizationCode = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (
+    !authorizationCode ||
+    authorizationCode.expiresAt < Date.now() ||
+    authorizationCode.clientId !== clientId ||
+    authorizationCode.redirectUri !== req.body.redirect_uri
+  ) {
+    return sendOAuthError(res, "invalid_grant", "Invalid or expired code");
+  }
+
+  const expectedChallenge = base64Url(
+    crypto
+      .createHash("sha256")
+      .update(String(req.body.code_verifier || ""))
+      .digest()
+  );
+
+  if (expectedChallenge !== authorizationCode.codeChallenge) {
+    return sendOAuthError(res, "invalid_grant", "PKCE verification failed");
+  }
+
+  const idToken = jwt.sign(
+    {
+      email: authorizationCode.email,
+      email_verified: authorizationCode.emailVerified,
+      name: authorizationCode.name,
+      nonce: authorizationCode.nonce,
+    },
+    privateKey,
+    {
+      algorithm: "RS256",
+      keyid: keyId,
+      issuer: config.oidc.mock.issuer,
+      audience: clientId,
+      subject: `mock-${crypto
+        .createHash("sha256")
+        .update(authorizationCode.email.toLowerCase())
+        .digest("hex")
+        .slice(0, 24)}`,
+      expiresIn: ID_TOKEN_TTL_SECONDS,
+    }
+  );
+
+  res.json({
+    access_token: base64Url(crypto.randomBytes(24)),
+    token_type: "Bearer",
+    expires_in: ID_TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
+
+export const MockOidcProviderRoutes = router;
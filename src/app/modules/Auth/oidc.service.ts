@@ -0,0 +1,354 @@
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import config from "../../../config";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { AuthServices } from "./auth.services";
+import { TOidcCallback, TOidcProvider, TSessionContext } from "./auth.types";
+import { MOCK_OIDC_CLIENT } from "./mock-oidc-provider";
+import { RefreshTokenServices } from "./refresh-token.service";
+import { TwoFactorServices } from "./two-factor.service";
+
+type TDiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type TIdTokenClaims = JwtPayload & {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+};
+
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "ES256",
+  "ES384",
+];
+
+const discoveryCache = new Map<
+  string,
+  { document: TDiscoveryDocument; fetchedAt: number }
+>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+const getProviders = (): TOidcProvider[] => {
+  const providers = config.oidc.providers.filter(
+    (provider) => provider.issuer && provider.client_id && provider.redirect_uri
+  );
+
+  if (config.oidc.mock.enabled) {
+    providers.push({
+      ...MOCK_OIDC_CLIENT,
+      issuer: config.oidc.mock.issuer,
+      redirect_uri: config.oidc.mock.redirect_uri,
+      scopes: "openid email profile",
+    });
+  }
+
+  return providers;
+};
+
+const getProvider = (name: string) => {
+  const provider = getProviders().find((provider) => provider.name === name);
+
+  if (!provider) {
+    throw new ApiError(404, "Sign-in provider not found");
+  }
+
+  return provider;
+};
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  let response: Response;
+
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new ApiError(502, "Identity provider is unavailable");
+  }
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    console.error("Identity provider request failed:", url, body);
+    throw new ApiError(502, "Identity provider rejected the request");
+  }
+
+  return body;
+};
+
+const getDiscoveryDocument = async (
+  provider: TOidcProvider
+): Promise<TDiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.issuer);
+
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.document;
+  }
+
+  const document = await fetchJson(
+    `${provider.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+  );
+
+  discoveryCache.set(provider.issuer, { document, fetchedAt: Date.now() });
+
+  return document;
+};
+
+// Keys are refetched when an unknown kid shows up so provider key rotation
+// doesn't break sign-in until the cache expires
+const getSigningKey = async (jwksUri: string, kid?: string) => {
+  const findKey = (keys: any[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.use !== "enc"));
+
+  const cached = jwksCache.get(jwksUri);
+  let key =
+    cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS
+      ? findKey(cached.keys)
+      : undefined;
+
+  if (!key) {
+    const { keys } = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new ApiError(401, "ID token is signed with an unknown key");
+  }
+
+  return crypto.createPublicKey({ key, format: "jwk" });
+};
+
+const verifyIdToken = async (
+  provider: TOidcProvider,
+  discovery: TDiscoveryDocument,
+  idToken: string,
+  nonce: string
+) => {
+  const decoded = jwt.decode(idToken, { complete: true });
+
+  if (!decoded) {
+    throw new ApiError(401, "Invalid ID token");
+  }
+
+  const signingKey = await getSigningKey(
+    discovery.jwks_uri,
+    decoded.header.kid
+  );
+
+  let claims: TIdTokenClaims;
+
+  try {
+    claims = jwt.verify(idToken, signingKey, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: provider.client_id,
+    }) as TIdTokenClaims;
+  } catch (error) {
+    throw new ApiError(401, "Invalid ID token");
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new ApiError(401, "ID token nonce mismatch");
+  }
+
+  return claims;
+};
+
+// Starts an authorization code flow with PKCE. The verifier and nonce stay on
+// the server; only the state travels through the browser.
+const createAuthorizationUrl = async (providerName: string) => {
+  const provider = getProvider(providerName);
+  const discovery = await getDiscoveryDocument(provider);
+
+  const state = tokenHelpers.generateRandomToken();
+  const nonce = tokenHelpers.generateRandomToken(16);
+  const codeVerifier = crypto.randomBytes(32).toString("base64url");
+  const codeChallenge = crypto
+    .createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+
+  await prisma.oidcLoginState.create({
+    data: {
+      stateHash: tokenHelpers.hashToken(state),
+      provider: provider.name,
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(
+        Date.now() + config.oidc.state_expires_in_minutes * 60 * 1000
+      ),
+    },
+  });
+
+  const authorizationUrl = new URL(discovery.authorization_endpoint);
+  authorizationUrl.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.client_id,
+    redirect_uri: provider.redirect_uri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { authorizationUrl: authorizationUrl.toString(), state };
+};
+
+// Password login stays unusable until the user sets one via reset
+const hashUnusablePassword = () =>
+  bcrypt.hash(tokenHelpers.generateRandomToken(), 10);
+
+// Existing links win; otherwise the identity is attached to the account with
+// the same email, or a new account is created. Both require the provider to
+// vouch for the email address.
+const findOrCreateUser = async (
+  providerName: string,
+  claims: TIdTokenClaims
+) => {
+  const identity = await prisma.oidcIdentity.findUnique({
+    where: {
+      provider_subject: { provider: providerName, subject: claims.sub },
+    },
+    include: { user: true },
+  });
+
+  if (identity) {
+    await prisma.oidcIdentity.update({
+      where: { id: identity.id },
+      data: { lastLoginAt: new Date(), email: claims.email },
+    });
+
+    return identity.user;
+  }
+
+  const emailVerified =
+    claims.email_verified === true || claims.email_verified === "true";
+
+  if (!claims.email || !emailVerified) {
+    throw new ApiError(
+      403,
+      "Your identity provider did not confirm your email address."
+    );
+  }
+
+  const email = claims.email;
+  let user = await prisma.user.findUnique({ where: { email } });
+
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        name: claims.name || email.split("@")[0],
+        email,
+        password: await hashUnusablePassword(),
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  } else if (!user.emailVerified) {
+    // Whoever registered this account never proved they own the email, so
+    // the provider's verified owner takes it over and every credential the
+    // registrant may hold (password, 2FA, tokens, sessions) stops working
+    await TwoFactorServices.resetTwoFactor(user.id);
+    await prisma.personalAccessToken.updateMany({
+      where: { userId: user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    await RefreshTokenServices.revokeAllForUser(user.id);
+
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await hashUnusablePassword(),
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  }
+
+  await prisma.oidcIdentity.create({
+    data: {
+      provider: providerName,
+      subject: claims.sub,
+      email,
+      userId: user.id,
+    },
+  });
+
+  return user;
+};
+
+const handleCallback = async (
+  providerName: string,
+  payload: TOidcCallback,
+  context: TSessionContext = {}
+) => {
+  const provider = getProvider(providerName);
+
+  const loginState = await prisma.oidcLoginState.findUnique({
+    where: { stateHash: tokenHelpers.hashToken(payload.state) },
+  });
+
+  if (!loginState || loginState.provider !== provider.name) {
+    throw new ApiError(400, "Invalid sign-in state");
+  }
+
+  // States are single-use
+  await prisma.oidcLoginState.delete({ where: { id: loginState.id } });
+
+  if (loginState.expiresAt < new Date()) {
+    throw new ApiError(400, "Sign-in attempt has expired, please try again");
+  }
+
+  const discovery = await getDiscoveryDocument(provider);
+
+  const tokenResponse = await fetchJson(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: payload.code,
+      redirect_uri: provider.redirect_uri,
+      client_id: provider.client_id,
+      code_verifier: loginState.codeVerifier,
+      ...(provider.client_secret && { client_secret: provider.client_secret }),
+    }).toString(),
+  });
+
+  if (!tokenResponse.id_token) {
+    throw new ApiError(502, "Identity provider did not return an ID token");
+  }
+
+  const claims = await verifyIdToken(
+    provider,
+    discovery,
+    tokenResponse.id_token,
+    loginState.nonce
+  );
+
+  const user = await findOrCreateUser(provider.name, claims);
+
+  return AuthServices.completeLogin(user, context);
+};
+
+const getProviderList = () =>
+  getProviders().map(({ name, label }) => ({ name, label }));
+
+export const OidcServices = {
+  getProviderList,
+  createAuthorizationUrl,
+  handleCallback,
+};
@@ -0,0 +1,139 @@
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import { excludeSensitiveFields } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  TCreatePersonalAccessToken,
+} from "./auth.types";
+
+// How stale lastUsedAt may get before a request writes it again
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+const isPersonalAccessToken = (token: string) =>
+  token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+
+const createToken = async (
+  userId: string,
+  payload: TCreatePersonalAccessToken
+) => {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${tokenHelpers.generateRandomToken()}`;
+
+  const personalAccessToken = await prisma.personalAccessToken.create({
+    data: {
+      name: payload.name,
+      tokenHash: tokenHelpers.hashToken(token),
+      tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(payload.scopes)),
+      expiresAt: payload.expiresInDays
+        ? new Date(Date.now() + payload.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      userId,
+    },
+    select: TOKEN_SELECT,
+  });
+
+  // The plain token is only ever returned here
+  return { ...personalAccessToken, token };
+};
+
+const getTokens = async (userId: string) => {
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: { userId },
+    select: TOKEN_SELECT,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return tokens;
+};
+
+const revokeToken = async (userId: string, tokenId: string) => {
+  const token = await prisma.personalAccessToken.findFirst({
+    where: { id: tokenId, userId },
+  });
+
+  if (!token) {
+    throw new ApiError(404, "Access token not found");
+  }
+
+  if (token.revokedAt) {
+    throw new ApiError(400, "Access token is already revoked");
+  }
+
+  const revokedToken = await prisma.personalAccessToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+    select: TOKEN_SELECT,
+  });
+
+  return revokedToken;
+};
+
+// Resolves a presented token to its owner and scopes, recording usage
+const authenticate = async (token: string, ip?: string) => {
+  const personalAccessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+    include: { user: true },
+  });
+
+  if (
+    !personalAccessToken ||
+    personalAccessToken.revokedAt ||
+    (personalAccessToken.expiresAt &&
+      personalAccessToken.expiresAt < new Date())
+  ) {
+    throw new ApiError(401, "Invalid or expired access token");
+  }
+
+  if (personalAccessToken.user.suspendedAt) {
+    throw new ApiError(403, "Your account has been suspended.");
+  }
+
+  if (
+    !personalAccessToken.lastUsedAt ||
+    Date.now() - personalAccessToken.lastUsedAt.getTime() >
+      LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    await prisma.personalAccessToken.update({
+      where: { id: personalAccessToken.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip },
+    });
+  }
+
+  const userWithoutPassword = excludeSensitiveFields(personalAccessToken.user);
+
+  return {
+    user: userWithoutPassword,
+    tokenId: personalAccessToken.id,
+    scopes: personalAccessToken.scopes,
+  };
+};
+
+const hasScope = (scopes: string[], resource: string, method: string) => {
+  const isRead = ["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase());
+
+  if (scopes.includes(`${resource}:write`)) return true;
+
+  return isRead && scopes.includes(`${resource}:read`);
+};
+
+export const PersonalAccessTokenServices = {
+  isPersonalAccessToken,
+  createToken,
+  getTokens,
+  revokeToken,
+  authenticate,
+  hasScope,
+};
@@ -0,0 +1,169 @@
+import bcrypt from "bcrypt";
+import { Secret } from "jsonwebtoken";
+import config from "../../../config";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { jwtHelpers } from "../../../helpers/jwtHelpers";
+import {
+  excludeSensitiveFields,
+  findUserById,
+} from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { BudgetLimitServices } from "../budget/budget-limit.service";
+import {
+  TChangePassword,
+  TSessionContext,
+  TUpdateProfile,
+  USER_PROFILE_SELECT,
+} from "./auth.types";
+import { RefreshTokenServices } from "./refresh-token.service";
+
+const getMyProfile = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: USER_PROFILE_SELECT,
+  });
+
+  if (!user) throw new ApiError(404, "User Not Found");
+
+  return user;
+};
+
+const updateMyProfile = async (userId: string, payload: TUpdateProfile) => {
+  await findUserById(userId);
+
+  const baseCurrency =
+    payload.baseCurrency &&
+    currencyHelpers.normalizeCurrency(payload.baseCurrency);
+
+  // Budget limits are amounts in the base currency and move with it
+  const limitUpdates = baseCurrency
+    ? await BudgetLimitServices.getCurrencyConversionUpdates(
+        userId,
+        baseCurrency
+      )
+    : [];
+
+  const [updatedUser] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { ...payload, ...(baseCurrency && { baseCurrency }) },
+      select: USER_PROFILE_SELECT,
+    }),
+    ...limitUpdates,
+  ]);
+
+  return updatedUser;
+};
+
+const changePassword = async (
+  userId: string,
+  payload: TChangePassword,
+  context: TSessionContext = {}
+) => {
+  const user = await findUserById(userId);
+
+  const isPasswordValid = await bcrypt.compare(
+    payload.currentPassword,
+    user.password
+  );
+
+  if (!isPasswordValid) {
+    throw new ApiError(401, "Current password is incorrect.");
+  }
+
+  const hashedPassword = await bcrypt.hash(payload.newPassword, 10);
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: { password: hashedPassword },
+  });
+
+  // Sign out every other device, then hand this one a fresh token pair
+  await RefreshTokenServices.revokeAllForUser(userId);
+
+  const userWithoutPassword = excludeSensitiveFields(updatedUser);
+
+  const { refreshToken, familyId } =
+    await RefreshTokenServices.issueRefreshToken(userWithoutPassword, context);
+
+  const accessToken = jwtHelpers.generateToken(
+    { ...userWithoutPassword, sessionId: familyId },
+    config.jwt.jwt_secret as Secret,
+    config.jwt.expires_in as string
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+  };
+};
+
+// Deletion is deferred so the user can change their mind; the account and
+// everything attached to it is removed once the grace period has passed.
+const requestAccountDeletion = async (userId: string, password: string) => {
+  const user = await findUserById(userId);
+
+  const isPasswordValid = await bcrypt.compare(password, user.password);
+
+  if (!isPasswordValid) {
+    throw new ApiError(401, "Password is incorrect.");
+  }
+
+  if (user.deletionScheduledFor) {
+    throw new ApiError(400, "Account deletion is already scheduled.");
+  }
+
+  const now = new Date();
+  const deletionScheduledFor = new Date(
+    now.getTime() + config.account_deletion_grace_days * 24 * 60 * 60 * 1000
+  );
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledFor,
+    },
+    select: USER_PROFILE_SELECT,
+  });
+
+  return updatedUser;
+};
+
+const cancelAccountDeletion = async (userId: string) => {
+  const user = await findUserById(userId);
+
+  if (!user.deletionScheduledFor) {
+    throw new ApiError(400, "No account deletion is scheduled.");
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      deletionRequestedAt: null,
+      deletionScheduledFor: null,
+    },
+    select: USER_PROFILE_SELECT,
+  });
+
+  return updatedUser;
+};
+
+// Relies on the onDelete: Cascade relations to remove the user's data
+const purgeDeletedAccounts = async () => {
+  const result = await prisma.user.deleteMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+  });
+
+  return { deletedCount: result.count };
+};
+
+export const ProfileServices = {
+  getMyProfile,
+  updateMyProfile,
+  changePassword,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  purgeDeletedAccounts,
+};
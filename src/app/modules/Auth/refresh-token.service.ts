@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import { Secret } from "jsonwebtoken";
+import config from "../../../config";
+import { jwtHelpers } from "../../../helpers/jwtHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import { excludeSensitiveFields } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { TSessionContext } from "./auth.types";
+
+// Signs a refresh token and records its hash so it can be rotated or revoked.
+// Without a familyId this starts a new session for the login.
+const issueRefreshToken = async (
+  user: { id: string; [key: string]: any },
+  context: TSessionContext = {},
+  familyId?: string
+) => {
+  const tokenId = crypto.randomUUID();
+  const sessionId = familyId || crypto.randomUUID();
+
+  const refreshToken = jwtHelpers.generateToken(
+    { ...user, tokenId, familyId: sessionId },
+    config.jwt.refresh_token_secret as Secret,
+    config.jwt.refresh_token_expires_in as string
+  );
+
+  const decoded = jwtHelpers.verifyToken(
+    refreshToken,
+    config.jwt.refresh_token_secret as Secret
+  );
+  const expiresAt = new Date((decoded.exp as number) * 1000);
+
+  await prisma.$transaction([
+    familyId
+      ? prisma.authSession.update({
+          where: { id: sessionId },
+          data: {
+            lastSeenAt: new Date(),
+            expiresAt,
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+          },
+        })
+      : prisma.authSession.create({
+          data: {
+            id: sessionId,
+            userId: user.id,
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+            expiresAt,
+          },
+        }),
+    prisma.refreshToken.create({
+      data: {
+        id: tokenId,
+        tokenHash: tokenHelpers.hashToken(refreshToken),
+        familyId: sessionId,
+        userId: user.id,
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { refreshToken, tokenId, familyId: sessionId };
+};
+
+const revokeFamily = async (familyId: string) => {
+  const revokedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt },
+    }),
+    prisma.authSession.updateMany({
+      where: { id: familyId, revokedAt: null },
+      data: { revokedAt },
+    }),
+  ]);
+};
+
+const revokeAllForUser = async (userId: string) => {
+  const revokedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt },
+    }),
+    prisma.authSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt },
+    }),
+  ]);
+};
+
+// Exchanges a refresh token for a new one in the same family.
+// Presenting a token that was already rotated means it leaked, so the
+// whole family is revoked and the user has to log in again.
+const rotateRefreshToken = async (
+  token: string,
+  context: TSessionContext = {}
+) => {
+  jwtHelpers.verifyToken(token, config.jwt.refresh_token_secret as Secret);
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+  });
+
+  if (!storedToken) throw new ApiError(401, "Invalid refresh token");
+
+  if (storedToken.revokedAt) {
+    await revokeFamily(storedToken.familyId);
+    throw new ApiError(401, "Refresh token reuse detected");
+  }
+
+  if (storedToken.expiresAt < new Date()) {
+    throw new ApiError(401, "Refresh token expired");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: storedToken.userId },
+  });
+
+  if (!user) throw new ApiError(401, "Invalid refresh token");
+
+  if (user.suspendedAt) {
+    await revokeFamily(storedToken.familyId);
+    throw new ApiError(403, "Your account has been suspended.");
+  }
+
+  // Claim the token before issuing its replacement. Of two concurrent
+  // refreshes with the same token only one can claim it; the other is reuse.
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    await revokeFamily(storedToken.familyId);
+    throw new ApiError(401, "Refresh token reuse detected");
+  }
+
+  const userWithoutPassword = excludeSensitiveFields(user);
+
+  const issued = await issueRefreshToken(
+    userWithoutPassword,
+    context,
+    storedToken.familyId
+  );
+
+  await prisma.refreshToken.update({
+    where: { id: storedToken.id },
+    data: { replacedById: issued.tokenId },
+  });
+
+  return {
+    user: userWithoutPassword,
+    refreshToken: issued.refreshToken,
+    sessionId: issued.familyId,
+  };
+};
+
+const revokeRefreshToken = async (token: string) => {
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+  });
+
+  // Logging out with an unknown token is a no-op
+  if (!storedToken) return;
+
+  await revokeFamily(storedToken.familyId);
+};
+
+export const RefreshTokenServices = {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeFamily,
+  revokeAllForUser,
+};
@@ -0,0 +1,130 @@
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { RefreshTokenServices } from "./refresh-token.service";
+
+const SESSION_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastSeenAt: true,
+  expiresAt: true,
+} as const;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// A rough "Chrome on Windows" label; the raw user agent is returned as well
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+};
+
+// Access tokens outlive a revoked session, so every request checks the
+// session it was issued for. The role comes from the account rather than the
+// token, so suspensions and role changes apply straight away.
+const authenticate = async (sessionId?: string) => {
+  const session = sessionId
+    ? await prisma.authSession.findUnique({
+        where: { id: sessionId },
+        select: {
+          revokedAt: true,
+          expiresAt: true,
+          user: { select: { role: true, suspendedAt: true } },
+        },
+      })
+    : null;
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    throw new ApiError(401, "Your session has ended. Please log in again.");
+  }
+
+  if (session.user.suspendedAt) {
+    throw new ApiError(403, "Your account has been suspended.");
+  }
+
+  return { role: session.user.role };
+};
+
+const getSessions = async (userId: string, currentSessionId?: string) => {
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: SESSION_SELECT,
+    orderBy: { lastSeenAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    device: describeDevice(session.userAgent),
+    current: session.id === currentSessionId,
+  }));
+};
+
+const revokeSession = async (userId: string, sessionId: string) => {
+  const session = await prisma.authSession.findFirst({
+    where: { id: sessionId, userId },
+  });
+
+  if (!session) {
+    throw new ApiError(404, "Session not found");
+  }
+
+  if (session.revokedAt) {
+    throw new ApiError(400, "Session is already revoked");
+  }
+
+  await RefreshTokenServices.revokeFamily(sessionId);
+
+  return { message: "Session revoked" };
+};
+
+const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId?: string
+) => {
+  if (!currentSessionId) {
+    throw new ApiError(
+      400,
+      "Current session could not be determined. Please log in again."
+    );
+  }
+
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null, id: { not: currentSessionId } },
+    select: { id: true },
+  });
+
+  for (const session of sessions) {
+    await RefreshTokenServices.revokeFamily(session.id);
+  }
+
+  return { revokedCount: sessions.length };
+};
+
+export const SessionServices = {
+  authenticate,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+};
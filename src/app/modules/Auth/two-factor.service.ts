@@ -0,0 +1,237 @@
+import bcrypt from "bcrypt";
+import { Secret } from "jsonwebtoken";
+import config from "../../../config";
+import { jwtHelpers } from "../../../helpers/jwtHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import { totpHelpers } from "../../../helpers/totpHelpers";
+import { findUserById } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { TDisableTwoFactor, TTwoFactorLogin } from "./auth.types";
+
+type TSecondFactor = {
+  code?: string;
+  backupCode?: string;
+};
+
+const normalizeBackupCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+// Replaces any existing backup codes; the plain codes are returned once
+const generateBackupCodes = async (userId: string) => {
+  const backupCodes = Array.from(
+    { length: config.two_factor.backup_code_count },
+    () => {
+      const raw = tokenHelpers.generateRandomToken(5);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    }
+  );
+
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorBackupCode.createMany({
+      data: backupCodes.map((code) => ({
+        userId,
+        codeHash: tokenHelpers.hashToken(normalizeBackupCode(code)),
+      })),
+    }),
+  ]);
+
+  return backupCodes;
+};
+
+// Accepts either a TOTP code or an unused backup code. TOTP codes cannot
+// be replayed within their validity window. Both are claimed with a
+// conditional update, so parallel logins cannot use the same code twice.
+const verifySecondFactor = async (
+  user: {
+    id: string;
+    twoFactorSecret: string | null;
+    twoFactorLastUsedStep: number | null;
+  },
+  payload: TSecondFactor
+) => {
+  if (payload.code && user.twoFactorSecret) {
+    const step = totpHelpers.verifyCode(user.twoFactorSecret, payload.code);
+
+    if (step !== null && step > (user.twoFactorLastUsedStep ?? -1)) {
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+
+      if (count === 1) return;
+    }
+  }
+
+  if (payload.backupCode) {
+    const backupCode = await prisma.twoFactorBackupCode.findFirst({
+      where: {
+        userId: user.id,
+        usedAt: null,
+        codeHash: tokenHelpers.hashToken(
+          normalizeBackupCode(payload.backupCode)
+        ),
+      },
+    });
+
+    if (backupCode) {
+      const { count } = await prisma.twoFactorBackupCode.updateMany({
+        where: { id: backupCode.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 1) return;
+    }
+  }
+
+  throw new ApiError(401, "Invalid two-factor code.");
+};
+
+const setupTwoFactor = async (userId: string) => {
+  const user = await findUserById(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new ApiError(400, "Two-factor authentication is already enabled.");
+  }
+
+  const secret = totpHelpers.generateSecret();
+
+  // Stored but inactive until the user proves their app produces codes
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: secret, twoFactorLastUsedStep: null },
+  });
+
+  return {
+    secret,
+    provisioningUri: totpHelpers.buildProvisioningUri(
+      secret,
+      user.email,
+      config.two_factor.issuer
+    ),
+  };
+};
+
+const confirmTwoFactor = async (userId: string, code: string) => {
+  const user = await findUserById(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new ApiError(400, "Two-factor authentication is already enabled.");
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new ApiError(400, "Start two-factor setup first.");
+  }
+
+  await verifySecondFactor(user, { code });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true },
+  });
+
+  const backupCodes = await generateBackupCodes(userId);
+
+  return { backupCodes };
+};
+
+const disableTwoFactor = async (userId: string, payload: TDisableTwoFactor) => {
+  const user = await findUserById(userId);
+
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(400, "Two-factor authentication is not enabled.");
+  }
+
+  const isPasswordValid = await bcrypt.compare(payload.password, user.password);
+
+  if (!isPasswordValid) throw new ApiError(401, "Password is incorrect.");
+
+  await verifySecondFactor(user, payload);
+
+  await resetTwoFactor(userId);
+
+  return { message: "Two-factor authentication disabled" };
+};
+
+const regenerateBackupCodes = async (userId: string, code: string) => {
+  const user = await findUserById(userId);
+
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(400, "Two-factor authentication is not enabled.");
+  }
+
+  await verifySecondFactor(user, { code });
+
+  const backupCodes = await generateBackupCodes(userId);
+
+  return { backupCodes };
+};
+
+// Used on disable and by admins to recover a locked-out account
+const resetTwoFactor = async (userId: string) => {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+      },
+    }),
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+  ]);
+};
+
+// The challenge token only proves the password step succeeded; it is signed
+// with its own secret so it can never be used as an access token.
+const createLoginChallenge = (userId: string) => {
+  return jwtHelpers.generateToken(
+    { id: userId, purpose: "two_factor_login" },
+    config.jwt.two_factor_challenge_secret as Secret,
+    config.jwt.two_factor_challenge_expires_in
+  );
+};
+
+// Returns the id of the user the challenge was issued to
+const decodeLoginChallenge = (challengeToken: string): string => {
+  const decoded = jwtHelpers.verifyToken(
+    challengeToken,
+    config.jwt.two_factor_challenge_secret as Secret
+  );
+
+  if (decoded.purpose !== "two_factor_login") {
+    throw new ApiError(401, "Invalid challenge token.");
+  }
+
+  return decoded.id;
+};
+
+const verifyLoginChallenge = async (payload: TTwoFactorLogin) => {
+  const user = await findUserById(decodeLoginChallenge(payload.challengeToken));
+
+  if (!user.twoFactorEnabled) {
+    throw new ApiError(400, "Two-factor authentication is not enabled.");
+  }
+
+  await verifySecondFactor(user, payload);
+
+  return user;
+};
+
+export const TwoFactorServices = {
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  resetTwoFactor,
+  createLoginChallenge,
+  decodeLoginChallenge,
+  verifyLoginChallenge,
+};
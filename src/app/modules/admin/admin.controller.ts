@@ -0,0 +1,270 @@
+import { Request, Response } from "express";
+import catchAsync from "../../shared/catchAsync";
+import sendResponse from "../../shared/sendResponse";
+import { RecurringTransactionServices } from "../budget/recurring-transaction.service";
+import { ReminderSchedulerServices } from "../notification/reminder-scheduler.service";
+import { AdminServices } from "./admin.service";
+import { IAdminUserFilters, IModerationFilters } from "./admin.types";
+
+const getUsers = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+
+    const result = await AdminServices.getUsers(
+      req.query as IAdminUserFilters,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Users retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const getUserById = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.getUserById(req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "User retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const suspendUser = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.suspendUser(
+      req.user,
+      req.params.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "User suspended successfully",
+      data: result,
+    });
+  }
+);
+
+const unsuspendUser = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.unsuspendUser(req.user, req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "User reactivated successfully",
+      data: result,
+    });
+  }
+);
+
+const updateUserRole = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.updateUserRole(
+      req.user.id,
+      req.params.id,
+      req.body.role
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "User role updated successfully",
+      data: result,
+    });
+  }
+);
+
+const resetUserTwoFactor = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.resetUserTwoFactor(
+      req.user,
+      req.params.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Two-factor authentication reset successfully",
+      data: result,
+    });
+  }
+);
+
+const getSystemStats = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.getSystemStats();
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "System statistics retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const getPublicNotes = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+
+    const result = await AdminServices.getPublicNotes(
+      req.query as IModerationFilters,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Public notes retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const unpublishNote = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.unpublishNote(req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Note unpublished successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteNote = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.deleteNote(req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Note deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getPublicGroups = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+
+    const result = await AdminServices.getPublicGroups(
+      req.query as IModerationFilters,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Public study groups retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const unpublishGroup = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.unpublishGroup(req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Study group unpublished successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteGroup = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.deleteGroup(req.params.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Study group deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const purgeDeletedAccounts = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await AdminServices.purgeDeletedAccounts();
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Expired account deletions purged successfully",
+      data: result,
+    });
+  }
+);
+
+const sendDueReminders = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ReminderSchedulerServices.runDueReminders();
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Due reminders sent successfully",
+      data: result,
+    });
+  }
+);
+
+const materializeRecurringTransactions = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result =
+      await RecurringTransactionServices.materializeDueTransactions();
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Due recurring transactions recorded successfully",
+      data: result,
+    });
+  }
+);
+
+export const AdminControllers = {
+  getUsers,
+  getUserById,
+  suspendUser,
+  unsuspendUser,
+  updateUserRole,
+  resetUserTwoFactor,
+  getSystemStats,
+  getPublicNotes,
+  unpublishNote,
+  deleteNote,
+  getPublicGroups,
+  unpublishGroup,
+  deleteGroup,
+  purgeDeletedAccounts,
+  sendDueReminders,
+  materializeRecurringTransactions,
+};
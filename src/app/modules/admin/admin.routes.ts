@@ -0,0 +1,131 @@
+import express from "express";
+import auth from "../../middleware/auth";
+import validateRequest from "../../middleware/validateRequest";
+import { UserRole } from "../Auth/auth.types";
+import { AdminControllers } from "./admin.controller";
+import {
+  getModerationItemsSchema,
+  getUserSchema,
+  getUsersSchema,
+  moderationItemSchema,
+  suspendUserSchema,
+  updateUserRoleSchema,
+} from "./admin.validation";
+
+const router = express.Router();
+
+const staff = [UserRole.ADMIN, UserRole.MODERATOR];
+
+// System-wide statistics
+router.get("/stats", auth(...staff), AdminControllers.getSystemStats);
+
+// User Management Routes
+router.get(
+  "/users",
+  auth(...staff),
+  validateRequest(getUsersSchema),
+  AdminControllers.getUsers
+);
+
+router.get(
+  "/users/:id",
+  auth(...staff),
+  validateRequest(getUserSchema),
+  AdminControllers.getUserById
+);
+
+router.patch(
+  "/users/:id/suspend",
+  auth(...staff),
+  validateRequest(suspendUserSchema),
+  AdminControllers.suspendUser
+);
+
+router.patch(
+  "/users/:id/unsuspend",
+  auth(...staff),
+  validateRequest(getUserSchema),
+  AdminControllers.unsuspendUser
+);
+
+router.patch(
+  "/users/:id/role",
+  auth(UserRole.ADMIN),
+  validateRequest(updateUserRoleSchema),
+  AdminControllers.updateUserRole
+);
+
+router.post(
+  "/users/:id/reset-2fa",
+  auth(UserRole.ADMIN),
+  validateRequest(getUserSchema),
+  AdminControllers.resetUserTwoFactor
+);
+
+// Moderation Routes
+router.get(
+  "/moderation/notes",
+  auth(...staff),
+  validateRequest(getModerationItemsSchema),
+  AdminControllers.getPublicNotes
+);
+
+router.patch(
+  "/moderation/notes/:id/unpublish",
+  auth(...staff),
+  validateRequest(moderationItemSchema),
+  AdminControllers.unpublishNote
+);
+
+router.delete(
+  "/moderation/notes/:id",
+  auth(...staff),
+  validateRequest(moderationItemSchema),
+  AdminControllers.deleteNote
+);
+
+router.get(
+  "/moderation/groups",
+  auth(...staff),
+  validateRequest(getModerationItemsSchema),
+  AdminControllers.getPublicGroups
+);
+
+router.patch(
+  "/moderation/groups/:id/unpublish",
+  auth(...staff),
+  validateRequest(moderationItemSchema),
+  AdminControllers.unpublishGroup
+);
+
+router.delete(
+  "/moderation/groups/:id",
+  auth(...staff),
+  validateRequest(moderationItemSchema),
+  AdminControllers.deleteGroup
+);
+
+// Maintenance Routes
+router.post(
+  "/maintenance/purge-deleted-accounts",
+  auth(UserRole.ADMIN),
+  AdminControllers.purgeDeletedAccounts
+);
+
+// Cron target for serverless deployments, where the in-process reminder
+// scheduler does not run
+router.post(
+  "/maintenance/send-due-reminders",
+  auth(UserRole.ADMIN),
+  AdminControllers.sendDueReminders
+);
+
+// Records due recurring transactions for every user; they are otherwise
+// recorded when the user next reads their budget
+router.post(
+  "/maintenance/materialize-recurring-transactions",
+  auth(UserRole.ADMIN),
+  AdminControllers.materializeRecurringTransactions
+);
+
+export const AdminRoutes = router;
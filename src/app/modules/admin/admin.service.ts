@@ -0,0 +1,411 @@
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { UserRole } from "../Auth/auth.types";
+import { ProfileServices } from "../Auth/profile.service";
+import { RefreshTokenServices } from "../Auth/refresh-token.service";
+import { TwoFactorServices } from "../Auth/two-factor.service";
+import {
+  ADMIN_USER_SELECT,
+  IAdminUserFilters,
+  IModerationFilters,
+  ISuspendUser,
+  ISystemStats,
+} from "./admin.types";
+
+// User Management
+const getUsers = async (filters: IAdminUserFilters, page = 1, limit = 10) => {
+  const where: any = {};
+
+  if (filters.searchTerm) {
+    where.OR = [
+      { name: { contains: filters.searchTerm, mode: "insensitive" } },
+      { email: { contains: filters.searchTerm, mode: "insensitive" } },
+    ];
+  }
+
+  if (filters.role) {
+    where.role = filters.role;
+  }
+
+  if (filters.status === "suspended") {
+    where.suspendedAt = { not: null };
+  } else if (filters.status === "active") {
+    where.suspendedAt = null;
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: "desc" },
+      skip,
+      take: limit,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return {
+    data: users,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+const getUserById = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      ...ADMIN_USER_SELECT,
+      _count: {
+        select: {
+          subjects: true,
+          notes: true,
+          studyGroups: true,
+          groupMembers: true,
+          readingMaterials: true,
+        },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+
+  return user;
+};
+
+// Moderators may only act on students; admins may act on anyone but themselves
+const assertCanManage = (
+  actor: { id: string; role: UserRole },
+  target: { id: string; role: string }
+) => {
+  if (actor.id === target.id) {
+    throw new ApiError(400, "You cannot perform this action on yourself");
+  }
+
+  if (actor.role !== UserRole.ADMIN && target.role !== UserRole.STUDENT) {
+    throw new ApiError(403, "Only admins can manage staff accounts");
+  }
+};
+
+const suspendUser = async (
+  actor: { id: string; role: UserRole },
+  userId: string,
+  payload: ISuspendUser
+) => {
+  const target = await getUserById(userId);
+  assertCanManage(actor, target);
+
+  if (target.suspendedAt) {
+    throw new ApiError(400, "User is already suspended");
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      suspendedAt: new Date(),
+      suspensionReason: payload.reason,
+    },
+    select: ADMIN_USER_SELECT,
+  });
+
+  // Sign the user out everywhere, access tokens included
+  await RefreshTokenServices.revokeAllForUser(userId);
+
+  return updatedUser;
+};
+
+const unsuspendUser = async (
+  actor: { id: string; role: UserRole },
+  userId: string
+) => {
+  const target = await getUserById(userId);
+  assertCanManage(actor, target);
+
+  if (!target.suspendedAt) {
+    throw new ApiError(400, "User is not suspended");
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      suspendedAt: null,
+      suspensionReason: null,
+    },
+    select: ADMIN_USER_SELECT,
+  });
+
+  return updatedUser;
+};
+
+const updateUserRole = async (
+  actorId: string,
+  userId: string,
+  role: UserRole
+) => {
+  if (actorId === userId) {
+    throw new ApiError(400, "You cannot change your own role");
+  }
+
+  await getUserById(userId);
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: { role },
+    select: ADMIN_USER_SELECT,
+  });
+
+  // Force a fresh login; auth() already reads the new role from the account
+  await RefreshTokenServices.revokeAllForUser(userId);
+
+  return updatedUser;
+};
+
+// Recovery path for users who lost both their authenticator and backup codes
+const resetUserTwoFactor = async (
+  actor: { id: string; role: UserRole },
+  userId: string
+) => {
+  const target = await getUserById(userId);
+  assertCanManage(actor, target);
+
+  if (!target.twoFactorEnabled) {
+    throw new ApiError(
+      400,
+      "User does not have two-factor authentication enabled"
+    );
+  }
+
+  await TwoFactorServices.resetTwoFactor(userId);
+  await RefreshTokenServices.revokeAllForUser(userId);
+
+  return getUserById(userId);
+};
+
+// System Statistics
+const getSystemStats = async () => {
+  const [
+    totalUsers,
+    verifiedUsers,
+    suspendedUsers,
+    usersByRole,
+    subjects,
+    totalGroups,
+    publicGroups,
+    totalNotes,
+    publicNotes,
+    readingMaterials,
+    studySessions,
+    focusSessions,
+  ] = await Promise.all([
+    prisma.user.count(),
+    prisma.user.count({ where: { emailVerified: true } }),
+    prisma.user.count({ where: { suspendedAt: { not: null } } }),
+    prisma.user.groupBy({ by: ["role"], _count: true }),
+    prisma.subject.count(),
+    prisma.studyGroup.count(),
+    prisma.studyGroup.count({ where: { isPublic: true } }),
+    prisma.note.count(),
+    prisma.note.count({ where: { isPublic: true } }),
+    prisma.readingMaterial.count(),
+    prisma.studySession.count(),
+    prisma.focusSession.count(),
+  ]);
+
+  const stats: ISystemStats = {
+    users: {
+      total: totalUsers,
+      verified: verifiedUsers,
+      suspended: suspendedUsers,
+      byRole: usersByRole.reduce((acc, item) => {
+        acc[item.role] = item._count;
+        return acc;
+      }, {} as Record<string, number>),
+    },
+    subjects,
+    studyGroups: {
+      total: totalGroups,
+      public: publicGroups,
+    },
+    notes: {
+      total: totalNotes,
+      public: publicNotes,
+    },
+    readingMaterials,
+    studySessions,
+    focusSessions,
+  };
+
+  return stats;
+};
+
+// Content Moderation
+const getPublicNotes = async (
+  filters: IModerationFilters,
+  page = 1,
+  limit = 10
+) => {
+  const where: any = { isPublic: true };
+
+  if (filters.searchTerm) {
+    where.OR = [
+      { title: { contains: filters.searchTerm, mode: "insensitive" } },
+      { content: { contains: filters.searchTerm, mode: "insensitive" } },
+    ];
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [notes, total] = await Promise.all([
+    prisma.note.findMany({
+      where,
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip,
+      take: limit,
+    }),
+    prisma.note.count({ where }),
+  ]);
+
+  return {
+    data: notes,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+const unpublishNote = async (noteId: string) => {
+  const note = await prisma.note.findUnique({ where: { id: noteId } });
+
+  if (!note) {
+    throw new ApiError(404, "Note not found");
+  }
+
+  const updatedNote = await prisma.note.update({
+    where: { id: noteId },
+    data: { isPublic: false },
+  });
+
+  return updatedNote;
+};
+
+const deleteNote = async (noteId: string) => {
+  const note = await prisma.note.findUnique({ where: { id: noteId } });
+
+  if (!note) {
+    throw new ApiError(404, "Note not found");
+  }
+
+  await prisma.note.delete({ where: { id: noteId } });
+
+  return { message: "Note deleted successfully" };
+};
+
+const getPublicGroups = async (
+  filters: IModerationFilters,
+  page = 1,
+  limit = 10
+) => {
+  const where: any = { isPublic: true };
+
+  if (filters.searchTerm) {
+    where.OR = [
+      { name: { contains: filters.searchTerm, mode: "insensitive" } },
+      { description: { contains: filters.searchTerm, mode: "insensitive" } },
+    ];
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [groups, total] = await Promise.all([
+    prisma.studyGroup.findMany({
+      where,
+      include: {
+        creator: {
+          select: { id: true, name: true, email: true },
+        },
+        _count: {
+          select: { members: true, notes: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip,
+      take: limit,
+    }),
+    prisma.studyGroup.count({ where }),
+  ]);
+
+  return {
+    data: groups,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+const unpublishGroup = async (groupId: string) => {
+  const group = await prisma.studyGroup.findUnique({ where: { id: groupId } });
+
+  if (!group) {
+    throw new ApiError(404, "Study group not found");
+  }
+
+  const updatedGroup = await prisma.studyGroup.update({
+    where: { id: groupId },
+    data: { isPublic: false },
+  });
+
+  return updatedGroup;
+};
+
+const deleteGroup = async (groupId: string) => {
+  const group = await prisma.studyGroup.findUnique({ where: { id: groupId } });
+
+  if (!group) {
+    throw new ApiError(404, "Study group not found");
+  }
+
+  await prisma.studyGroup.delete({ where: { id: groupId } });
+
+  return { message: "Study group deleted successfully" };
+};
+
+// Maintenance
+const purgeDeletedAccounts = async () => {
+  return ProfileServices.purgeDeletedAccounts();
+};
+
+export const AdminServices = {
+  getUsers,
+  getUserById,
+  suspendUser,
+  unsuspendUser,
+  updateUserRole,
+  resetUserTwoFactor,
+  getSystemStats,
+  getPublicNotes,
+  unpublishNote,
+  deleteNote,
+  getPublicGroups,
+  unpublishGroup,
+  deleteGroup,
+  purgeDeletedAccounts,
+};
@@ -0,0 +1,50 @@
+import { UserRole } from "../Auth/auth.types";
+
+export interface IAdminUserFilters {
+  searchTerm?: string;
+  role?: UserRole;
+  status?: "active" | "suspended";
+}
+
+export interface ISuspendUser {
+  reason?: string;
+}
+
+export interface IModerationFilters {
+  searchTerm?: string;
+}
+
+export interface ISystemStats {
+  users: {
+    total: number;
+    verified: number;
+    suspended: number;
+    byRole: Record<string, number>;
+  };
+  subjects: number;
+  studyGroups: {
+    total: number;
+    public: number;
+  };
+  notes: {
+    total: number;
+    public: number;
+  };
+  readingMaterials: number;
+  studySessions: number;
+  focusSessions: number;
+}
+
+export const ADMIN_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  avatar: true,
+  role: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { UserRole } from "../Auth/auth.types";
+
+export const getUsersSchema = z.object({
+  query: z.object({
+    searchTerm: z.string().optional(),
+    role: z.nativeEnum(UserRole).optional(),
+    status: z.enum(["active", "suspended"]).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const getUserSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "User ID is required",
+    }),
+  }),
+});
+
+export const suspendUserSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "User ID is required",
+    }),
+  }),
+  body: z.object({
+    reason: z.string().max(500, "Reason too long").optional(),
+  }),
+});
+
+export const updateUserRoleSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "User ID is required",
+    }),
+  }),
+  body: z.object({
+    role: z.nativeEnum(UserRole, {
+      required_error: "Role is required",
+      invalid_type_error: "Invalid role",
+    }),
+  }),
+});
+
+export const getModerationItemsSchema = z.object({
+  query: z.object({
+    searchTerm: z.string().optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const moderationItemSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "ID is required",
+    }),
+  }),
+});
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import auth from "../../middleware/auth";
+import { analyticsRateLimiter } from "../../middleware/rateLimiter";
 import validateRequest from "../../middleware/validateRequest";
 import { AnalyticsController } from "./analytics.controller";
 import {
@@ -17,6 +18,7 @@ const router = Router();
 router.get(
   "/dashboard",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getAnalyticsDashboardSchema),
   AnalyticsController.getDashboard
 );
@@ -25,6 +27,7 @@ router.get(
 router.get(
   "/learning-curve",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getLearningCurveSchema),
   AnalyticsController.getLearningCurve
 );
@@ -33,6 +36,7 @@ router.get(
 router.get(
   "/weaknesses",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getWeaknessAnalysisSchema),
   AnalyticsController.getWeaknessAnalysis
 );
@@ -41,6 +45,7 @@ router.get(
 router.get(
   "/study-patterns",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getStudyPatternsSchema),
   AnalyticsController.getStudyPatterns
 );
@@ -49,6 +54,7 @@ router.get(
 router.get(
   "/predictive-analysis",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getPredictiveAnalysisSchema),
   AnalyticsController.getPredictiveAnalysis
 );
@@ -57,6 +63,7 @@ router.get(
 router.get(
   "/subject/:subjectId",
   auth(),
+  analyticsRateLimiter,
   validateRequest(getSubjectAnalyticsSchema),
   AnalyticsController.getSubjectAnalytics
 );
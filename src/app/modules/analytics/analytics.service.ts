@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { PrismaClient } from "@prisma/client";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
 import {
   AnalyticsPeriod,
   IAnalyticsDashboard,
@@ -575,7 +577,8 @@ Focus on practical, actionable advice for a student interested in ${this.getSubj
     // Analyze optimal study times
     const optimalStudyTimes = this.analyzeOptimalTimes(
       studySessions,
-      focusSessions
+      focusSessions,
+      await getUserTimezone(userId)
     );
 
     // Analyze efficiency by subject
@@ -609,9 +612,11 @@ Focus on practical, actionable advice for a student interested in ${this.getSubj
     };
   }
 
+  // Hours and weekdays are the user's wall-clock time, not the server's
   private static analyzeOptimalTimes(
     studySessions: any[],
-    focusSessions: any[]
+    focusSessions: any[],
+    timeZone: string
   ): IOptimalTime[] {
     const timeEfficiency = new Map<
       string,
@@ -621,10 +626,10 @@ Focus on practical, actionable advice for a student interested in ${this.getSubj
     // Analyze study sessions
     studySessions.forEach((session) => {
       if (session.productivity && session.duration) {
-        const hour = session.startTime.getHours();
-        const dayOfWeek = session.startTime.toLocaleDateString("en-US", {
-          weekday: "long",
-        });
+        const { hour, weekday: dayOfWeek } = timezoneHelpers.getZonedParts(
+          session.startTime,
+          timeZone
+        );
         const key = `${dayOfWeek}-${hour}`;
 
         const current = timeEfficiency.get(key) || {
@@ -644,10 +649,9 @@ Focus on practical, actionable advice for a student interested in ${this.getSubj
     // Analyze focus sessions
     focusSessions.forEach((session) => {
       if (session.effectiveness && session.actualDuration) {
-        const hour = session.startTime?.getHours() || 0;
-        const dayOfWeek =
-          session.startTime?.toLocaleDateString("en-US", { weekday: "long" }) ||
-          "Unknown";
+        const { hour, weekday: dayOfWeek } = session.startTime
+          ? timezoneHelpers.getZonedParts(session.startTime, timeZone)
+          : { hour: 0, weekday: "Unknown" };
         const key = `${dayOfWeek}-${hour}`;
 
         const current = timeEfficiency.get(key) || {
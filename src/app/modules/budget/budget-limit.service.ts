@@ -0,0 +1,331 @@
+import { BudgetLimit, Prisma } from "@prisma/client";
+import { getUserTimezone } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { NotificationServices } from "../notification/notification.service";
+import {
+  NotificationChannel,
+  NotificationType,
+} from "../notification/notification.types";
+import {
+  BudgetPeriod,
+  BudgetType,
+  DEFAULT_ALERT_THRESHOLDS,
+  IBudgetLimitCreate,
+  IBudgetLimitProgress,
+  IBudgetLimitUpdate,
+} from "./budget.types";
+import { getPeriodRange } from "./budget.utils";
+import {
+  ExchangeRateServices,
+  TCurrencyConverter,
+} from "./exchange-rate.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const describeLimit = (limit: Pick<BudgetLimit, "category" | "period">) =>
+  `${limit.period.toLowerCase()} ${limit.category || "overall"} budget`;
+
+// Categories are free text on budget entries, so they match case-insensitively
+const categoryFilter = (category: string | null) =>
+  category === null
+    ? null
+    : { equals: category, mode: Prisma.QueryMode.insensitive };
+
+const normalizeThresholds = (thresholds?: number[]) =>
+  Array.from(new Set(thresholds || DEFAULT_ALERT_THRESHOLDS)).sort(
+    (a, b) => a - b
+  );
+
+const checkDuplicate = async (
+  userId: string,
+  category: string | null,
+  period: string
+) => {
+  const existing = await prisma.budgetLimit.findFirst({
+    where: {
+      userId,
+      period: period as BudgetPeriod,
+      category: categoryFilter(category),
+    },
+  });
+
+  if (existing) {
+    throw new ApiError(
+      409,
+      `A ${describeLimit(existing)} limit already exists`
+    );
+  }
+};
+
+// Spending against a limit in the period containing the reference instant.
+// The projection extends the average daily spend so far (today included) to
+// the whole period. Limits are in the base currency, so expenses in other
+// currencies are converted first. Contributions to savings goals are money
+// put aside, not spent, so they do not count.
+const buildProgress = async (
+  userId: string,
+  limit: BudgetLimit,
+  converter: TCurrencyConverter,
+  timeZone: string,
+  reference: Date
+): Promise<IBudgetLimitProgress> => {
+  const range = getPeriodRange(limit.period, timeZone, reference);
+  const where: Prisma.BudgetWhereInput = {
+    userId,
+    type: BudgetType.EXPENSE,
+    date: { gte: range.start, lt: range.end },
+    savingsContribution: { is: null },
+    ...(limit.category !== null && {
+      category: categoryFilter(limit.category) as Prisma.StringFilter,
+    }),
+  };
+
+  const [result, foreignEntries] = await Promise.all([
+    prisma.budget.aggregate({
+      where: { ...where, currency: converter.baseCurrency },
+      _sum: { amount: true },
+    }),
+    prisma.budget.findMany({
+      where: { ...where, currency: { not: converter.baseCurrency } },
+      select: { amount: true, currency: true, date: true },
+    }),
+  ]);
+
+  const spent = round(
+    (result._sum.amount || 0) + converter.sum(foreignEntries)
+  );
+  const totalDays = Math.round(
+    (range.end.getTime() - range.start.getTime()) / DAY_MS
+  );
+  const elapsedDays = Math.min(
+    totalDays,
+    Math.max(
+      1,
+      Math.ceil((reference.getTime() - range.start.getTime()) / DAY_MS)
+    )
+  );
+  const projectedSpend = round((spent / elapsedDays) * totalDays);
+  const percentage =
+    limit.amount > 0 ? Math.round((spent / limit.amount) * 1000) / 10 : 0;
+  const thresholdsCrossed = limit.alertThresholds.filter(
+    (threshold) => percentage >= threshold
+  );
+
+  return {
+    limitId: limit.id,
+    category: limit.category,
+    period: limit.period,
+    periodStart: range.startDate,
+    periodEnd: range.endDate,
+    amount: limit.amount,
+    currency: converter.baseCurrency,
+    spent,
+    remaining: round(limit.amount - spent),
+    percentage,
+    daysLeft: totalDays - elapsedDays,
+    projectedSpend,
+    projectedOverspend: projectedSpend > limit.amount,
+    thresholdsCrossed,
+    status:
+      percentage >= 100
+        ? "exceeded"
+        : thresholdsCrossed.length
+        ? "warning"
+        : "ok",
+  };
+};
+
+// Progress of every limit for the period containing the reference date
+// (now by default)
+const getLimitProgress = async (userId: string, reference = new Date()) => {
+  const [limits, converter, timeZone] = await Promise.all([
+    prisma.budgetLimit.findMany({
+      where: { userId },
+      orderBy: [{ period: "asc" }, { category: "asc" }],
+    }),
+    ExchangeRateServices.getConverter(userId),
+    getUserTimezone(userId),
+  ]);
+
+  return Promise.all(
+    limits.map((limit) =>
+      buildProgress(userId, limit, converter, timeZone, reference)
+    )
+  );
+};
+
+// Sends one alert per limit and period for the highest threshold crossed so
+// far; a jump from 50% to 110% only reports the 100% threshold
+const checkLimitAlerts = async (userId: string) => {
+  const [limits, converter, timeZone] = await Promise.all([
+    prisma.budgetLimit.findMany({ where: { userId } }),
+    ExchangeRateServices.getConverter(userId),
+    getUserTimezone(userId),
+  ]);
+  const now = new Date();
+
+  for (const limit of limits) {
+    const item = await buildProgress(userId, limit, converter, timeZone, now);
+    const threshold = item.thresholdsCrossed[item.thresholdsCrossed.length - 1];
+
+    if (threshold === undefined) continue;
+
+    const label = describeLimit(limit);
+
+    await NotificationServices.notify(
+      userId,
+      {
+        type: NotificationType.BUDGET_ALERT,
+        title:
+          threshold >= 100
+            ? `You have gone over your ${label}`
+            : `You have used ${threshold}% of your ${label}`,
+        body:
+          `You have spent ${item.spent.toFixed(2)} of ${item.amount.toFixed(
+            2
+          )} (${item.percentage}%) between ${item.periodStart} and ${
+            item.periodEnd
+          }.` +
+          (item.remaining > 0
+            ? ` ${item.remaining.toFixed(2)} is left for the next ${
+                item.daysLeft
+              } days.`
+            : ""),
+        data: {
+          limitId: item.limitId,
+          category: item.category,
+          threshold,
+          spent: item.spent,
+          amount: item.amount,
+          periodStart: item.periodStart,
+        },
+        dedupeKey: `budget-limit:${item.limitId}:${item.periodStart}:${threshold}`,
+      },
+      limit.channels as NotificationChannel[]
+    );
+  }
+};
+
+const getLimitById = async (userId: string, limitId: string) => {
+  const limit = await prisma.budgetLimit.findFirst({
+    where: { id: limitId, userId },
+  });
+
+  if (!limit) {
+    throw new ApiError(404, "Budget limit not found");
+  }
+
+  return limit;
+};
+
+const createLimit = async (userId: string, payload: IBudgetLimitCreate) => {
+  const category = payload.category?.trim() || null;
+  const period = payload.period || BudgetPeriod.MONTHLY;
+
+  await checkDuplicate(userId, category, period);
+
+  const limit = await prisma.budgetLimit.create({
+    data: {
+      category,
+      amount: payload.amount,
+      period,
+      alertThresholds: normalizeThresholds(payload.alertThresholds),
+      channels: Array.from(new Set(payload.channels || [])),
+      userId,
+    },
+  });
+
+  await checkLimitAlerts(userId);
+
+  return buildProgress(
+    userId,
+    limit,
+    await ExchangeRateServices.getConverter(userId),
+    await getUserTimezone(userId),
+    new Date()
+  );
+};
+
+const updateLimit = async (
+  userId: string,
+  limitId: string,
+  payload: IBudgetLimitUpdate
+) => {
+  await getLimitById(userId, limitId);
+
+  const limit = await prisma.budgetLimit.update({
+    where: { id: limitId },
+    data: {
+      ...(payload.amount !== undefined && { amount: payload.amount }),
+      ...(payload.alertThresholds && {
+        alertThresholds: normalizeThresholds(payload.alertThresholds),
+      }),
+      ...(payload.channels && {
+        channels: Array.from(new Set(payload.channels)),
+      }),
+    },
+  });
+
+  await checkLimitAlerts(userId);
+
+  return buildProgress(
+    userId,
+    limit,
+    await ExchangeRateServices.getConverter(userId),
+    await getUserTimezone(userId),
+    new Date()
+  );
+};
+
+// Limit amounts are in the base currency. Before it changes they are
+// converted with today's rate so they keep their value; the returned updates
+// are meant to run in the same transaction as the change itself.
+const getCurrencyConversionUpdates = async (
+  userId: string,
+  currency: string
+) => {
+  const [limits, converter] = await Promise.all([
+    prisma.budgetLimit.findMany({ where: { userId } }),
+    ExchangeRateServices.getConverter(userId),
+  ]);
+
+  if (!limits.length || currency === converter.baseCurrency) return [];
+
+  // Value of one unit of the new currency in the current one
+  const rate = converter.convert(1, currency, new Date());
+
+  if (!rate) {
+    throw new ApiError(
+      400,
+      `Your budget limits are in ${converter.baseCurrency}. Add an exchange rate between ${currency} and ${converter.baseCurrency} so they can be converted.`
+    );
+  }
+
+  return limits.map((limit) =>
+    prisma.budgetLimit.update({
+      where: { id: limit.id },
+      data: { amount: round(limit.amount / rate) },
+    })
+  );
+};
+
+const deleteLimit = async (userId: string, limitId: string) => {
+  await getLimitById(userId, limitId);
+
+  await prisma.budgetLimit.delete({ where: { id: limitId } });
+
+  return { message: "Budget limit deleted successfully" };
+};
+
+export const BudgetLimitServices = {
+  getLimitById,
+  createLimit,
+  updateLimit,
+  deleteLimit,
+  getLimitProgress,
+  checkLimitAlerts,
+  getCurrencyConversionUpdates,
+};
@@ -1,8 +1,18 @@
 import { Request, Response } from "express";
 import catchAsync from "../../shared/catchAsync";
 import sendResponse from "../../shared/sendResponse";
+import { BudgetLimitServices } from "./budget-limit.service";
 import { BudgetServices } from "./budget.service";
-import { IBudgetFilters } from "./budget.types";
+import {
+  IBudgetFilters,
+  IExchangeRateFilters,
+  IRecurringTransactionFilters,
+} from "./budget.types";
+import { CategoryRuleServices } from "./category-rule.service";
+import { ExchangeRateServices } from "./exchange-rate.service";
+import { RecurringTransactionServices } from "./recurring-transaction.service";
+import { SavingsGoalServices } from "./savings-goal.service";
+import { StatementImportServices } from "./statement-import.service";
 
 const createBudget = catchAsync(
   async (req: Request & { user?: any }, res: Response) => {
@@ -144,6 +154,421 @@ const getRecentTransactions = catchAsync(
   }
 );
 
+const getBudgetLimits = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await BudgetLimitServices.getLimitProgress(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Budget limits retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createBudgetLimit = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await BudgetLimitServices.createLimit(req.user.id, req.body);
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Budget limit created successfully",
+      data: result,
+    });
+  }
+);
+
+const updateBudgetLimit = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await BudgetLimitServices.updateLimit(
+      req.user.id,
+      req.params.limitId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Budget limit updated successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteBudgetLimit = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await BudgetLimitServices.deleteLimit(
+      req.user.id,
+      req.params.limitId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Budget limit deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getRecurringTransactions = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const { type, isPaused } = req.query;
+    const filters: IRecurringTransactionFilters = {
+      type: type as IRecurringTransactionFilters["type"],
+      isPaused: isPaused === undefined ? undefined : isPaused === "true",
+    };
+
+    const result = await RecurringTransactionServices.getRecurringTransactions(
+      req.user.id,
+      filters
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Recurring transactions retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createRecurringTransaction = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result =
+      await RecurringTransactionServices.createRecurringTransaction(
+        req.user.id,
+        req.body
+      );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Recurring transaction created successfully",
+      data: result,
+    });
+  }
+);
+
+const updateRecurringTransaction = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result =
+      await RecurringTransactionServices.updateRecurringTransaction(
+        req.user.id,
+        req.params.recurringId,
+        req.body
+      );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Recurring transaction updated successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteRecurringTransaction = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result =
+      await RecurringTransactionServices.deleteRecurringTransaction(
+        req.user.id,
+        req.params.recurringId
+      );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Recurring transaction deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getStatementImportPresets = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Statement import presets retrieved successfully",
+      data: StatementImportServices.getCsvPresets(),
+    });
+  }
+);
+
+const previewStatementImport = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await StatementImportServices.previewImport(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Statement import preview generated successfully",
+      data: result,
+    });
+  }
+);
+
+const importStatement = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await StatementImportServices.importStatement(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: `Imported ${result.created} transactions`,
+      data: result,
+    });
+  }
+);
+
+const getCategoryRules = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await CategoryRuleServices.getRules(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Category rules retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createCategoryRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await CategoryRuleServices.createRule(req.user.id, req.body);
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Category rule created successfully",
+      data: result,
+    });
+  }
+);
+
+const updateCategoryRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await CategoryRuleServices.updateRule(
+      req.user.id,
+      req.params.ruleId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Category rule updated successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteCategoryRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await CategoryRuleServices.deleteRule(
+      req.user.id,
+      req.params.ruleId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Category rule deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getExchangeRates = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const filters: IExchangeRateFilters = req.query;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+
+    const result = await ExchangeRateServices.getRates(
+      req.user.id,
+      filters,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Exchange rates retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const setExchangeRate = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ExchangeRateServices.setRate(req.user.id, req.body);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Exchange rate saved successfully",
+      data: result,
+    });
+  }
+);
+
+const importExchangeRates = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ExchangeRateServices.importRates(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: `Imported ${result.imported} exchange rates`,
+      data: result,
+    });
+  }
+);
+
+const deleteExchangeRate = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ExchangeRateServices.deleteRate(
+      req.user.id,
+      req.params.rateId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Exchange rate deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getSavingsGoals = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.getGoalsOverview(
+      req.user.id,
+      req.query.includeArchived === "true"
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Savings goals retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const getSavingsGoalById = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.getGoalById(
+      req.user.id,
+      req.params.goalId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Savings goal retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createSavingsGoal = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.createGoal(req.user.id, req.body);
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Savings goal created successfully",
+      data: result,
+    });
+  }
+);
+
+const updateSavingsGoal = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.updateGoal(
+      req.user.id,
+      req.params.goalId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Savings goal updated successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteSavingsGoal = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.deleteGoal(
+      req.user.id,
+      req.params.goalId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Savings goal deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const addSavingsContribution = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.addContribution(
+      req.user.id,
+      req.params.goalId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Contribution added successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteSavingsContribution = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await SavingsGoalServices.deleteContribution(
+      req.user.id,
+      req.params.goalId,
+      req.params.contributionId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Contribution deleted successfully",
+      data: result,
+    });
+  }
+);
+
 export const BudgetControllers = {
   createBudget,
   getBudgets,
@@ -153,4 +578,30 @@ export const BudgetControllers = {
   getBudgetSummary,
   getBudgetAnalytics,
   getRecentTransactions,
+  getBudgetLimits,
+  createBudgetLimit,
+  updateBudgetLimit,
+  deleteBudgetLimit,
+  getRecurringTransactions,
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  deleteRecurringTransaction,
+  getStatementImportPresets,
+  previewStatementImport,
+  importStatement,
+  getCategoryRules,
+  createCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  getExchangeRates,
+  setExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+  getSavingsGoals,
+  getSavingsGoalById,
+  createSavingsGoal,
+  updateSavingsGoal,
+  deleteSavingsGoal,
+  addSavingsContribution,
+  deleteSavingsContribution,
 };
@@ -8,7 +8,28 @@ import {
   getBudgetsSchema,
   getBudgetSchema,
   deleteBudgetSchema,
-  getBudgetAnalyticsSchema
+  getBudgetAnalyticsSchema,
+  createBudgetLimitSchema,
+  updateBudgetLimitSchema,
+  budgetLimitParamsSchema,
+  createRecurringTransactionSchema,
+  updateRecurringTransactionSchema,
+  getRecurringTransactionsSchema,
+  recurringTransactionParamsSchema,
+  importStatementSchema,
+  createCategoryRuleSchema,
+  updateCategoryRuleSchema,
+  categoryRuleParamsSchema,
+  getExchangeRatesSchema,
+  setExchangeRateSchema,
+  importExchangeRatesSchema,
+  exchangeRateParamsSchema,
+  createSavingsGoalSchema,
+  updateSavingsGoalSchema,
+  getSavingsGoalsSchema,
+  savingsGoalParamsSchema,
+  createSavingsContributionSchema,
+  savingsContributionParamsSchema
 } from './budget.validation';
 
 const router = express.Router();
@@ -51,6 +72,191 @@ router.get(
   BudgetControllers.getRecentTransactions
 );
 
+// Spending limits per category or overall, with progress for the current period
+router.get(
+  '/limits',
+  auth(),
+  BudgetControllers.getBudgetLimits
+);
+
+router.post(
+  '/limits',
+  auth(),
+  validateRequest(createBudgetLimitSchema),
+  BudgetControllers.createBudgetLimit
+);
+
+router.patch(
+  '/limits/:limitId',
+  auth(),
+  validateRequest(updateBudgetLimitSchema),
+  BudgetControllers.updateBudgetLimit
+);
+
+router.delete(
+  '/limits/:limitId',
+  auth(),
+  validateRequest(budgetLimitParamsSchema),
+  BudgetControllers.deleteBudgetLimit
+);
+
+// Recurring income and expenses, recorded as budget entries when due
+router.get(
+  '/recurring',
+  auth(),
+  validateRequest(getRecurringTransactionsSchema),
+  BudgetControllers.getRecurringTransactions
+);
+
+router.post(
+  '/recurring',
+  auth(),
+  validateRequest(createRecurringTransactionSchema),
+  BudgetControllers.createRecurringTransaction
+);
+
+router.patch(
+  '/recurring/:recurringId',
+  auth(),
+  validateRequest(updateRecurringTransactionSchema),
+  BudgetControllers.updateRecurringTransaction
+);
+
+router.delete(
+  '/recurring/:recurringId',
+  auth(),
+  validateRequest(recurringTransactionParamsSchema),
+  BudgetControllers.deleteRecurringTransaction
+);
+
+// Import bank statements (CSV or OFX/QFX) as budget entries
+router.get(
+  '/import/presets',
+  auth(),
+  BudgetControllers.getStatementImportPresets
+);
+
+router.post(
+  '/import/preview',
+  auth(),
+  validateRequest(importStatementSchema),
+  BudgetControllers.previewStatementImport
+);
+
+router.post(
+  '/import',
+  auth(),
+  validateRequest(importStatementSchema),
+  BudgetControllers.importStatement
+);
+
+// Rules that categorize imported transactions by their description
+router.get(
+  '/category-rules',
+  auth(),
+  BudgetControllers.getCategoryRules
+);
+
+router.post(
+  '/category-rules',
+  auth(),
+  validateRequest(createCategoryRuleSchema),
+  BudgetControllers.createCategoryRule
+);
+
+router.patch(
+  '/category-rules/:ruleId',
+  auth(),
+  validateRequest(updateCategoryRuleSchema),
+  BudgetControllers.updateCategoryRule
+);
+
+router.delete(
+  '/category-rules/:ruleId',
+  auth(),
+  validateRequest(categoryRuleParamsSchema),
+  BudgetControllers.deleteCategoryRule
+);
+
+// Exchange rates used to report totals in the base currency
+router.get(
+  '/exchange-rates',
+  auth(),
+  validateRequest(getExchangeRatesSchema),
+  BudgetControllers.getExchangeRates
+);
+
+router.post(
+  '/exchange-rates',
+  auth(),
+  validateRequest(setExchangeRateSchema),
+  BudgetControllers.setExchangeRate
+);
+
+router.post(
+  '/exchange-rates/import',
+  auth(),
+  validateRequest(importExchangeRatesSchema),
+  BudgetControllers.importExchangeRates
+);
+
+router.delete(
+  '/exchange-rates/:rateId',
+  auth(),
+  validateRequest(exchangeRateParamsSchema),
+  BudgetControllers.deleteExchangeRate
+);
+
+// Savings goals and the contributions towards them
+router.get(
+  '/savings-goals',
+  auth(),
+  validateRequest(getSavingsGoalsSchema),
+  BudgetControllers.getSavingsGoals
+);
+
+router.post(
+  '/savings-goals',
+  auth(),
+  validateRequest(createSavingsGoalSchema),
+  BudgetControllers.createSavingsGoal
+);
+
+router.get(
+  '/savings-goals/:goalId',
+  auth(),
+  validateRequest(savingsGoalParamsSchema),
+  BudgetControllers.getSavingsGoalById
+);
+
+router.patch(
+  '/savings-goals/:goalId',
+  auth(),
+  validateRequest(updateSavingsGoalSchema),
+  BudgetControllers.updateSavingsGoal
+);
+
+router.delete(
+  '/savings-goals/:goalId',
+  auth(),
+  validateRequest(savingsGoalParamsSchema),
+  BudgetControllers.deleteSavingsGoal
+);
+
+router.post(
+  '/savings-goals/:goalId/contributions',
+  auth(),
+  validateRequest(createSavingsContributionSchema),
+  BudgetControllers.addSavingsContribution
+);
+
+router.delete(
+  '/savings-goals/:goalId/contributions/:contributionId',
+  auth(),
+  validateRequest(savingsContributionParamsSchema),
+  BudgetControllers.deleteSavingsContribution
+);
+
 // Get a specific budget entry by ID
 router.get(
   '/:id',
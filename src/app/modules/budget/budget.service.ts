@@ -7,12 +7,22 @@ import {
   IBudgetSummary, 
   IBudgetAnalytics,
   IBudgetCategoryAnalysis,
+  IBudgetMonthlyTrend,
   BudgetType 
 } from './budget.types';
+import { BudgetLimitServices } from './budget-limit.service';
+import { RecurringTransactionServices } from './recurring-transaction.service';
+import { addMonths } from './budget.utils';
+import { addDays, getLocalDateString } from '../class/class.utils';
+import { ExchangeRateServices } from './exchange-rate.service';
+import { SavingsGoalServices } from './savings-goal.service';
+import { getUserBaseCurrency, getUserTimezone } from '../../../helpers/userHelpers';
+import { currencyHelpers } from '../../../helpers/currencyHelpers';
 
 const createBudget = async (userId: string, payload: IBudgetCreate) => {
   const budgetData = {
     ...payload,
+    currency: currencyHelpers.normalizeCurrency(payload.currency || await getUserBaseCurrency(userId)),
     userId,
     date: payload.date ? new Date(payload.date) : new Date()
   };
@@ -21,10 +31,16 @@ const createBudget = async (userId: string, payload: IBudgetCreate) => {
     data: budgetData
   });
 
+  if (newBudget.type === BudgetType.EXPENSE) {
+    await BudgetLimitServices.checkLimitAlerts(userId);
+  }
+
   return newBudget;
 };
 
 const getBudgets = async (userId: string, filters: IBudgetFilters, page = 1, limit = 10) => {
+  await RecurringTransactionServices.materializeDueTransactions(userId);
+
   const where: any = { userId };
 
   if (filters.type) {
@@ -103,12 +119,19 @@ const updateBudget = async (userId: string, budgetId: string, payload: IBudgetUp
   if (payload.date) {
     updateData.date = new Date(payload.date);
   }
+  if (payload.currency) {
+    updateData.currency = currencyHelpers.normalizeCurrency(payload.currency);
+  }
 
   const updatedBudget = await prisma.budget.update({
     where: { id: budgetId },
     data: updateData
   });
 
+  if (updatedBudget.type === BudgetType.EXPENSE) {
+    await BudgetLimitServices.checkLimitAlerts(userId);
+  }
+
   return updatedBudget;
 };
 
@@ -123,6 +146,8 @@ const deleteBudget = async (userId: string, budgetId: string) => {
 };
 
 const getBudgetSummary = async (userId: string, startDate?: Date, endDate?: Date) => {
+  await RecurringTransactionServices.materializeDueTransactions(userId);
+
   const where: any = { userId };
 
   if (startDate || endDate) {
@@ -131,28 +156,42 @@ const getBudgetSummary = async (userId: string, startDate?: Date, endDate?: Date
     if (endDate) where.date.lte = endDate;
   }
 
-  const [incomeData, expenseData] = await Promise.all([
+  // Entries in the base currency are summed by the database; the others are
+  // converted one by one with the rate for their date
+  const converter = await ExchangeRateServices.getConverter(userId);
+  const baseWhere = { ...where, currency: converter.baseCurrency };
+
+  const [incomeData, expenseData, foreignEntries] = await Promise.all([
     prisma.budget.aggregate({
-      where: { ...where, type: BudgetType.INCOME },
+      where: { ...baseWhere, type: BudgetType.INCOME },
       _sum: { amount: true },
       _count: true
     }),
     prisma.budget.aggregate({
-      where: { ...where, type: BudgetType.EXPENSE },
+      where: { ...baseWhere, type: BudgetType.EXPENSE },
       _sum: { amount: true },
       _count: true
+    }),
+    prisma.budget.findMany({
+      where: { ...where, currency: { not: converter.baseCurrency } },
+      select: { type: true, amount: true, currency: true, date: true }
     })
   ]);
 
-  const totalIncome = incomeData._sum.amount || 0;
-  const totalExpenses = expenseData._sum.amount || 0;
+  const foreignIncome = foreignEntries.filter(entry => entry.type === BudgetType.INCOME);
+  const foreignExpenses = foreignEntries.filter(entry => entry.type === BudgetType.EXPENSE);
+
+  const totalIncome = currencyHelpers.roundAmount((incomeData._sum.amount || 0) + converter.sum(foreignIncome));
+  const totalExpenses = currencyHelpers.roundAmount((expenseData._sum.amount || 0) + converter.sum(foreignExpenses));
 
   const summary: IBudgetSummary = {
     totalIncome,
     totalExpenses,
-    netBalance: totalIncome - totalExpenses,
-    incomeCount: incomeData._count,
-    expenseCount: expenseData._count
+    netBalance: currencyHelpers.roundAmount(totalIncome - totalExpenses),
+    incomeCount: incomeData._count + foreignIncome.length,
+    expenseCount: expenseData._count + foreignExpenses.length,
+    currency: converter.baseCurrency,
+    missingRates: converter.getMissingRates()
   };
 
   return summary;
@@ -167,84 +206,168 @@ const getCategoryAnalysis = async (userId: string, type: BudgetType, startDate?:
     if (endDate) where.date.lte = endDate;
   }
 
-  const categoryData = await prisma.budget.groupBy({
-    by: ['category'],
-    where,
-    _sum: { amount: true },
-    _count: true,
-    orderBy: { _sum: { amount: 'desc' } }
+  const converter = await ExchangeRateServices.getConverter(userId);
+
+  const [categoryData, foreignEntries] = await Promise.all([
+    prisma.budget.groupBy({
+      by: ['category'],
+      where: { ...where, currency: converter.baseCurrency },
+      _sum: { amount: true },
+      _count: true
+    }),
+    prisma.budget.findMany({
+      where: { ...where, currency: { not: converter.baseCurrency } },
+      select: { category: true, amount: true, currency: true, date: true }
+    })
+  ]);
+
+  // Totals per category in the base currency
+  const totals = new Map<string, { amount: number; count: number }>();
+
+  categoryData.forEach(item => {
+    totals.set(item.category, { amount: item._sum.amount || 0, count: item._count });
+  });
+
+  foreignEntries.forEach(entry => {
+    const amount = converter.convert(entry.amount, entry.currency, entry.date);
+    if (amount === null) return;
+
+    const current = totals.get(entry.category) || { amount: 0, count: 0 };
+    totals.set(entry.category, { amount: current.amount + amount, count: current.count + 1 });
   });
 
-  const total = categoryData.reduce((sum, item) => sum + (item._sum.amount || 0), 0);
+  const total = Array.from(totals.values()).reduce((sum, item) => sum + item.amount, 0);
 
-  const analysis: IBudgetCategoryAnalysis[] = categoryData.map(item => ({
-    category: item.category,
-    totalAmount: item._sum.amount || 0,
-    count: item._count,
-    percentage: total > 0 ? ((item._sum.amount || 0) / total) * 100 : 0
-  }));
+  const analysis: IBudgetCategoryAnalysis[] = Array.from(totals.entries())
+    .map(([category, item]) => ({
+      category,
+      totalAmount: currencyHelpers.roundAmount(item.amount),
+      count: item.count,
+      percentage: total > 0 ? (item.amount / total) * 100 : 0
+    }))
+    .sort((a, b) => b.totalAmount - a.totalAmount);
 
   return analysis;
 };
 
-const getMonthlyTrend = async (userId: string, months = 6) => {
+// Recorded totals for the past months plus the upcoming occurrences of
+// recurring transactions for the rest of this month and the next ones
+const getMonthlyTrend = async (userId: string, months = 6, projectedMonths = 3) => {
   const endDate = new Date();
   const startDate = new Date();
   startDate.setMonth(startDate.getMonth() - months);
 
-  const budgets = await prisma.budget.findMany({
-    where: {
+  const today = getLocalDateString(await getUserTimezone(userId));
+  const currentMonth = `${today.slice(0, 7)}-01`;
+
+  const [budgets, projectedEntries, converter] = await Promise.all([
+    prisma.budget.findMany({
+      where: {
+        userId,
+        date: {
+          gte: startDate,
+          lte: endDate
+        }
+      },
+      orderBy: { date: 'asc' }
+    }),
+    RecurringTransactionServices.getProjectedEntries(
       userId,
-      date: {
-        gte: startDate,
-        lte: endDate
-      }
-    },
-    orderBy: { date: 'asc' }
-  });
+      today,
+      addDays(addMonths(currentMonth, projectedMonths + 1), -1)
+    ),
+    ExchangeRateServices.getConverter(userId)
+  ]);
 
-  const monthlyData: { [key: string]: { income: number; expenses: number } } = {};
+  const monthlyData: { [key: string]: IBudgetMonthlyTrend } = {};
 
-  budgets.forEach(budget => {
-    const monthKey = budget.date.toISOString().slice(0, 7); // YYYY-MM format
-    
+  const getMonth = (monthKey: string) => {
     if (!monthlyData[monthKey]) {
-      monthlyData[monthKey] = { income: 0, expenses: 0 };
+      monthlyData[monthKey] = {
+        month: monthKey,
+        income: 0,
+        expenses: 0,
+        projectedIncome: 0,
+        projectedExpenses: 0,
+        projectedEntries: []
+      };
     }
 
+    return monthlyData[monthKey];
+  };
+
+  for (let offset = 0; offset <= projectedMonths; offset++) {
+    getMonth(addMonths(currentMonth, offset).slice(0, 7));
+  }
+
+  // Amounts in the base currency; entries without a rate are left out
+  budgets.forEach(budget => {
+    const monthData = getMonth(budget.date.toISOString().slice(0, 7)); // YYYY-MM format
+    const amount = converter.convert(budget.amount, budget.currency, budget.date);
+    if (amount === null) return;
+
     if (budget.type === BudgetType.INCOME) {
-      monthlyData[monthKey].income += budget.amount;
+      monthData.income += amount;
     } else {
-      monthlyData[monthKey].expenses += budget.amount;
+      monthData.expenses += amount;
     }
   });
 
-  return Object.entries(monthlyData).map(([month, data]) => ({
-    month,
-    income: data.income,
-    expenses: data.expenses
-  }));
+  projectedEntries.forEach(entry => {
+    const monthData = getMonth(entry.date.slice(0, 7));
+    const amount = converter.convert(entry.amount, entry.currency, entry.date);
+
+    if (amount !== null) {
+      if (entry.type === BudgetType.INCOME) {
+        monthData.projectedIncome += amount;
+      } else {
+        monthData.projectedExpenses += amount;
+      }
+    }
+    monthData.projectedEntries.push(entry);
+  });
+
+  return Object.values(monthlyData)
+    .map(monthData => ({
+      ...monthData,
+      income: currencyHelpers.roundAmount(monthData.income),
+      expenses: currencyHelpers.roundAmount(monthData.expenses),
+      projectedIncome: currencyHelpers.roundAmount(monthData.projectedIncome),
+      projectedExpenses: currencyHelpers.roundAmount(monthData.projectedExpenses)
+    }))
+    .sort((a, b) => a.month.localeCompare(b.month));
 };
 
 const getBudgetAnalytics = async (userId: string, startDate?: Date, endDate?: Date) => {
-  const [summary, incomeByCategory, expensesByCategory, monthlyTrend] = await Promise.all([
+  // Recorded once up front so the parallel reads below see the same entries
+  await RecurringTransactionServices.materializeDueTransactions(userId);
+
+  const [summary, incomeByCategory, expensesByCategory, monthlyTrend, limits, savingsGoals] = await Promise.all([
     getBudgetSummary(userId, startDate, endDate),
     getCategoryAnalysis(userId, BudgetType.INCOME, startDate, endDate),
     getCategoryAnalysis(userId, BudgetType.EXPENSE, startDate, endDate),
-    getMonthlyTrend(userId)
+    getMonthlyTrend(userId),
+    // Limits for the period containing the end of the range (now by default)
+    BudgetLimitServices.getLimitProgress(userId, endDate),
+    // Forecast from the recent net balance, whatever the range
+    SavingsGoalServices.getGoalsOverview(userId)
   ]);
 
   const analytics: IBudgetAnalytics = {
     summary,
     incomeByCategory,
     expensesByCategory,
-    monthlyTrend
+    monthlyTrend,
+    limits,
+    savingsGoals
   };
 
   return analytics;
 };
 
 const getRecentTransactions = async (userId: string, limit = 5) => {
+  await RecurringTransactionServices.materializeDueTransactions(userId);
+
   const recentBudgets = await prisma.budget.findMany({
     where: { userId },
     orderBy: { createdAt: 'desc' },
@@ -1,7 +1,10 @@
+import { NotificationChannel } from "../notification/notification.types";
+
 export interface IBudget {
   id?: string;
   title: string;
   amount: number;
+  currency: string;
   type: BudgetType;
   category: string;
   description?: string | null;
@@ -14,6 +17,7 @@ export interface IBudget {
 export interface IBudgetCreate {
   title: string;
   amount: number;
+  currency?: string; // defaults to the user's base currency
   type: BudgetType;
   category: string;
   description?: string;
@@ -23,6 +27,7 @@ export interface IBudgetCreate {
 export interface IBudgetUpdate {
   title?: string;
   amount?: number;
+  currency?: string;
   type?: BudgetType;
   category?: string;
   description?: string;
@@ -43,12 +48,16 @@ export interface IBudgetFilters {
   maxAmount?: number;
 }
 
+// Totals are in the user's base currency
 export interface IBudgetSummary {
   totalIncome: number;
   totalExpenses: number;
   netBalance: number;
   incomeCount: number;
   expenseCount: number;
+  currency: string;
+  // Currencies with entries left out of the totals for lack of a rate
+  missingRates: string[];
 }
 
 export interface IBudgetCategoryAnalysis {
@@ -58,11 +67,309 @@ export interface IBudgetCategoryAnalysis {
   percentage: number;
 }
 
+export interface IProjectedTransaction {
+  recurringTransactionId: string;
+  title: string;
+  amount: number;
+  currency: string;
+  type: string;
+  category: string;
+  date: string; // YYYY-MM-DD, in the user's time zone
+}
+
+export interface IBudgetMonthlyTrend {
+  month: string; // YYYY-MM
+  income: number;
+  expenses: number;
+  // Upcoming occurrences of recurring transactions not yet recorded
+  projectedIncome: number;
+  projectedExpenses: number;
+  projectedEntries: IProjectedTransaction[];
+}
+
 export interface IBudgetAnalytics {
   summary: IBudgetSummary;
   incomeByCategory: IBudgetCategoryAnalysis[];
   expensesByCategory: IBudgetCategoryAnalysis[];
-  monthlyTrend: { month: string; income: number; expenses: number }[];
+  monthlyTrend: IBudgetMonthlyTrend[];
+  limits: IBudgetLimitProgress[];
+  savingsGoals: ISavingsGoalsOverview;
+}
+
+export enum BudgetPeriod {
+  WEEKLY = "WEEKLY",
+  MONTHLY = "MONTHLY",
+  YEARLY = "YEARLY",
+}
+
+// Percentages of a limit that trigger an alert
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export interface IBudgetLimitCreate {
+  category?: string | null; // null or missing: all expenses
+  amount: number;
+  period?: BudgetPeriod;
+  alertThresholds?: number[];
+  channels?: NotificationChannel[];
+}
+
+export interface IBudgetLimitUpdate {
+  amount?: number;
+  alertThresholds?: number[];
+  channels?: NotificationChannel[];
+}
+
+export interface IBudgetLimitProgress {
+  limitId: string;
+  category: string | null;
+  period: string;
+  periodStart: string; // YYYY-MM-DD, in the user's time zone
+  periodEnd: string;
+  amount: number;
+  currency: string; // the user's base currency
+  spent: number;
+  remaining: number;
+  percentage: number;
+  daysLeft: number;
+  projectedSpend: number;
+  projectedOverspend: boolean;
+  thresholdsCrossed: number[];
+  status: "ok" | "warning" | "exceeded";
+}
+
+export enum RecurrenceFrequency {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+  MONTHLY = "MONTHLY",
+}
+
+// Catch-up cap per template and run, e.g. for a daily template started long ago
+export const MAX_RECURRING_OCCURRENCES_PER_RUN = 366;
+
+export interface IRecurringTransactionCreate {
+  title: string;
+  amount: number;
+  currency?: string;
+  type: BudgetType;
+  category: string;
+  description?: string;
+  frequency: RecurrenceFrequency;
+  interval?: number; // every `interval` days, weeks or months
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null;
+}
+
+export interface IRecurringTransactionUpdate {
+  title?: string;
+  amount?: number;
+  currency?: string;
+  type?: BudgetType;
+  category?: string;
+  description?: string | null;
+  frequency?: RecurrenceFrequency;
+  interval?: number;
+  startDate?: string;
+  endDate?: string | null;
+  isPaused?: boolean;
+}
+
+export interface IRecurringTransactionFilters {
+  type?: BudgetType;
+  isPaused?: boolean;
+}
+
+export interface IMaterializeResult {
+  templates: number;
+  transactions: number;
+}
+
+export const STATEMENT_IMPORT_FORMATS = ["csv", "ofx", "qfx"] as const;
+
+// Transaction fields a CSV column can be mapped to. Either a signed amount or
+// separate debit/credit columns are needed.
+export const STATEMENT_CSV_FIELDS = [
+  "date",
+  "description",
+  "amount",
+  "debit",
+  "credit",
+  "category",
+  "reference",
+  "currency",
+] as const;
+
+// How to read dates like 03/04/2025; YYYY-MM-DD is always recognized
+export const STATEMENT_DATE_FORMATS = ["DMY", "MDY"] as const;
+
+export type TStatementCsvMapping = Partial<
+  Record<(typeof STATEMENT_CSV_FIELDS)[number], string>
+>;
+
+export interface IStatementCsvPreset {
+  label: string;
+  mapping: TStatementCsvMapping;
+  dateFormat?: (typeof STATEMENT_DATE_FORMATS)[number];
+  // Card exports that list purchases as positive amounts
+  invertAmounts?: boolean;
+}
+
+// Column layouts of common bank exports. Files from other banks are matched
+// by column name, or mapped explicitly.
+export const STATEMENT_CSV_PRESETS: Record<string, IStatementCsvPreset> = {
+  "chase-checking": {
+    label: "Chase (checking account)",
+    mapping: {
+      date: "Posting Date",
+      description: "Description",
+      amount: "Amount",
+    },
+    dateFormat: "MDY",
+  },
+  "chase-card": {
+    label: "Chase (credit card)",
+    mapping: {
+      date: "Transaction Date",
+      description: "Description",
+      amount: "Amount",
+      category: "Category",
+    },
+    dateFormat: "MDY",
+  },
+  monzo: {
+    label: "Monzo",
+    mapping: {
+      date: "Date",
+      description: "Name",
+      amount: "Amount",
+      category: "Category",
+      reference: "Transaction ID",
+    },
+    dateFormat: "DMY",
+  },
+  revolut: {
+    label: "Revolut",
+    mapping: {
+      date: "Started Date",
+      description: "Description",
+      amount: "Amount",
+    },
+  },
+  "amex-card": {
+    label: "American Express (credit card)",
+    mapping: {
+      date: "Date",
+      description: "Description",
+      amount: "Amount",
+      reference: "Reference",
+    },
+    dateFormat: "MDY",
+    invertAmounts: true,
+  },
+};
+
+export interface IStatementImport {
+  format: (typeof STATEMENT_IMPORT_FORMATS)[number];
+  content: string;
+  // CSV only
+  preset?: string;
+  mapping?: TStatementCsvMapping;
+  dateFormat?: (typeof STATEMENT_DATE_FORMATS)[number];
+  invertAmounts?: boolean;
+  // Currency of lines without one in the file; defaults to the base currency
+  currency?: string;
+}
+
+export interface IBudgetCategoryRuleCreate {
+  pattern: string;
+  category: string;
+  type?: BudgetType | null; // null or missing: income and expenses
+  priority?: number;
+}
+
+export interface IBudgetCategoryRuleUpdate {
+  pattern?: string;
+  category?: string;
+  type?: BudgetType | null;
+  priority?: number;
+}
+
+export interface IExchangeRateCreate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // value of 1 fromCurrency in toCurrency
+  date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface IExchangeRateFilters {
+  fromCurrency?: string;
+  toCurrency?: string;
+}
+
+export interface IExchangeRateImport {
+  content: string;
+  fromCurrency?: string;
+}
+
+// Complete months averaged for the net balance savings goals are forecast
+// with
+export const SAVINGS_FORECAST_MONTHS = 3;
+
+export interface ISavingsGoalCreate {
+  name: string;
+  description?: string;
+  targetAmount: number;
+  currency?: string; // defaults to the user's base currency
+  deadline: string; // YYYY-MM-DD
+}
+
+export interface ISavingsGoalUpdate {
+  name?: string;
+  description?: string | null;
+  targetAmount?: number;
+  deadline?: string;
+  isArchived?: boolean;
+}
+
+export interface ISavingsContributionCreate {
+  // An existing budget entry to count towards the goal; without one an
+  // expense in the Savings category is added
+  budgetId?: string;
+  amount?: number; // in the goal's currency; defaults to the entry's amount
+  date?: string; // YYYY-MM-DD, for a new entry; defaults to today
+  note?: string;
+}
+
+export interface ISavingsGoalProgress {
+  goalId: string;
+  name: string;
+  description: string | null;
+  currency: string; // the goal's own currency
+  targetAmount: number;
+  savedAmount: number;
+  remaining: number;
+  percentage: number;
+  deadline: string; // YYYY-MM-DD
+  monthsLeft: number;
+  requiredMonthlySaving: number;
+  contributionCount: number;
+  isArchived: boolean;
+  status: "active" | "achieved" | "overdue";
+  forecast: {
+    // null when the goal's currency has no rate to the base currency
+    onTrack: boolean | null;
+    monthlySaving: number | null; // share of the net balance, goal currency
+    projectedAmount: number | null; // saved by the deadline
+    projectedCompletionDate: string | null; // YYYY-MM, null if never
+  };
+}
+
+export interface ISavingsGoalsOverview {
+  currency: string; // the user's base currency
+  // Average monthly income minus expenses, leaving out money put into goals
+  monthlyNetBalance: number;
+  months: number;
+  requiredMonthlySaving: number; // all active goals, base currency
+  goals: ISavingsGoalProgress[];
 }
 
 // Common budget categories
@@ -90,5 +397,6 @@ export const EXPENSE_CATEGORIES = [
   "Subscriptions",
   "Sports & Recreation",
   "Personal Care",
+  "Savings",
   "Miscellaneous",
 ] as const;
@@ -0,0 +1,51 @@
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { addDays, getWeekStart } from "../class/class.utils";
+import { BudgetPeriod } from "./budget.types";
+
+// Same day of the month, clamped to the last day of shorter months
+// (2025-01-31 + 1 month = 2025-02-28)
+export const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+
+  target.setUTCDate(Math.min(day, lastDay));
+
+  return target.toISOString().slice(0, 10);
+};
+
+// The calendar week (from Monday), month or year containing the reference
+// instant, in the user's time zone. `start` and `end` are the instants the
+// period begins and the next one begins.
+export const getPeriodRange = (
+  period: string,
+  timeZone: string,
+  reference = new Date()
+) => {
+  const today = timezoneHelpers.getLocalDate(timeZone, reference);
+  let startDate: string;
+  let nextStartDate: string;
+
+  switch (period) {
+    case BudgetPeriod.WEEKLY:
+      startDate = getWeekStart(today);
+      nextStartDate = addDays(startDate, 7);
+      break;
+    case BudgetPeriod.YEARLY:
+      startDate = `${today.slice(0, 4)}-01-01`;
+      nextStartDate = addMonths(startDate, 12);
+      break;
+    default:
+      startDate = `${today.slice(0, 7)}-01`;
+      nextStartDate = addMonths(startDate, 1);
+  }
+
+  return {
+    startDate,
+    endDate: addDays(nextStartDate, -1),
+    start: timezoneHelpers.startOfLocalDay(startDate, timeZone),
+    end: timezoneHelpers.startOfLocalDay(nextStartDate, timeZone),
+  };
+};
@@ -1,12 +1,27 @@
 import { z } from "zod";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { NotificationChannel } from "../notification/notification.types";
 import {
+  BudgetPeriod,
   BudgetType,
   EXPENSE_CATEGORIES,
   INCOME_CATEGORIES,
+  RecurrenceFrequency,
+  STATEMENT_CSV_FIELDS,
+  STATEMENT_CSV_PRESETS,
+  STATEMENT_DATE_FORMATS,
+  STATEMENT_IMPORT_FORMATS,
 } from "./budget.types";
 
 const allCategories = [...INCOME_CATEGORIES, ...EXPENSE_CATEGORIES];
 
+// Date validation regex (YYYY-MM-DD format)
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const currencyCode = z.string().refine(currencyHelpers.isValidCurrency, {
+  message: "Currency must be a 3-letter ISO 4217 code, e.g. EUR",
+});
+
 export const createBudgetSchema = z.object({
   body: z.object({
     title: z
@@ -22,6 +37,8 @@ export const createBudgetSchema = z.object({
       })
       .positive("Amount must be positive"),
 
+    currency: currencyCode.optional(),
+
     type: z.nativeEnum(BudgetType, {
       required_error: "Type is required",
       invalid_type_error: "Type must be either INCOME or EXPENSE",
@@ -43,6 +60,7 @@ export const updateBudgetSchema = z.object({
   body: z.object({
     title: z.string().min(1, "Title cannot be empty").optional(),
     amount: z.number().positive("Amount must be positive").optional(),
+    currency: currencyCode.optional(),
     type: z.nativeEnum(BudgetType).optional(),
     category: z.string().min(1, "Category cannot be empty").optional(),
     description: z.string().optional(),
@@ -86,3 +104,386 @@ export const getBudgetAnalyticsSchema = z.object({
     period: z.enum(["week", "month", "quarter", "year"]).optional(),
   }),
 });
+
+const alertThresholds = z
+  .array(
+    z
+      .number()
+      .int("Thresholds must be whole percentages")
+      .min(1, "Thresholds must be at least 1%")
+      .max(500, "Thresholds cannot exceed 500%")
+  )
+  .max(10, "At most 10 thresholds are allowed");
+
+const limitAmount = z
+  .number({
+    required_error: "Amount is required",
+    invalid_type_error: "Amount must be a number",
+  })
+  .positive("Amount must be positive");
+
+export const createBudgetLimitSchema = z.object({
+  body: z.object({
+    category: z
+      .string()
+      .min(1, "Category cannot be empty")
+      .nullable()
+      .optional(),
+    amount: limitAmount,
+    period: z.nativeEnum(BudgetPeriod).optional(),
+    alertThresholds: alertThresholds.optional(),
+    channels: z.array(z.nativeEnum(NotificationChannel)).optional(),
+  }),
+});
+
+export const updateBudgetLimitSchema = z.object({
+  params: z.object({
+    limitId: z.string({
+      required_error: "Budget limit ID is required",
+    }),
+  }),
+  body: z.object({
+    amount: limitAmount.optional(),
+    alertThresholds: alertThresholds.optional(),
+    channels: z.array(z.nativeEnum(NotificationChannel)).optional(),
+  }),
+});
+
+export const budgetLimitParamsSchema = z.object({
+  params: z.object({
+    limitId: z.string({
+      required_error: "Budget limit ID is required",
+    }),
+  }),
+});
+
+const recurringInterval = z
+  .number()
+  .int("Interval must be a whole number")
+  .min(1, "Interval must be at least 1")
+  .max(365, "Interval cannot exceed 365");
+
+export const createRecurringTransactionSchema = z.object({
+  body: z.object({
+    title: z
+      .string({
+        required_error: "Title is required",
+      })
+      .min(1, "Title cannot be empty"),
+    amount: z
+      .number({
+        required_error: "Amount is required",
+        invalid_type_error: "Amount must be a number",
+      })
+      .positive("Amount must be positive"),
+    currency: currencyCode.optional(),
+    type: z.nativeEnum(BudgetType, {
+      required_error: "Type is required",
+      invalid_type_error: "Type must be either INCOME or EXPENSE",
+    }),
+    category: z
+      .string({
+        required_error: "Category is required",
+      })
+      .min(1, "Category cannot be empty"),
+    description: z.string().optional(),
+    frequency: z.nativeEnum(RecurrenceFrequency, {
+      required_error: "Frequency is required",
+      invalid_type_error: "Frequency must be DAILY, WEEKLY or MONTHLY",
+    }),
+    interval: recurringInterval.optional(),
+    startDate: z
+      .string({
+        required_error: "Start date is required",
+      })
+      .regex(dateRegex, "Start date must be in YYYY-MM-DD format"),
+    endDate: z
+      .string()
+      .regex(dateRegex, "End date must be in YYYY-MM-DD format")
+      .nullable()
+      .optional(),
+  }),
+});
+
+export const updateRecurringTransactionSchema = z.object({
+  params: z.object({
+    recurringId: z.string({
+      required_error: "Recurring transaction ID is required",
+    }),
+  }),
+  body: z.object({
+    title: z.string().min(1, "Title cannot be empty").optional(),
+    amount: z.number().positive("Amount must be positive").optional(),
+    currency: currencyCode.optional(),
+    type: z.nativeEnum(BudgetType).optional(),
+    category: z.string().min(1, "Category cannot be empty").optional(),
+    description: z.string().nullable().optional(),
+    frequency: z.nativeEnum(RecurrenceFrequency).optional(),
+    interval: recurringInterval.optional(),
+    startDate: z
+      .string()
+      .regex(dateRegex, "Start date must be in YYYY-MM-DD format")
+      .optional(),
+    endDate: z
+      .string()
+      .regex(dateRegex, "End date must be in YYYY-MM-DD format")
+      .nullable()
+      .optional(),
+    isPaused: z.boolean().optional(),
+  }),
+});
+
+export const getRecurringTransactionsSchema = z.object({
+  query: z.object({
+    type: z.nativeEnum(BudgetType).optional(),
+    isPaused: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+export const recurringTransactionParamsSchema = z.object({
+  params: z.object({
+    recurringId: z.string({
+      required_error: "Recurring transaction ID is required",
+    }),
+  }),
+});
+
+export const importStatementSchema = z.object({
+  body: z.object({
+    format: z.enum(STATEMENT_IMPORT_FORMATS, {
+      required_error: "Format is required",
+      invalid_type_error: "Format must be csv, ofx or qfx",
+    }),
+    content: z
+      .string({
+        required_error: "File content is required",
+      })
+      .min(1, "File content cannot be empty"),
+    // CSV only: a bank preset, and field -> column header overrides
+    preset: z
+      .string()
+      .refine((name) => name in STATEMENT_CSV_PRESETS, {
+        message: `Preset must be one of: ${Object.keys(
+          STATEMENT_CSV_PRESETS
+        ).join(", ")}`,
+      })
+      .optional(),
+    mapping: z
+      .object(
+        Object.fromEntries(
+          STATEMENT_CSV_FIELDS.map((field) => [field, z.string().optional()])
+        ) as Record<
+          (typeof STATEMENT_CSV_FIELDS)[number],
+          z.ZodOptional<z.ZodString>
+        >
+      )
+      .strict()
+      .optional(),
+    dateFormat: z.enum(STATEMENT_DATE_FORMATS).optional(),
+    invertAmounts: z.boolean().optional(),
+    currency: currencyCode.optional(),
+  }),
+});
+
+const rulePriority = z
+  .number()
+  .int("Priority must be a whole number")
+  .min(-100, "Priority must be at least -100")
+  .max(100, "Priority cannot exceed 100");
+
+export const createCategoryRuleSchema = z.object({
+  body: z.object({
+    pattern: z
+      .string({
+        required_error: "Pattern is required",
+      })
+      .trim()
+      .min(1, "Pattern cannot be empty"),
+    category: z
+      .string({
+        required_error: "Category is required",
+      })
+      .trim()
+      .min(1, "Category cannot be empty"),
+    type: z.nativeEnum(BudgetType).nullable().optional(),
+    priority: rulePriority.optional(),
+  }),
+});
+
+export const updateCategoryRuleSchema = z.object({
+  params: z.object({
+    ruleId: z.string({
+      required_error: "Category rule ID is required",
+    }),
+  }),
+  body: z.object({
+    pattern: z.string().trim().min(1, "Pattern cannot be empty").optional(),
+    category: z.string().trim().min(1, "Category cannot be empty").optional(),
+    type: z.nativeEnum(BudgetType).nullable().optional(),
+    priority: rulePriority.optional(),
+  }),
+});
+
+export const categoryRuleParamsSchema = z.object({
+  params: z.object({
+    ruleId: z.string({
+      required_error: "Category rule ID is required",
+    }),
+  }),
+});
+
+export const getExchangeRatesSchema = z.object({
+  query: z.object({
+    fromCurrency: currencyCode.optional(),
+    toCurrency: currencyCode.optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const setExchangeRateSchema = z.object({
+  body: z.object({
+    fromCurrency: z
+      .string({
+        required_error: "From currency is required",
+      })
+      .refine(currencyHelpers.isValidCurrency, {
+        message: "Currency must be a 3-letter ISO 4217 code, e.g. EUR",
+      }),
+    toCurrency: z
+      .string({
+        required_error: "To currency is required",
+      })
+      .refine(currencyHelpers.isValidCurrency, {
+        message: "Currency must be a 3-letter ISO 4217 code, e.g. EUR",
+      }),
+    rate: z
+      .number({
+        required_error: "Rate is required",
+        invalid_type_error: "Rate must be a number",
+      })
+      .positive("Rate must be positive"),
+    date: z
+      .string()
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format")
+      .optional(),
+  }),
+});
+
+export const importExchangeRatesSchema = z.object({
+  body: z.object({
+    content: z
+      .string({
+        required_error: "File content is required",
+      })
+      .min(1, "File content cannot be empty"),
+    // Needed when the file has no from-currency column
+    fromCurrency: currencyCode.optional(),
+  }),
+});
+
+export const exchangeRateParamsSchema = z.object({
+  params: z.object({
+    rateId: z.string({
+      required_error: "Exchange rate ID is required",
+    }),
+  }),
+});
+
+export const createSavingsGoalSchema = z.object({
+  body: z.object({
+    name: z
+      .string({
+        required_error: "Name is required",
+      })
+      .min(1, "Name cannot be empty")
+      .max(100, "Name too long"),
+
+    description: z.string().max(500, "Description too long").optional(),
+
+    targetAmount: z
+      .number({
+        required_error: "Target amount is required",
+      })
+      .positive("Target amount must be positive"),
+
+    currency: currencyCode.optional(),
+
+    deadline: z
+      .string({
+        required_error: "Deadline is required",
+      })
+      .regex(dateRegex, "Deadline must be in YYYY-MM-DD format"),
+  }),
+});
+
+export const updateSavingsGoalSchema = z.object({
+  body: z.object({
+    name: z
+      .string()
+      .min(1, "Name cannot be empty")
+      .max(100, "Name too long")
+      .optional(),
+    description: z
+      .string()
+      .max(500, "Description too long")
+      .nullable()
+      .optional(),
+    targetAmount: z
+      .number()
+      .positive("Target amount must be positive")
+      .optional(),
+    deadline: z
+      .string()
+      .regex(dateRegex, "Deadline must be in YYYY-MM-DD format")
+      .optional(),
+    isArchived: z.boolean().optional(),
+  }),
+  params: z.object({
+    goalId: z.string({
+      required_error: "Savings goal ID is required",
+    }),
+  }),
+});
+
+export const getSavingsGoalsSchema = z.object({
+  query: z.object({
+    includeArchived: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+export const savingsGoalParamsSchema = z.object({
+  params: z.object({
+    goalId: z.string({
+      required_error: "Savings goal ID is required",
+    }),
+  }),
+});
+
+export const createSavingsContributionSchema = z.object({
+  body: z.object({
+    budgetId: z.string().optional(),
+    amount: z.number().positive("Amount must be positive").optional(),
+    date: z
+      .string()
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format")
+      .optional(),
+    note: z.string().max(500, "Note too long").optional(),
+  }),
+  params: z.object({
+    goalId: z.string({
+      required_error: "Savings goal ID is required",
+    }),
+  }),
+});
+
+export const savingsContributionParamsSchema = z.object({
+  params: z.object({
+    goalId: z.string({
+      required_error: "Savings goal ID is required",
+    }),
+    contributionId: z.string({
+      required_error: "Contribution ID is required",
+    }),
+  }),
+});
@@ -0,0 +1,262 @@
+import { BudgetCategoryRule } from "@prisma/client";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import {
+  BudgetType,
+  EXPENSE_CATEGORIES,
+  IBudgetCategoryRuleCreate,
+  IBudgetCategoryRuleUpdate,
+  INCOME_CATEGORIES,
+} from "./budget.types";
+
+type TCategorizeInput = {
+  description: string;
+  type: BudgetType;
+  bankCategory?: string | null;
+};
+
+// Whole-word hints in transaction descriptions (or the bank's own category)
+// for the built-in categories
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  "Food & Dining": [
+    "restaurant",
+    "cafe",
+    "coffee",
+    "starbucks",
+    "mcdonalds",
+    "burger",
+    "pizza",
+    "kfc",
+    "subway",
+    "uber eats",
+    "deliveroo",
+    "doordash",
+    "grubhub",
+    "just eat",
+    "grocery",
+    "groceries",
+    "supermarket",
+    "tesco",
+    "sainsbury",
+    "aldi",
+    "lidl",
+    "walmart",
+    "eating out",
+    "dining",
+    "food",
+  ],
+  Transportation: [
+    "uber",
+    "lyft",
+    "bolt",
+    "taxi",
+    "bus",
+    "train",
+    "rail",
+    "metro",
+    "subway station",
+    "transit",
+    "tfl",
+    "fuel",
+    "petrol",
+    "gas station",
+    "shell",
+    "parking",
+    "transport",
+  ],
+  "Books & Supplies": [
+    "bookstore",
+    "bookshop",
+    "books",
+    "stationery",
+    "waterstones",
+    "barnes",
+    "chegg",
+    "staples",
+  ],
+  Entertainment: [
+    "cinema",
+    "movie",
+    "theatre",
+    "theater",
+    "concert",
+    "ticketmaster",
+    "steam",
+    "playstation",
+    "xbox",
+    "nintendo",
+    "entertainment",
+  ],
+  Clothing: ["h&m", "zara", "primark", "uniqlo", "clothing", "shoes"],
+  "Health & Medicine": [
+    "pharmacy",
+    "chemist",
+    "boots",
+    "cvs",
+    "walgreens",
+    "doctor",
+    "dentist",
+    "clinic",
+    "hospital",
+    "health",
+  ],
+  Technology: ["apple store", "currys", "best buy", "electronics"],
+  Accommodation: ["rent", "landlord", "housing", "dorm", "accommodation"],
+  Utilities: [
+    "electricity",
+    "electric",
+    "water",
+    "gas bill",
+    "internet",
+    "broadband",
+    "phone bill",
+    "mobile",
+    "utilities",
+    "bills",
+  ],
+  Subscriptions: [
+    "netflix",
+    "spotify",
+    "disney",
+    "hulu",
+    "youtube premium",
+    "amazon prime",
+    "icloud",
+    "subscription",
+  ],
+  "Sports & Recreation": ["gym", "fitness", "sports", "swimming", "leisure"],
+  "Personal Care": [
+    "barber",
+    "salon",
+    "hairdresser",
+    "cosmetics",
+    "personal care",
+  ],
+  Scholarship: ["scholarship", "bursary", "grant", "student finance"],
+  "Part-time Job": ["salary", "payroll", "wages", "wage", "paycheck"],
+  Freelancing: ["upwork", "fiverr", "freelance", "invoice"],
+  Tutoring: ["tutoring", "tuition fee received"],
+  Allowance: ["allowance", "pocket money"],
+  Gifts: ["gift", "birthday"],
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}($|[^a-z0-9])`).test(text);
+
+// Tries the user's rules first, then a bank category naming one of the
+// built-in categories, then keywords; anything left is Miscellaneous or
+// Other Income
+const categorize = (rules: BudgetCategoryRule[], input: TCategorizeInput) => {
+  const description = input.description.toLowerCase();
+
+  const rule = rules.find(
+    (item) =>
+      (!item.type || item.type === input.type) &&
+      description.includes(item.pattern.toLowerCase())
+  );
+
+  if (rule) return { category: rule.category, ruleId: rule.id };
+
+  const categories: readonly string[] =
+    input.type === BudgetType.INCOME ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
+  // e.g. Monzo's "eating_out"
+  const bankCategory =
+    input.bankCategory?.toLowerCase().replace(/[_-]+/g, " ") || "";
+
+  const named = categories.find(
+    (category) =>
+      bankCategory && normalize(category) === normalize(bankCategory)
+  );
+  const guessed = categories.find((category) =>
+    (CATEGORY_KEYWORDS[category] || []).some(
+      (keyword) =>
+        containsWord(description, keyword) ||
+        containsWord(bankCategory, keyword)
+    )
+  );
+
+  return {
+    category:
+      named ||
+      guessed ||
+      (input.type === BudgetType.INCOME ? "Other Income" : "Miscellaneous"),
+    ruleId: null,
+  };
+};
+
+// In the order they are tried
+const getRules = async (userId: string) =>
+  prisma.budgetCategoryRule.findMany({
+    where: { userId },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+  });
+
+const getRuleById = async (userId: string, ruleId: string) => {
+  const rule = await prisma.budgetCategoryRule.findFirst({
+    where: { id: ruleId, userId },
+  });
+
+  if (!rule) {
+    throw new ApiError(404, "Category rule not found");
+  }
+
+  return rule;
+};
+
+const createRule = async (
+  userId: string,
+  payload: IBudgetCategoryRuleCreate
+) => {
+  return prisma.budgetCategoryRule.create({
+    data: {
+      pattern: payload.pattern.trim(),
+      category: payload.category.trim(),
+      type: payload.type ?? null,
+      priority: payload.priority ?? 0,
+      userId,
+    },
+  });
+};
+
+const updateRule = async (
+  userId: string,
+  ruleId: string,
+  payload: IBudgetCategoryRuleUpdate
+) => {
+  await getRuleById(userId, ruleId);
+
+  return prisma.budgetCategoryRule.update({
+    where: { id: ruleId },
+    data: {
+      ...(payload.pattern !== undefined && { pattern: payload.pattern.trim() }),
+      ...(payload.category !== undefined && {
+        category: payload.category.trim(),
+      }),
+      ...(payload.type !== undefined && { type: payload.type }),
+      ...(payload.priority !== undefined && { priority: payload.priority }),
+    },
+  });
+};
+
+const deleteRule = async (userId: string, ruleId: string) => {
+  await getRuleById(userId, ruleId);
+
+  await prisma.budgetCategoryRule.delete({ where: { id: ruleId } });
+
+  return { message: "Category rule deleted successfully" };
+};
+
+export const CategoryRuleServices = {
+  categorize,
+  getRules,
+  getRuleById,
+  createRule,
+  updateRule,
+  deleteRule,
+};
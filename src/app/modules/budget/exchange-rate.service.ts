@@ -0,0 +1,364 @@
+import { Prisma } from "@prisma/client";
+import { csvHelpers } from "../../../helpers/csvHelpers";
+import {
+  currencyHelpers,
+  DEFAULT_CURRENCY,
+} from "../../../helpers/currencyHelpers";
+import {
+  DEFAULT_TIMEZONE,
+  timezoneHelpers,
+} from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { getLocalDateString, toDateString } from "../class/class.utils";
+import {
+  IExchangeRateCreate,
+  IExchangeRateFilters,
+  IExchangeRateImport,
+} from "./budget.types";
+
+type TRatePoint = {
+  date: string; // YYYY-MM-DD
+  rate: number;
+};
+
+type TConvertible = {
+  amount: number;
+  currency: string;
+  date: Date | string;
+};
+
+const RATE_COLUMN_SYNONYMS = {
+  date: ["date", "effective date", "time period"],
+  from: ["from", "from currency", "base", "base currency", "source"],
+  to: ["to", "to currency", "quote", "quote currency", "target", "currency"],
+  rate: ["rate", "exchange rate", "value", "price"],
+};
+
+const pairKey = (from: string, to: string) => `${from}>${to}`;
+
+// Latest rate on or before the date; dates before the first stored rate use
+// the earliest one
+const findRate = (points: TRatePoint[], date: string) => {
+  let match = points[0];
+
+  for (const point of points) {
+    if (point.date > date) break;
+    match = point;
+  }
+
+  return match.rate;
+};
+
+// Converts amounts into the user's base currency with the rate in effect on
+// the entry's local date (an instant, or a YYYY-MM-DD local date). A pair
+// can be stored either way round; the direction entered is preferred over
+// the inverse. Currencies without any rate are left out of totals and
+// reported by getMissingRates.
+const getConverter = async (userId: string) => {
+  const [user, rates] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true, timezone: true },
+    }),
+    prisma.exchangeRate.findMany({
+      where: { userId },
+      orderBy: { date: "asc" },
+    }),
+  ]);
+
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+  const timeZone = user?.timezone || DEFAULT_TIMEZONE;
+  const direct = new Map<string, TRatePoint[]>();
+  const inverse = new Map<string, TRatePoint[]>();
+
+  rates.forEach((rate) => {
+    const date = toDateString(rate.date);
+    const forward = pairKey(rate.fromCurrency, rate.toCurrency);
+    const backward = pairKey(rate.toCurrency, rate.fromCurrency);
+
+    direct.set(forward, [
+      ...(direct.get(forward) || []),
+      { date, rate: rate.rate },
+    ]);
+    inverse.set(backward, [
+      ...(inverse.get(backward) || []),
+      { date, rate: 1 / rate.rate },
+    ]);
+  });
+
+  const missing = new Set<string>();
+
+  const convert = (amount: number, currency: string, date: Date | string) => {
+    if (currency === baseCurrency) return amount;
+
+    const key = pairKey(currency, baseCurrency);
+    const points = direct.get(key) || inverse.get(key);
+
+    if (!points) {
+      missing.add(currency);
+      return null;
+    }
+
+    return (
+      amount *
+      findRate(
+        points,
+        typeof date === "string"
+          ? date
+          : timezoneHelpers.getLocalDate(timeZone, date)
+      )
+    );
+  };
+
+  // Sum of the entries that could be converted
+  const sum = (entries: TConvertible[]) =>
+    entries.reduce(
+      (total, entry) =>
+        total + (convert(entry.amount, entry.currency, entry.date) ?? 0),
+      0
+    );
+
+  return {
+    baseCurrency,
+    convert,
+    sum,
+    getMissingRates: () => Array.from(missing).sort(),
+  };
+};
+
+export type TCurrencyConverter = Awaited<ReturnType<typeof getConverter>>;
+
+const getRates = async (
+  userId: string,
+  filters: IExchangeRateFilters,
+  page = 1,
+  limit = 50
+) => {
+  const where: Prisma.ExchangeRateWhereInput = {
+    userId,
+    ...(filters.fromCurrency && {
+      fromCurrency: currencyHelpers.normalizeCurrency(filters.fromCurrency),
+    }),
+    ...(filters.toCurrency && {
+      toCurrency: currencyHelpers.normalizeCurrency(filters.toCurrency),
+    }),
+  };
+
+  const [rates, total] = await Promise.all([
+    prisma.exchangeRate.findMany({
+      where,
+      orderBy: [
+        { date: "desc" },
+        { fromCurrency: "asc" },
+        { toCurrency: "asc" },
+      ],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.exchangeRate.count({ where }),
+  ]);
+
+  return {
+    data: rates,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+// One rate per pair and day; entering it again replaces it
+const setRate = async (userId: string, payload: IExchangeRateCreate) => {
+  const fromCurrency = currencyHelpers.normalizeCurrency(payload.fromCurrency);
+  const toCurrency = currencyHelpers.normalizeCurrency(payload.toCurrency);
+
+  if (fromCurrency === toCurrency) {
+    throw new ApiError(400, "A rate needs two different currencies");
+  }
+
+  const date = new Date(
+    payload.date || getLocalDateString(await getUserTimezone(userId))
+  );
+
+  return prisma.exchangeRate.upsert({
+    where: {
+      userId_fromCurrency_toCurrency_date: {
+        userId,
+        fromCurrency,
+        toCurrency,
+        date,
+      },
+    },
+    create: { fromCurrency, toCurrency, rate: payload.rate, date, userId },
+    update: { rate: payload.rate },
+  });
+};
+
+const deleteRate = async (userId: string, rateId: string) => {
+  const rate = await prisma.exchangeRate.findFirst({
+    where: { id: rateId, userId },
+  });
+
+  if (!rate) {
+    throw new ApiError(404, "Exchange rate not found");
+  }
+
+  await prisma.exchangeRate.delete({ where: { id: rateId } });
+
+  return { message: "Exchange rate deleted successfully" };
+};
+
+// Reads a rates CSV in one of two layouts:
+// - one rate per row: date, from, to, rate (from may come from the request)
+// - one row per date with a column per currency, e.g. the ECB reference rates
+//   (Date,USD,JPY,...), giving the value of 1 fromCurrency in each
+// Rates already stored for the same pair and day are replaced.
+const importRates = async (userId: string, payload: IExchangeRateImport) => {
+  const { columns, records } = csvHelpers.parseRecords(payload.content);
+  const errors: { line: number; message: string }[] = [];
+
+  if (!records.length) {
+    throw new ApiError(400, "The rates file has no rows");
+  }
+
+  const column = {
+    date: csvHelpers.findColumn(columns, RATE_COLUMN_SYNONYMS.date),
+    from: csvHelpers.findColumn(columns, RATE_COLUMN_SYNONYMS.from),
+    to: csvHelpers.findColumn(columns, RATE_COLUMN_SYNONYMS.to),
+    rate: csvHelpers.findColumn(columns, RATE_COLUMN_SYNONYMS.rate),
+  };
+  const defaultFrom = payload.fromCurrency
+    ? currencyHelpers.normalizeCurrency(payload.fromCurrency)
+    : null;
+  const currencyColumns = columns.filter(
+    (name) => name !== column.date && /^[A-Z]{3}$/.test(name)
+  );
+  const isWide = !column.to && currencyColumns.length > 0;
+
+  if (!column.date) {
+    throw new ApiError(
+      400,
+      `Could not find a date column. Columns in file: ${columns.join(", ")}`
+    );
+  }
+  if (isWide ? !defaultFrom : !column.to || !column.rate) {
+    throw new ApiError(
+      400,
+      isWide
+        ? "fromCurrency is required for files with a column per currency"
+        : `Could not find currency and rate columns. Columns in file: ${columns.join(
+            ", "
+          )}`
+    );
+  }
+  if (!isWide && !column.from && !defaultFrom) {
+    throw new ApiError(
+      400,
+      "The file has no from-currency column; pass fromCurrency"
+    );
+  }
+
+  // Later rows win when the file repeats a pair and day
+  const rates = new Map<string, Prisma.ExchangeRateCreateManyInput>();
+
+  records.forEach(({ line, values }) => {
+    const date = values[column.date as string].slice(0, 10);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push({ line, message: "Date must be in YYYY-MM-DD format" });
+      return;
+    }
+
+    const entries = isWide
+      ? currencyColumns.map((name) => ({
+          from: defaultFrom as string,
+          to: name,
+          value: values[name],
+        }))
+      : [
+          {
+            from: column.from
+              ? currencyHelpers.normalizeCurrency(values[column.from])
+              : (defaultFrom as string),
+            to: currencyHelpers.normalizeCurrency(values[column.to as string]),
+            value: values[column.rate as string],
+          },
+        ];
+
+    entries.forEach(({ from, to, value }) => {
+      const text = (value || "").trim();
+      const rate = text ? Number(text) : NaN;
+
+      // Blank and N/A cells are gaps in the series (Number("") would be 0)
+      if (isWide && !Number.isFinite(rate)) return;
+
+      if (
+        !currencyHelpers.isValidCurrency(from) ||
+        !currencyHelpers.isValidCurrency(to) ||
+        from === to
+      ) {
+        errors.push({ line, message: `Invalid currency pair ${from}/${to}` });
+        return;
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        errors.push({ line, message: `Invalid rate for ${from}/${to}` });
+        return;
+      }
+
+      rates.set(`${pairKey(from, to)}@${date}`, {
+        fromCurrency: from,
+        toCurrency: to,
+        rate,
+        date: new Date(date),
+        userId,
+      });
+    });
+  });
+
+  const data = Array.from(rates.values());
+  const pairs = Array.from(
+    new Set(data.map((rate) => pairKey(rate.fromCurrency, rate.toCurrency)))
+  );
+
+  await prisma.$transaction([
+    ...pairs.map((pair) => {
+      const [fromCurrency, toCurrency] = pair.split(">");
+
+      return prisma.exchangeRate.deleteMany({
+        where: {
+          userId,
+          fromCurrency,
+          toCurrency,
+          date: {
+            in: data
+              .filter(
+                (rate) =>
+                  rate.fromCurrency === fromCurrency &&
+                  rate.toCurrency === toCurrency
+              )
+              .map((rate) => rate.date as Date),
+          },
+        },
+      });
+    }),
+    prisma.exchangeRate.createMany({ data }),
+  ]);
+
+  return {
+    imported: data.length,
+    pairs: pairs.map((pair) => pair.replace(">", "/")),
+    errors,
+  };
+};
+
+export const ExchangeRateServices = {
+  getConverter,
+  getRates,
+  setRate,
+  deleteRate,
+  importRates,
+};
@@ -0,0 +1,393 @@
+import { Prisma, RecurringTransaction } from "@prisma/client";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import {
+  getUserBaseCurrency,
+  getUserTimezone,
+} from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import {
+  addDays,
+  getLocalDateString,
+  toDateString,
+  toOptionalDateString,
+} from "../class/class.utils";
+import { BudgetLimitServices } from "./budget-limit.service";
+import {
+  BudgetType,
+  IMaterializeResult,
+  IProjectedTransaction,
+  IRecurringTransactionCreate,
+  IRecurringTransactionFilters,
+  IRecurringTransactionUpdate,
+  MAX_RECURRING_OCCURRENCES_PER_RUN,
+  RecurrenceFrequency,
+} from "./budget.types";
+import { addMonths } from "./budget.utils";
+
+// Upcoming dates listed with each template
+const UPCOMING_PREVIEW_COUNT = 3;
+
+type TSchedule = Pick<
+  RecurringTransaction,
+  "frequency" | "interval" | "startDate" | "endDate"
+>;
+
+// Occurrences are counted from the start date rather than chained, so a
+// monthly template started on the 31st still lands on the 31st after February
+const getOccurrenceDate = (schedule: TSchedule, index: number) => {
+  const startDate = toDateString(schedule.startDate);
+  const steps = index * schedule.interval;
+
+  switch (schedule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(startDate, steps);
+    case RecurrenceFrequency.WEEKLY:
+      return addDays(startDate, steps * 7);
+    default:
+      return addMonths(startDate, steps);
+  }
+};
+
+// Occurrence dates from `fromIndex` up to `until` (inclusive) and the end date
+const listOccurrences = (
+  schedule: TSchedule,
+  fromIndex: number,
+  until: string,
+  max = MAX_RECURRING_OCCURRENCES_PER_RUN
+) => {
+  const endDate = toOptionalDateString(schedule.endDate);
+  const dates: string[] = [];
+  let index = fromIndex;
+
+  while (dates.length < max) {
+    const date = getOccurrenceDate(schedule, index);
+    if (date > until || (endDate && date > endDate)) break;
+
+    dates.push(date);
+    index++;
+  }
+
+  return { dates, nextIndex: index };
+};
+
+const withUpcoming = (template: RecurringTransaction) => {
+  const endDate = toOptionalDateString(template.endDate);
+  const upcoming: string[] = [];
+
+  for (
+    let index = template.generatedCount;
+    upcoming.length < UPCOMING_PREVIEW_COUNT;
+    index++
+  ) {
+    const date = getOccurrenceDate(template, index);
+    if (endDate && date > endDate) break;
+    upcoming.push(date);
+  }
+
+  return { ...template, upcoming: template.isPaused ? [] : upcoming };
+};
+
+const validateDateRange = (startDate: string, endDate: string | null) => {
+  if (endDate && endDate < startDate) {
+    throw new ApiError(400, "End date cannot be before the start date");
+  }
+};
+
+// Records every occurrence due up to today (in the user's time zone) as a
+// budget entry. Claiming the occurrences by bumping generatedCount in the
+// same transaction keeps concurrent runs from recording them twice.
+const materializeTemplate = async (
+  template: RecurringTransaction,
+  timeZone: string
+) => {
+  const today = getLocalDateString(timeZone);
+  const { dates, nextIndex } = listOccurrences(
+    template,
+    template.generatedCount,
+    today
+  );
+
+  if (!dates.length) return 0;
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.recurringTransaction.updateMany({
+      where: { id: template.id, generatedCount: template.generatedCount },
+      data: {
+        generatedCount: nextIndex,
+        nextDate: new Date(getOccurrenceDate(template, nextIndex)),
+        lastGeneratedAt: new Date(),
+      },
+    });
+
+    if (!claimed.count) return 0;
+
+    // Midday local time keeps the entry on its day (and month) even when
+    // dates are later bucketed in UTC
+    await tx.budget.createMany({
+      data: dates.map((date) => ({
+        title: template.title,
+        amount: template.amount,
+        currency: template.currency,
+        type: template.type,
+        category: template.category,
+        description: template.description,
+        date: timezoneHelpers.toInstant(date, "12:00", timeZone),
+        recurringTransactionId: template.id,
+        userId: template.userId,
+      })),
+    });
+
+    return dates.length;
+  });
+};
+
+// Materializes due templates for one user (before their budget is read) or,
+// without a user, for everyone (scheduled maintenance run)
+const materializeDueTransactions = async (
+  userId?: string
+): Promise<IMaterializeResult> => {
+  // Today is at most one day ahead of UTC anywhere; the exact local date is
+  // checked per template
+  const templates = await prisma.recurringTransaction.findMany({
+    where: {
+      ...(userId && { userId }),
+      isPaused: false,
+      nextDate: { lte: new Date(addDays(toDateString(new Date()), 1)) },
+    },
+    include: { user: { select: { timezone: true } } },
+  });
+
+  const result: IMaterializeResult = { templates: 0, transactions: 0 };
+  const expenseUsers = new Set<string>();
+
+  for (const { user, ...template } of templates) {
+    const created = await materializeTemplate(template, user.timezone);
+    if (!created) continue;
+
+    result.templates++;
+    result.transactions += created;
+    if (template.type === BudgetType.EXPENSE) {
+      expenseUsers.add(template.userId);
+    }
+  }
+
+  for (const id of expenseUsers) {
+    await BudgetLimitServices.checkLimitAlerts(id);
+  }
+
+  return result;
+};
+
+// Occurrences not recorded yet that fall between two dates (inclusive)
+const getProjectedEntries = async (
+  userId: string,
+  fromDate: string,
+  toDate: string
+) => {
+  const templates = await prisma.recurringTransaction.findMany({
+    where: { userId, isPaused: false },
+  });
+
+  const entries: IProjectedTransaction[] = [];
+
+  for (const template of templates) {
+    const { dates } = listOccurrences(
+      template,
+      template.generatedCount,
+      toDate,
+      Number.MAX_SAFE_INTEGER
+    );
+
+    dates
+      .filter((date) => date >= fromDate)
+      .forEach((date) =>
+        entries.push({
+          recurringTransactionId: template.id,
+          title: template.title,
+          amount: template.amount,
+          currency: template.currency,
+          type: template.type,
+          category: template.category,
+          date,
+        })
+      );
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const getRecurringTransactions = async (
+  userId: string,
+  filters: IRecurringTransactionFilters
+) => {
+  const templates = await prisma.recurringTransaction.findMany({
+    where: {
+      userId,
+      ...(filters.type && { type: filters.type }),
+      ...(filters.isPaused !== undefined && { isPaused: filters.isPaused }),
+    },
+    orderBy: [{ isPaused: "asc" }, { nextDate: "asc" }],
+  });
+
+  return templates.map(withUpcoming);
+};
+
+const getRecurringTransactionById = async (
+  userId: string,
+  recurringId: string
+) => {
+  const template = await prisma.recurringTransaction.findFirst({
+    where: { id: recurringId, userId },
+  });
+
+  if (!template) {
+    throw new ApiError(404, "Recurring transaction not found");
+  }
+
+  return template;
+};
+
+const createRecurringTransaction = async (
+  userId: string,
+  payload: IRecurringTransactionCreate
+) => {
+  const endDate = payload.endDate || null;
+  validateDateRange(payload.startDate, endDate);
+
+  const template = await prisma.recurringTransaction.create({
+    data: {
+      title: payload.title,
+      amount: payload.amount,
+      currency: currencyHelpers.normalizeCurrency(
+        payload.currency || (await getUserBaseCurrency(userId))
+      ),
+      type: payload.type,
+      category: payload.category,
+      description: payload.description,
+      frequency: payload.frequency,
+      interval: payload.interval || 1,
+      startDate: new Date(payload.startDate),
+      endDate: endDate ? new Date(endDate) : null,
+      nextDate: new Date(payload.startDate),
+      userId,
+    },
+  });
+
+  // A start date in the past backfills the occurrences since then
+  await materializeDueTransactions(userId);
+
+  return withUpcoming(await getRecurringTransactionById(userId, template.id));
+};
+
+// Edits only apply going forward: entries already recorded are kept as they
+// are. A new frequency, interval or start date restarts the schedule from the
+// next due date (or the given start date), and resuming a paused template
+// skips the occurrences missed while it was paused.
+const updateRecurringTransaction = async (
+  userId: string,
+  recurringId: string,
+  payload: IRecurringTransactionUpdate
+) => {
+  const template = await getRecurringTransactionById(userId, recurringId);
+  const nextDate = toDateString(template.nextDate);
+
+  const data: Prisma.RecurringTransactionUpdateInput = {
+    ...(payload.title !== undefined && { title: payload.title }),
+    ...(payload.amount !== undefined && { amount: payload.amount }),
+    ...(payload.currency !== undefined && {
+      currency: currencyHelpers.normalizeCurrency(payload.currency),
+    }),
+    ...(payload.type !== undefined && { type: payload.type }),
+    ...(payload.category !== undefined && { category: payload.category }),
+    ...(payload.description !== undefined && {
+      description: payload.description,
+    }),
+    ...(payload.isPaused !== undefined && { isPaused: payload.isPaused }),
+  };
+
+  const schedule: TSchedule = {
+    frequency: payload.frequency ?? template.frequency,
+    interval: payload.interval ?? template.interval,
+    startDate: template.startDate,
+    endDate:
+      payload.endDate !== undefined
+        ? payload.endDate
+          ? new Date(payload.endDate)
+          : null
+        : template.endDate,
+  };
+  let generatedCount = template.generatedCount;
+
+  const scheduleChanged =
+    schedule.frequency !== template.frequency ||
+    schedule.interval !== template.interval ||
+    (payload.startDate !== undefined &&
+      payload.startDate !== toDateString(template.startDate));
+
+  if (scheduleChanged) {
+    const startDate = payload.startDate ?? nextDate;
+
+    if (template.lastGeneratedAt && startDate < nextDate) {
+      throw new ApiError(
+        400,
+        `Entries before ${nextDate} are already recorded; the start date cannot be earlier`
+      );
+    }
+
+    schedule.startDate = new Date(startDate);
+    generatedCount = 0;
+  }
+
+  validateDateRange(
+    toDateString(schedule.startDate),
+    toOptionalDateString(schedule.endDate)
+  );
+
+  if (template.isPaused && payload.isPaused === false) {
+    const today = getLocalDateString(await getUserTimezone(userId));
+    while (getOccurrenceDate(schedule, generatedCount) < today) {
+      generatedCount++;
+    }
+  }
+
+  await prisma.recurringTransaction.update({
+    where: { id: recurringId },
+    data: {
+      ...data,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      generatedCount,
+      nextDate: new Date(getOccurrenceDate(schedule, generatedCount)),
+    },
+  });
+
+  await materializeDueTransactions(userId);
+
+  return withUpcoming(await getRecurringTransactionById(userId, recurringId));
+};
+
+// Entries created by the template stay in the budget
+const deleteRecurringTransaction = async (
+  userId: string,
+  recurringId: string
+) => {
+  await getRecurringTransactionById(userId, recurringId);
+
+  await prisma.recurringTransaction.delete({ where: { id: recurringId } });
+
+  return { message: "Recurring transaction deleted successfully" };
+};
+
+export const RecurringTransactionServices = {
+  getRecurringTransactions,
+  getRecurringTransactionById,
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  deleteRecurringTransaction,
+  materializeDueTransactions,
+  getProjectedEntries,
+};
@@ -0,0 +1,464 @@
+import { SavingsGoal } from "@prisma/client";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import {
+  getUserBaseCurrency,
+  getUserTimezone,
+} from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { getLocalDateString, toDateString } from "../class/class.utils";
+import { BudgetLimitServices } from "./budget-limit.service";
+import {
+  BudgetType,
+  ISavingsContributionCreate,
+  ISavingsGoalCreate,
+  ISavingsGoalProgress,
+  ISavingsGoalsOverview,
+  ISavingsGoalUpdate,
+  SAVINGS_FORECAST_MONTHS,
+} from "./budget.types";
+import { addMonths } from "./budget.utils";
+import {
+  ExchangeRateServices,
+  TCurrencyConverter,
+} from "./exchange-rate.service";
+
+type TGoalTotals = {
+  savedAmount: number;
+  contributionCount: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+const round = currencyHelpers.roundAmount;
+
+// Months from one YYYY-MM-DD date to another, to one decimal
+const monthsBetween = (from: string, to: string) =>
+  Math.max(
+    0,
+    Math.round(
+      ((Date.parse(to) - Date.parse(from)) / DAY_MS / AVERAGE_MONTH_DAYS) * 10
+    ) / 10
+  );
+
+// Average monthly income minus expenses over the last complete months, in
+// the base currency. Expenses that are contributions to a goal were saved,
+// not spent, so they are left out.
+const getMonthlyNetBalance = async (
+  userId: string,
+  converter: TCurrencyConverter,
+  timeZone: string,
+  today: string
+) => {
+  const currentMonth = `${today.slice(0, 7)}-01`;
+
+  const entries = await prisma.budget.findMany({
+    where: {
+      userId,
+      date: {
+        gte: timezoneHelpers.startOfLocalDay(
+          addMonths(currentMonth, -SAVINGS_FORECAST_MONTHS),
+          timeZone
+        ),
+        lt: timezoneHelpers.startOfLocalDay(currentMonth, timeZone),
+      },
+    },
+    select: {
+      amount: true,
+      currency: true,
+      date: true,
+      type: true,
+      savingsContribution: { select: { id: true } },
+    },
+  });
+
+  const net = entries.reduce((total, entry) => {
+    if (entry.type === BudgetType.EXPENSE && entry.savingsContribution) {
+      return total;
+    }
+
+    const amount =
+      converter.convert(entry.amount, entry.currency, entry.date) ?? 0;
+
+    return entry.type === BudgetType.INCOME ? total + amount : total - amount;
+  }, 0);
+
+  return net / SAVINGS_FORECAST_MONTHS;
+};
+
+// Saving needed every month from now to reach the target by the deadline.
+// With less than a month left (or the deadline gone) it is all of it.
+const buildProgress = (
+  goal: SavingsGoal,
+  totals: TGoalTotals | undefined,
+  today: string
+): ISavingsGoalProgress => {
+  const savedAmount = round(totals?.savedAmount || 0);
+  const remaining = round(Math.max(0, goal.targetAmount - savedAmount));
+  const deadline = toDateString(goal.deadline);
+  const monthsLeft = monthsBetween(today, deadline);
+
+  return {
+    goalId: goal.id,
+    name: goal.name,
+    description: goal.description,
+    currency: goal.currency,
+    targetAmount: goal.targetAmount,
+    savedAmount,
+    remaining,
+    percentage:
+      goal.targetAmount > 0
+        ? Math.round((savedAmount / goal.targetAmount) * 1000) / 10
+        : 0,
+    deadline,
+    monthsLeft,
+    requiredMonthlySaving: round(remaining / Math.max(1, monthsLeft)),
+    contributionCount: totals?.contributionCount || 0,
+    isArchived: goal.isArchived,
+    status: !remaining ? "achieved" : deadline < today ? "overdue" : "active",
+    forecast: {
+      onTrack: null,
+      monthlySaving: null,
+      projectedAmount: null,
+      projectedCompletionDate: null,
+    },
+  };
+};
+
+// Progress of the user's goals and whether each will be reached if the
+// recent average net balance keeps going into savings. That money is shared
+// out in deadline order, each goal taking what it needs every month before
+// the next one gets any.
+const getGoalsOverview = async (
+  userId: string,
+  includeArchived = false
+): Promise<ISavingsGoalsOverview> => {
+  const [goals, totals, converter, timeZone] = await Promise.all([
+    prisma.savingsGoal.findMany({
+      where: { userId, ...(!includeArchived && { isArchived: false }) },
+      orderBy: [{ deadline: "asc" }, { createdAt: "asc" }],
+    }),
+    prisma.savingsContribution.groupBy({
+      by: ["goalId"],
+      where: { userId },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    ExchangeRateServices.getConverter(userId),
+    getUserTimezone(userId),
+  ]);
+
+  const today = getLocalDateString(timeZone);
+  const monthlyNetBalance = await getMonthlyNetBalance(
+    userId,
+    converter,
+    timeZone,
+    today
+  );
+  const totalsByGoal = new Map<string, TGoalTotals>(
+    totals.map((item) => [
+      item.goalId,
+      {
+        savedAmount: item._sum.amount || 0,
+        contributionCount: item._count._all,
+      },
+    ])
+  );
+
+  let available = Math.max(0, monthlyNetBalance);
+  let requiredMonthlySaving = 0;
+
+  const progress = goals.map((goal) => {
+    const item = buildProgress(goal, totalsByGoal.get(goal.id), today);
+
+    if (item.isArchived) return item;
+
+    if (item.status === "achieved") {
+      item.forecast = {
+        onTrack: true,
+        monthlySaving: 0,
+        projectedAmount: item.savedAmount,
+        projectedCompletionDate: null,
+      };
+      return item;
+    }
+
+    if (item.status === "overdue") {
+      item.forecast = {
+        onTrack: false,
+        monthlySaving: null,
+        projectedAmount: item.savedAmount,
+        projectedCompletionDate: null,
+      };
+      return item;
+    }
+
+    // Value of one unit of the goal's currency in the base currency
+    const rate = converter.convert(1, item.currency, today);
+
+    if (rate === null) return item;
+
+    const required = (item.remaining / Math.max(1, item.monthsLeft)) * rate;
+    const allocated = Math.min(available, required);
+    const monthlySaving = allocated / rate;
+
+    available -= allocated;
+    requiredMonthlySaving += required;
+
+    item.forecast = {
+      onTrack: allocated >= required - 0.005,
+      monthlySaving: round(monthlySaving),
+      projectedAmount: round(
+        item.savedAmount + monthlySaving * Math.max(1, item.monthsLeft)
+      ),
+      projectedCompletionDate:
+        monthlySaving > 0
+          ? addMonths(
+              today,
+              Math.ceil(item.remaining / monthlySaving - 0.0001)
+            ).slice(0, 7)
+          : null,
+    };
+
+    return item;
+  });
+
+  return {
+    currency: converter.baseCurrency,
+    monthlyNetBalance: round(monthlyNetBalance),
+    months: SAVINGS_FORECAST_MONTHS,
+    requiredMonthlySaving: round(requiredMonthlySaving),
+    goals: progress,
+  };
+};
+
+const findGoal = async (userId: string, goalId: string) => {
+  const goal = await prisma.savingsGoal.findFirst({
+    where: { id: goalId, userId },
+  });
+
+  if (!goal) {
+    throw new ApiError(404, "Savings goal not found");
+  }
+
+  return goal;
+};
+
+const getGoalById = async (userId: string, goalId: string) => {
+  await findGoal(userId, goalId);
+
+  const [overview, contributions] = await Promise.all([
+    getGoalsOverview(userId, true),
+    prisma.savingsContribution.findMany({
+      where: { goalId },
+      include: {
+        budget: {
+          select: {
+            id: true,
+            title: true,
+            amount: true,
+            currency: true,
+            type: true,
+            category: true,
+            date: true,
+          },
+        },
+      },
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    }),
+  ]);
+
+  return {
+    ...(overview.goals.find(
+      (goal) => goal.goalId === goalId
+    ) as ISavingsGoalProgress),
+    contributions,
+  };
+};
+
+const createGoal = async (userId: string, payload: ISavingsGoalCreate) => {
+  const [currency, timeZone] = await Promise.all([
+    payload.currency
+      ? currencyHelpers.normalizeCurrency(payload.currency)
+      : getUserBaseCurrency(userId),
+    getUserTimezone(userId),
+  ]);
+
+  if (payload.deadline < getLocalDateString(timeZone)) {
+    throw new ApiError(400, "The deadline has already passed");
+  }
+
+  const goal = await prisma.savingsGoal.create({
+    data: {
+      name: payload.name.trim(),
+      description: payload.description,
+      targetAmount: payload.targetAmount,
+      currency,
+      deadline: new Date(payload.deadline),
+      userId,
+    },
+  });
+
+  return getGoalById(userId, goal.id);
+};
+
+const updateGoal = async (
+  userId: string,
+  goalId: string,
+  payload: ISavingsGoalUpdate
+) => {
+  await findGoal(userId, goalId);
+
+  await prisma.savingsGoal.update({
+    where: { id: goalId },
+    data: {
+      ...(payload.name !== undefined && { name: payload.name.trim() }),
+      ...(payload.description !== undefined && {
+        description: payload.description,
+      }),
+      ...(payload.targetAmount !== undefined && {
+        targetAmount: payload.targetAmount,
+      }),
+      ...(payload.deadline !== undefined && {
+        deadline: new Date(payload.deadline),
+      }),
+      ...(payload.isArchived !== undefined && {
+        isArchived: payload.isArchived,
+      }),
+    },
+  });
+
+  return getGoalById(userId, goalId);
+};
+
+// The budget entries behind its contributions are kept; the money was
+// still moved
+const deleteGoal = async (userId: string, goalId: string) => {
+  await findGoal(userId, goalId);
+
+  await prisma.savingsGoal.delete({ where: { id: goalId } });
+
+  return { message: "Savings goal deleted successfully" };
+};
+
+// Counts an existing budget entry towards the goal, or records the money put
+// aside as an expense in the Savings category
+const addContribution = async (
+  userId: string,
+  goalId: string,
+  payload: ISavingsContributionCreate
+) => {
+  const [goal, timeZone] = await Promise.all([
+    findGoal(userId, goalId),
+    getUserTimezone(userId),
+  ]);
+
+  if (payload.budgetId) {
+    const entry = await prisma.budget.findFirst({
+      where: { id: payload.budgetId, userId },
+      include: { savingsContribution: { select: { id: true } } },
+    });
+
+    if (!entry) {
+      throw new ApiError(404, "Budget entry not found");
+    }
+    if (entry.savingsContribution) {
+      throw new ApiError(
+        409,
+        "This budget entry already counts towards a savings goal"
+      );
+    }
+    if (payload.amount === undefined && entry.currency !== goal.currency) {
+      throw new ApiError(
+        400,
+        `The entry is in ${entry.currency}; give the amount in ${goal.currency}`
+      );
+    }
+
+    return prisma.savingsContribution.create({
+      data: {
+        amount: round(payload.amount ?? entry.amount),
+        date: new Date(timezoneHelpers.getLocalDate(timeZone, entry.date)),
+        note: payload.note,
+        goalId,
+        budgetId: entry.id,
+        userId,
+      },
+      include: { budget: true },
+    });
+  }
+
+  if (payload.amount === undefined) {
+    throw new ApiError(400, "Amount is required without a budget entry");
+  }
+
+  const amount = round(payload.amount);
+  const date = payload.date || getLocalDateString(timeZone);
+
+  const contribution = await prisma.$transaction(async (tx) => {
+    const entry = await tx.budget.create({
+      data: {
+        title: `Savings: ${goal.name}`,
+        amount,
+        currency: goal.currency,
+        type: BudgetType.EXPENSE,
+        category: "Savings",
+        description: payload.note,
+        date: timezoneHelpers.toInstant(date, "12:00", timeZone),
+        userId,
+      },
+    });
+
+    return tx.savingsContribution.create({
+      data: {
+        amount,
+        date: new Date(date),
+        note: payload.note,
+        createdEntry: true,
+        goalId,
+        budgetId: entry.id,
+        userId,
+      },
+      include: { budget: true },
+    });
+  });
+
+  await BudgetLimitServices.checkLimitAlerts(userId);
+
+  return contribution;
+};
+
+// Also deletes the budget entry when it was created with the contribution
+const deleteContribution = async (
+  userId: string,
+  goalId: string,
+  contributionId: string
+) => {
+  const contribution = await prisma.savingsContribution.findFirst({
+    where: { id: contributionId, goalId, userId },
+  });
+
+  if (!contribution) {
+    throw new ApiError(404, "Contribution not found");
+  }
+
+  if (contribution.createdEntry) {
+    await prisma.budget.delete({ where: { id: contribution.budgetId } });
+  } else {
+    await prisma.savingsContribution.delete({ where: { id: contributionId } });
+  }
+
+  return { message: "Contribution deleted successfully" };
+};
+
+export const SavingsGoalServices = {
+  getGoalsOverview,
+  getGoalById,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  addContribution,
+  deleteContribution,
+};
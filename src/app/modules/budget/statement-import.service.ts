@@ -0,0 +1,464 @@
+import { csvHelpers } from "../../../helpers/csvHelpers";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { ofxHelpers } from "../../../helpers/ofxHelpers";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import {
+  getUserBaseCurrency,
+  getUserTimezone,
+} from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { BudgetLimitServices } from "./budget-limit.service";
+import {
+  BudgetType,
+  IStatementImport,
+  STATEMENT_CSV_FIELDS,
+  STATEMENT_CSV_PRESETS,
+  STATEMENT_DATE_FORMATS,
+} from "./budget.types";
+import { CategoryRuleServices } from "./category-rule.service";
+
+type TCsvField = (typeof STATEMENT_CSV_FIELDS)[number];
+type TDateFormat = (typeof STATEMENT_DATE_FORMATS)[number];
+
+type TStatementLine = {
+  externalId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // negative for money going out
+  description: string;
+  memo: string | null;
+  bankCategory: string | null;
+  currency: string | null;
+};
+
+type TImportIssue = {
+  line?: number;
+  message: string;
+};
+
+type TParseResult = {
+  lines: TStatementLine[];
+  errors: TImportIssue[];
+  warnings: string[];
+};
+
+const CSV_COLUMN_SYNONYMS: Record<TCsvField, string[]> = {
+  date: [
+    "date",
+    "transaction date",
+    "posting date",
+    "posted date",
+    "booking date",
+    "value date",
+    "started date",
+  ],
+  description: [
+    "description",
+    "details",
+    "name",
+    "payee",
+    "merchant",
+    "narrative",
+    "memo",
+    "transaction description",
+  ],
+  amount: ["amount", "value", "transaction amount", "amount (gbp)"],
+  debit: [
+    "debit",
+    "debit amount",
+    "withdrawal",
+    "withdrawals",
+    "paid out",
+    "money out",
+    "out",
+  ],
+  credit: [
+    "credit",
+    "credit amount",
+    "deposit",
+    "deposits",
+    "paid in",
+    "money in",
+    "in",
+  ],
+  category: ["category", "transaction category"],
+  reference: ["transaction id", "reference", "id", "fitid"],
+  currency: ["currency", "ccy", "currency code"],
+};
+
+// Re-importing the same transaction must map to the same id
+const buildExternalId = (source: string, ...parts: string[]) =>
+  `${source}:${tokenHelpers
+    .hashToken(parts.map((part) => part.toLowerCase()).join("|"))
+    .slice(0, 32)}`;
+
+// Identical lines in one file (two coffees on the same day) are told apart
+// by how many came before them
+const withOccurrence = () => {
+  const seen = new Map<string, number>();
+
+  return (id: string) => {
+    const count = seen.get(id) || 0;
+    seen.set(id, count + 1);
+
+    return `${id}:${count}`;
+  };
+};
+
+// Accepts 1234.56, -1,234.56, 1.234,56, (12.50), £12.50, 12.50 DR
+const parseAmount = (value: string) => {
+  let text = value.replace(/\s/g, "");
+  if (!/\d/.test(text)) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/DR$/i.test(text)) sign = -1;
+  if (text.includes("-")) sign = -sign;
+
+  const digits = text.replace(/[^\d.,]/g, "");
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+
+  // A comma after the last dot is a decimal comma, unless it groups
+  // thousands (1,234)
+  const normalized =
+    lastComma > lastDot &&
+    !(lastDot === -1 && digits.length - lastComma - 1 === 3)
+      ? digits.replace(/\./g, "").replace(",", ".")
+      : digits.replace(/,/g, "");
+
+  const amount = Number(normalized);
+
+  return Number.isFinite(amount) ? sign * amount : null;
+};
+
+const DAY_FIRST = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/;
+
+// YYYY-MM-DD (optionally with a time) or day/month/year in either order
+const parseDate = (value: string, dateFormat: TDateFormat) => {
+  const text = value.trim();
+  let year: string, month: string, day: string;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const other = text.match(DAY_FIRST);
+
+  if (iso) {
+    [, year, month, day] = iso;
+  } else if (other) {
+    year = other[3].length === 2 ? `20${other[3]}` : other[3];
+    [day, month] =
+      dateFormat === "MDY" ? [other[2], other[1]] : [other[1], other[2]];
+  } else {
+    return null;
+  }
+
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : null;
+};
+
+// Day-first unless a value only makes sense month-first (01/31/2025)
+const detectDateFormat = (values: string[]): TDateFormat | null => {
+  let dayFirst = false;
+  let monthFirst = false;
+
+  values.forEach((value) => {
+    const match = value.trim().match(DAY_FIRST);
+    if (!match) return;
+    if (Number(match[1]) > 12) dayFirst = true;
+    if (Number(match[2]) > 12) monthFirst = true;
+  });
+
+  if (monthFirst && !dayFirst) return "MDY";
+  if (dayFirst) return "DMY";
+  return null;
+};
+
+const parseCsv = (payload: IStatementImport): TParseResult => {
+  const { columns, records } = csvHelpers.parseRecords(payload.content);
+  const errors: TImportIssue[] = [];
+  const warnings: string[] = [];
+
+  if (!records.length) {
+    throw new ApiError(400, "The CSV file has no rows");
+  }
+
+  const preset = payload.preset
+    ? STATEMENT_CSV_PRESETS[payload.preset]
+    : undefined;
+  const mapping = { ...preset?.mapping, ...payload.mapping };
+  const invertAmounts = payload.invertAmounts ?? preset?.invertAmounts ?? false;
+
+  const column = Object.fromEntries(
+    STATEMENT_CSV_FIELDS.map((field) => [
+      field,
+      mapping[field] ??
+        csvHelpers.findColumn(columns, CSV_COLUMN_SYNONYMS[field]),
+    ])
+  ) as Record<TCsvField, string | undefined>;
+
+  const hasColumn = (field: TCsvField) =>
+    !!column[field] && columns.includes(column[field] as string);
+
+  const missing: string[] = (["date", "description"] as const).filter(
+    (field) => !hasColumn(field)
+  );
+  if (!hasColumn("amount") && !hasColumn("debit") && !hasColumn("credit")) {
+    missing.push("amount or debit/credit");
+  }
+
+  if (missing.length) {
+    throw new ApiError(
+      400,
+      `Could not find CSV columns for: ${missing.join(
+        ", "
+      )}. Columns in file: ${columns.join(", ")}`
+    );
+  }
+
+  const read = (values: Record<string, string>, field: TCsvField) =>
+    hasColumn(field) ? values[column[field] as string] || "" : "";
+
+  let dateFormat = payload.dateFormat ?? preset?.dateFormat;
+  if (!dateFormat) {
+    const detected = detectDateFormat(
+      records.map(({ values }) => read(values, "date"))
+    );
+    if (
+      !detected &&
+      records.some(({ values }) => DAY_FIRST.test(read(values, "date")))
+    ) {
+      warnings.push(
+        "Dates such as 03/04/2025 were read as day/month/year; set dateFormat to MDY if your bank writes the month first."
+      );
+    }
+    dateFormat = detected ?? "DMY";
+  }
+
+  const nextId = withOccurrence();
+  const lines: TStatementLine[] = [];
+
+  records.forEach(({ line, values }) => {
+    const date = parseDate(read(values, "date"), dateFormat as TDateFormat);
+    const description = read(values, "description");
+
+    let amount: number | null = null;
+    if (hasColumn("amount") && read(values, "amount")) {
+      amount = parseAmount(read(values, "amount"));
+    } else {
+      const debit = parseAmount(read(values, "debit"));
+      const credit = parseAmount(read(values, "credit"));
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date) {
+      errors.push({ line, message: "Date is missing or invalid" });
+      return;
+    }
+    if (amount === null) {
+      errors.push({ line, message: "Amount is missing or invalid" });
+      return;
+    }
+    if (amount === 0) {
+      errors.push({ line, message: "Transactions of 0 were skipped" });
+      return;
+    }
+
+    const currency = read(values, "currency");
+    if (currency && !currencyHelpers.isValidCurrency(currency)) {
+      errors.push({ line, message: `Unknown currency "${currency}"` });
+      return;
+    }
+
+    if (invertAmounts) amount = -amount;
+
+    const reference = read(values, "reference");
+
+    lines.push({
+      externalId: reference
+        ? buildExternalId("csv", reference)
+        : nextId(buildExternalId("csv", date, amount.toFixed(2), description)),
+      date,
+      amount,
+      description,
+      memo: null,
+      bankCategory: read(values, "category") || null,
+      currency: currency || null,
+    });
+  });
+
+  return { lines, errors, warnings };
+};
+
+const parseOfx = (content: string): TParseResult => {
+  if (!ofxHelpers.isOfx(content)) {
+    throw new ApiError(400, "The file is not an OFX/QFX statement");
+  }
+
+  const statement = ofxHelpers.parseStatement(content);
+  const errors: TImportIssue[] = [];
+  const nextId = withOccurrence();
+  const account = statement.accountId || "";
+
+  if (!statement.transactions.length) {
+    throw new ApiError(400, "No transactions found in the statement");
+  }
+
+  const lines: TStatementLine[] = [];
+
+  statement.transactions.forEach((transaction, index) => {
+    if (!transaction.amount) {
+      errors.push({
+        line: index + 1,
+        message: "Transactions of 0 were skipped",
+      });
+      return;
+    }
+
+    const description = transaction.name || transaction.memo || "";
+
+    lines.push({
+      externalId: transaction.fitId
+        ? buildExternalId("ofx", account, transaction.fitId)
+        : nextId(
+            buildExternalId(
+              "ofx",
+              account,
+              transaction.date,
+              transaction.amount.toFixed(2),
+              description
+            )
+          ),
+      date: transaction.date,
+      amount: transaction.amount,
+      description,
+      memo:
+        transaction.memo && transaction.memo !== description
+          ? transaction.memo
+          : null,
+      bankCategory: null,
+      currency: statement.currency,
+    });
+  });
+
+  return { lines, errors, warnings: [] };
+};
+
+// Works out what an import would do without writing anything. Lines already
+// imported earlier (same bank id, or same date, amount and description) are
+// reported as duplicates.
+const previewImport = async (userId: string, payload: IStatementImport) => {
+  const { lines, errors, warnings } =
+    payload.format === "csv" ? parseCsv(payload) : parseOfx(payload.content);
+
+  const [rules, baseCurrency, existing] = await Promise.all([
+    CategoryRuleServices.getRules(userId),
+    getUserBaseCurrency(userId),
+    prisma.budget.findMany({
+      where: {
+        userId,
+        externalId: { in: lines.map((line) => line.externalId) },
+      },
+      select: { id: true, externalId: true },
+    }),
+  ]);
+  const existingByExternalId = new Map(
+    existing.map((budget) => [budget.externalId as string, budget.id])
+  );
+
+  const items = lines.map((line) => {
+    const type = line.amount < 0 ? BudgetType.EXPENSE : BudgetType.INCOME;
+    const { category, ruleId } = CategoryRuleServices.categorize(rules, {
+      description: [line.description, line.memo].filter(Boolean).join(" "),
+      type,
+      bankCategory: line.bankCategory,
+    });
+    const budgetId = existingByExternalId.get(line.externalId) ?? null;
+
+    return {
+      action: budgetId ? ("duplicate" as const) : ("create" as const),
+      budgetId,
+      externalId: line.externalId,
+      transaction: {
+        title: line.description || "Bank transaction",
+        amount: Math.abs(line.amount),
+        currency: currencyHelpers.normalizeCurrency(
+          line.currency || payload.currency || baseCurrency
+        ),
+        type,
+        category,
+        description: line.memo,
+        date: line.date,
+      },
+      ruleId,
+    };
+  });
+
+  return {
+    summary: {
+      total: items.length,
+      create: items.filter((item) => item.action === "create").length,
+      duplicate: items.filter((item) => item.action === "duplicate").length,
+      errors: errors.length,
+    },
+    items,
+    errors,
+    warnings,
+  };
+};
+
+// Applies the preview. Importing the same statement twice is a no-op, and
+// overlapping statements only add the lines not seen before.
+const importStatement = async (userId: string, payload: IStatementImport) => {
+  const [preview, timeZone] = await Promise.all([
+    previewImport(userId, payload),
+    getUserTimezone(userId),
+  ]);
+
+  const toCreate = preview.items.filter((item) => item.action === "create");
+
+  // Midday local time keeps the entry on its statement date
+  const result = await prisma.budget.createMany({
+    data: toCreate.map(({ externalId, transaction }) => ({
+      ...transaction,
+      date: timezoneHelpers.toInstant(transaction.date, "12:00", timeZone),
+      externalId,
+      userId,
+    })),
+    skipDuplicates: true,
+  });
+
+  if (toCreate.some((item) => item.transaction.type === BudgetType.EXPENSE)) {
+    await BudgetLimitServices.checkLimitAlerts(userId);
+  }
+
+  return {
+    created: result.count,
+    // Lines a concurrent import of the same statement got to first count as
+    // duplicates too
+    duplicates: preview.summary.duplicate + (toCreate.length - result.count),
+    errors: preview.errors,
+    warnings: preview.warnings,
+  };
+};
+
+// Presets a CSV import can name, for column-mapping pickers
+const getCsvPresets = () =>
+  Object.entries(STATEMENT_CSV_PRESETS).map(([name, preset]) => ({
+    name,
+    ...preset,
+  }));
+
+export const StatementImportServices = {
+  previewImport,
+  importStatement,
+  getCsvPresets,
+};
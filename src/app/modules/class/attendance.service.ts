@@ -0,0 +1,352 @@
+import { ClassAttendance } from "@prisma/client";
+import config from "../../../config";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { ClassServices } from "./class.service";
+import {
+  AttendanceStatus,
+  IAttendanceCheckIn,
+  IAttendanceFilters,
+  IAttendanceRecord,
+} from "./class.types";
+import {
+  addDays,
+  getLocalDateString,
+  timeToMinutes,
+  toDateString,
+} from "./class.utils";
+import { ClassOccurrenceServices } from "./occurrence.service";
+
+// How far ahead remaining classes are counted for open-ended semesters
+const MAX_REMAINING_DAYS = 366;
+
+const isAttended = (status: string) =>
+  status === AttendanceStatus.PRESENT || status === AttendanceStatus.LATE;
+
+const formatRecord = (record: ClassAttendance) => ({
+  ...record,
+  date: toDateString(record.date),
+});
+
+// Late counts as attended; excused classes are left out of the percentage.
+// `remaining` is the number of classes still to come this semester, when
+// known, so allowed absences cover the rest of the semester.
+const summarize = (
+  records: Pick<ClassAttendance, "status">[],
+  minimum: number,
+  remaining: number | null
+) => {
+  const counts = {
+    present: 0,
+    late: 0,
+    absent: 0,
+    excused: 0,
+  };
+
+  records.forEach((record) => {
+    const key = record.status.toLowerCase() as keyof typeof counts;
+    counts[key] += 1;
+  });
+
+  const attended = counts.present + counts.late;
+  const counted = attended + counts.absent;
+  const percentage = counted
+    ? Math.round((attended / counted) * 1000) / 10
+    : null;
+
+  // Absences that still keep attendance at or above the minimum. Without a
+  // semester end, each absence simply adds to the classes counted.
+  const ratio = minimum / 100;
+  const allowedAbsences =
+    minimum > 0
+      ? Math.max(
+          0,
+          Math.floor(
+            (remaining === null
+              ? attended / ratio - counted
+              : attended + remaining - ratio * (counted + remaining)) + 1e-9 // float noise, e.g. 3 / 0.75
+          )
+        )
+      : null;
+
+  let status: "ok" | "at_risk" | "below" = "ok";
+  let warning: string | null = null;
+
+  if (percentage !== null && percentage < minimum) {
+    status = "below";
+    warning = `Attendance is ${percentage}%, below the ${minimum}% minimum`;
+
+    if (remaining) {
+      const best =
+        Math.round(((attended + remaining) / (counted + remaining)) * 1000) /
+        10;
+      warning +=
+        best >= minimum
+          ? `; attend the remaining ${remaining} classes to get back above it`
+          : `; even attending all ${remaining} remaining classes only reaches ${best}%`;
+    }
+  } else if (percentage !== null && allowedAbsences === 0) {
+    status = "at_risk";
+    warning = `Attendance is ${percentage}%; one more absence takes it below the ${minimum}% minimum`;
+  }
+
+  return {
+    ...counts,
+    total: records.length,
+    percentage,
+    minimum,
+    remaining,
+    allowedAbsences,
+    status,
+    warning,
+  };
+};
+
+// Classes still to come this semester, per class; null when the class has
+// no semester end
+const countRemainingClasses = async (
+  userId: string,
+  classes: { id: string; semesterEnd: Date | null }[],
+  classId?: string
+) => {
+  const today = getLocalDateString(await getUserTimezone(userId));
+  const ends = classes
+    .filter((classItem) => classItem.semesterEnd)
+    .map((classItem) => toDateString(classItem.semesterEnd as Date));
+  const remaining = new Map<string, number | null>(
+    classes.map((classItem) => [classItem.id, classItem.semesterEnd ? 0 : null])
+  );
+
+  if (!ends.length) return remaining;
+
+  const lastEnd = ends.sort().pop() as string;
+  const until = [lastEnd, addDays(today, MAX_REMAINING_DAYS)].sort()[0];
+
+  if (until <= today) return remaining;
+
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    userId,
+    addDays(today, 1),
+    until,
+    { classId }
+  );
+
+  occurrences.forEach((occurrence) => {
+    const count = remaining.get(occurrence.classId);
+    if (count !== null && count !== undefined) {
+      remaining.set(occurrence.classId, count + 1);
+    }
+  });
+
+  return remaining;
+};
+
+// Records or corrects attendance for a class that took place on the date
+const recordAttendance = async (
+  userId: string,
+  classId: string,
+  payload: IAttendanceRecord
+) => {
+  await ClassServices.getClassById(userId, classId);
+
+  if (payload.date > getLocalDateString(await getUserTimezone(userId))) {
+    throw new ApiError(400, "Attendance cannot be recorded for a future date");
+  }
+
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    userId,
+    payload.date,
+    payload.date,
+    { classId }
+  );
+
+  if (!occurrences.length) {
+    throw new ApiError(400, "The class does not take place on this date");
+  }
+
+  const data = {
+    status: payload.status,
+    note: payload.note || null,
+  };
+
+  const record = await prisma.classAttendance.upsert({
+    where: { classId_date: { classId, date: new Date(payload.date) } },
+    create: { ...data, date: new Date(payload.date), classId, userId },
+    update: data,
+  });
+
+  return formatRecord(record);
+};
+
+// Marks the user present (or late) in the class running right now, as
+// listed by getTodaysClasses
+const checkIn = async (userId: string, payload: IAttendanceCheckIn) => {
+  const now = new Date();
+  const { date: today, minutes: currentMinutes } =
+    timezoneHelpers.getZonedParts(now, await getUserTimezone(userId));
+  const { check_in_early_minutes, late_after_minutes } = config.class;
+
+  const todaysClasses = await ClassServices.getTodaysClasses(userId);
+  const openClasses = todaysClasses.filter(
+    (occurrence) =>
+      (!payload.classId || occurrence.classId === payload.classId) &&
+      timeToMinutes(occurrence.startTime) - check_in_early_minutes <=
+        currentMinutes &&
+      currentMinutes <= timeToMinutes(occurrence.endTime)
+  );
+
+  // Back-to-back classes: the one that started most recently wins
+  const current = openClasses.pop();
+
+  if (!current) {
+    throw new ApiError(
+      404,
+      payload.classId
+        ? `Check-in for this class is open from ${check_in_early_minutes} minutes before it starts until it ends`
+        : "No class is running right now"
+    );
+  }
+
+  if (current.attendance) {
+    throw new ApiError(409, "Attendance for this class is already recorded");
+  }
+
+  const isLate =
+    currentMinutes > timeToMinutes(current.startTime) + late_after_minutes;
+
+  const record = await prisma.classAttendance.create({
+    data: {
+      date: new Date(today),
+      status: isLate ? AttendanceStatus.LATE : AttendanceStatus.PRESENT,
+      note: payload.note || null,
+      checkedInAt: now,
+      classId: current.classId,
+      userId,
+    },
+  });
+
+  return {
+    ...formatRecord(record),
+    class: {
+      id: current.classId,
+      subject: current.subject,
+      startTime: current.startTime,
+      endTime: current.endTime,
+      location: current.location,
+    },
+  };
+};
+
+const getAttendance = async (
+  userId: string,
+  classId: string,
+  filters: IAttendanceFilters
+) => {
+  const classItem = await ClassServices.getClassById(userId, classId);
+
+  const records = await prisma.classAttendance.findMany({
+    where: {
+      classId,
+      userId,
+      date: {
+        ...(filters.from && { gte: new Date(filters.from) }),
+        ...(filters.to && { lte: new Date(filters.to) }),
+      },
+    },
+    orderBy: { date: "desc" },
+  });
+
+  const remaining = await countRemainingClasses(userId, [classItem], classId);
+
+  return {
+    summary: summarize(
+      records,
+      classItem.minAttendance ?? config.class.min_attendance_percent,
+      remaining.get(classId) ?? null
+    ),
+    records: records.map(formatRecord),
+  };
+};
+
+const deleteAttendance = async (
+  userId: string,
+  classId: string,
+  attendanceId: string
+) => {
+  const record = await prisma.classAttendance.findFirst({
+    where: { id: attendanceId, classId, userId },
+  });
+
+  if (!record) {
+    throw new ApiError(404, "Attendance record not found");
+  }
+
+  await prisma.classAttendance.delete({ where: { id: attendanceId } });
+
+  return { message: "Attendance record deleted successfully" };
+};
+
+// Attendance percentage per class, with warnings for classes below or about
+// to drop below their minimum
+const getAttendanceSummary = async (userId: string) => {
+  const [classes, records] = await Promise.all([
+    prisma.class.findMany({
+      where: { userId },
+      orderBy: { subject: "asc" },
+    }),
+    prisma.classAttendance.findMany({
+      where: { userId },
+      select: { classId: true, status: true },
+    }),
+  ]);
+
+  const remaining = await countRemainingClasses(userId, classes);
+
+  const summaries = classes.map((classItem) => ({
+    classId: classItem.id,
+    subject: classItem.subject,
+    dayOfWeek: classItem.dayOfWeek,
+    startTime: classItem.startTime,
+    color: classItem.color,
+    ...summarize(
+      records.filter((record) => record.classId === classItem.id),
+      classItem.minAttendance ?? config.class.min_attendance_percent,
+      remaining.get(classItem.id) ?? null
+    ),
+  }));
+
+  const attended = records.filter((record) => isAttended(record.status));
+  const counted = records.filter(
+    (record) => record.status !== AttendanceStatus.EXCUSED
+  );
+
+  return {
+    overall: {
+      percentage: counted.length
+        ? Math.round((attended.length / counted.length) * 1000) / 10
+        : null,
+      atRisk: summaries.filter((summary) => summary.status === "at_risk")
+        .length,
+      below: summaries.filter((summary) => summary.status === "below").length,
+    },
+    classes: summaries,
+    warnings: summaries
+      .filter((summary) => summary.warning)
+      .map((summary) => ({
+        classId: summary.classId,
+        subject: summary.subject,
+        status: summary.status,
+        message: summary.warning,
+      })),
+  };
+};
+
+export const AttendanceServices = {
+  recordAttendance,
+  checkIn,
+  getAttendance,
+  deleteAttendance,
+  getAttendanceSummary,
+};
@@ -0,0 +1,296 @@
+import { Class, ClassException, Holiday } from "@prisma/client";
+import { icsHelpers, TIcsEvent } from "../../../helpers/icsHelpers";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { ClassExceptionType, ClassRecurrence, TDayOfWeek } from "./class.types";
+import {
+  addDays,
+  isDayOfWeek,
+  slotOccursOn,
+  TClassSlot,
+  toClassSlot,
+  toDateString,
+} from "./class.utils";
+
+type TClassWithExceptions = Class & { exceptions: ClassException[] };
+
+const ICAL_DAYS: Record<TDayOfWeek, string> = {
+  Monday: "MO",
+  Tuesday: "TU",
+  Wednesday: "WE",
+  Thursday: "TH",
+  Friday: "FR",
+  Saturday: "SA",
+  Sunday: "SU",
+};
+
+// Calendar apps poll the feed; don't write on every poll
+const LAST_ACCESSED_WRITE_INTERVAL_MS = 15 * 60 * 1000;
+
+const atTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      hours,
+      minutes
+    )
+  );
+};
+
+// First date on or after the semester start (or creation) on which the
+// class meets; biweekly classes may need to skip a week
+const getFirstOccurrence = (classItem: Class) => {
+  const slot = toClassSlot(classItem);
+  const from = toDateString(classItem.semesterStart || classItem.createdAt);
+
+  for (let offset = 0; offset < 14; offset++) {
+    const date = addDays(from, offset);
+    if (slotOccursOn(slot, date)) return new Date(date);
+  }
+
+  return null;
+};
+
+// Dates on which the regular meeting does not take place as scheduled:
+// every exception and every holiday the class would otherwise meet on
+const getChangedDates = (
+  classItem: TClassWithExceptions,
+  slot: TClassSlot,
+  holidays: Holiday[]
+) => {
+  const dates = new Set<string>();
+
+  classItem.exceptions.forEach((exception) => {
+    const date = toDateString(exception.date);
+    if (slotOccursOn(slot, date)) dates.add(date);
+  });
+
+  holidays.forEach((holiday) => {
+    const last = toDateString(holiday.endDate);
+
+    for (
+      let date = toDateString(holiday.startDate);
+      date <= last;
+      date = addDays(date, 1)
+    ) {
+      if (slot.semesterEnd && date > slot.semesterEnd) break;
+      if (slotOccursOn(slot, date)) dates.add(date);
+    }
+  });
+
+  return dates;
+};
+
+const toIcsEvents = (
+  classItem: TClassWithExceptions,
+  holidays: Holiday[],
+  timeZone: string
+): TIcsEvent[] => {
+  const details = [
+    classItem.instructor && `Instructor: ${classItem.instructor}`,
+    classItem.description,
+  ].filter(Boolean);
+
+  const event = {
+    uid: `class-${classItem.id}@student-toolkit`,
+    summary: classItem.subject,
+    location: classItem.location,
+    description: details.join("\n"),
+    lastModified: classItem.updatedAt,
+  };
+
+  const slot = toClassSlot(classItem);
+  const changedDates = getChangedDates(classItem, slot, holidays);
+  const dateUid = (date: string) =>
+    `class-${classItem.id}-${date.replace(/-/g, "")}@student-toolkit`;
+
+  // Moved meetings and room changes are published as single events in
+  // place of the original occurrence. Holidays win over room changes, as
+  // in the schedule.
+  const overrides: TIcsEvent[] = classItem.exceptions.flatMap((exception) => {
+    const originalDate = toDateString(exception.date);
+    const description = [event.description, exception.note]
+      .filter(Boolean)
+      .join("\n");
+
+    if (exception.type === ClassExceptionType.RESCHEDULED) {
+      const date = exception.newDate
+        ? toDateString(exception.newDate)
+        : originalDate;
+
+      return {
+        ...event,
+        uid: dateUid(originalDate),
+        description,
+        location: exception.newLocation || classItem.location,
+        start: atTime(
+          new Date(date),
+          exception.newStartTime || classItem.startTime
+        ),
+        end: atTime(new Date(date), exception.newEndTime || classItem.endTime),
+      };
+    }
+
+    const onHoliday = holidays.some(
+      (holiday) =>
+        toDateString(holiday.startDate) <= originalDate &&
+        originalDate <= toDateString(holiday.endDate)
+    );
+
+    if (
+      exception.type === ClassExceptionType.ROOM_CHANGED &&
+      !onHoliday &&
+      slotOccursOn(slot, originalDate)
+    ) {
+      return {
+        ...event,
+        uid: dateUid(originalDate),
+        description,
+        location: exception.newLocation,
+        start: atTime(new Date(originalDate), classItem.startTime),
+        end: atTime(new Date(originalDate), classItem.endTime),
+      };
+    }
+
+    return [];
+  });
+
+  // Classes on specific dates become one event per date
+  if (classItem.recurrence === ClassRecurrence.DATES) {
+    const events = slot.dates
+      .filter((date) => slotOccursOn(slot, date) && !changedDates.has(date))
+      .map((date) => ({
+        ...event,
+        uid: dateUid(date),
+        start: atTime(new Date(date), classItem.startTime),
+        end: atTime(new Date(date), classItem.endTime),
+      }));
+
+    return [...events, ...overrides];
+  }
+
+  const firstDate = getFirstOccurrence(classItem);
+  if (!firstDate || !isDayOfWeek(classItem.dayOfWeek)) return overrides;
+
+  let rrule = `FREQ=WEEKLY;${
+    classItem.recurrence === ClassRecurrence.BIWEEKLY ? "INTERVAL=2;" : ""
+  }BYDAY=${ICAL_DAYS[classItem.dayOfWeek]}`;
+
+  if (slot.semesterEnd) {
+    if (slot.semesterEnd < toDateString(firstDate)) return overrides;
+
+    // UNTIL has to be in UTC when DTSTART carries a time zone
+    const until = timezoneHelpers.toInstant(
+      slot.semesterEnd,
+      "23:59",
+      timeZone
+    );
+    rrule += `;UNTIL=${icsHelpers.formatUtcDateTime(until)}`;
+  }
+
+  return [
+    {
+      ...event,
+      start: atTime(firstDate, classItem.startTime),
+      end: atTime(firstDate, classItem.endTime),
+      rrule,
+      exdates: [...changedDates]
+        .sort()
+        .map((date) => atTime(new Date(date), classItem.startTime)),
+    },
+    ...overrides,
+  ];
+};
+
+// Issues a new feed URL token, replacing any previous one. The plain token
+// is only returned here.
+const createFeedToken = async (userId: string) => {
+  const token = tokenHelpers.generateRandomToken();
+  const tokenHash = tokenHelpers.hashToken(token);
+
+  const feed = await prisma.calendarFeedToken.upsert({
+    where: { userId },
+    create: { userId, tokenHash },
+    update: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+  });
+
+  return { token, createdAt: feed.createdAt };
+};
+
+const getFeedStatus = async (userId: string) => {
+  const feed = await prisma.calendarFeedToken.findUnique({
+    where: { userId },
+  });
+
+  return {
+    enabled: Boolean(feed),
+    createdAt: feed?.createdAt ?? null,
+    lastAccessedAt: feed?.lastAccessedAt ?? null,
+  };
+};
+
+const revokeFeedToken = async (userId: string) => {
+  const { count } = await prisma.calendarFeedToken.deleteMany({
+    where: { userId },
+  });
+
+  if (!count) {
+    throw new ApiError(404, "Calendar feed is not enabled");
+  }
+
+  return { message: "Calendar feed disabled" };
+};
+
+const renderFeed = async (token: string) => {
+  const feed = await prisma.calendarFeedToken.findUnique({
+    where: { tokenHash: tokenHelpers.hashToken(token) },
+  });
+
+  if (!feed) {
+    throw new ApiError(404, "Calendar feed not found");
+  }
+
+  if (
+    !feed.lastAccessedAt ||
+    Date.now() - feed.lastAccessedAt.getTime() > LAST_ACCESSED_WRITE_INTERVAL_MS
+  ) {
+    await prisma.calendarFeedToken.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+  }
+
+  const [classes, holidays, timeZone] = await Promise.all([
+    prisma.class.findMany({
+      where: { userId: feed.userId },
+      include: { exceptions: true },
+      orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
+    }),
+    prisma.holiday.findMany({
+      where: { OR: [{ userId: feed.userId }, { userId: null }] },
+    }),
+    getUserTimezone(feed.userId),
+  ]);
+
+  const events = classes.flatMap((classItem) =>
+    toIcsEvents(classItem, holidays, timeZone)
+  );
+
+  return icsHelpers.buildCalendar(
+    { name: "Class Timetable", refreshInterval: "PT1H", timeZone },
+    events
+  );
+};
+
+export const CalendarFeedServices = {
+  createFeedToken,
+  getFeedStatus,
+  revokeFeedToken,
+  renderFeed,
+};
@@ -0,0 +1,148 @@
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { ClassServices } from "./class.service";
+import { ClassExceptionType, IClassExceptionCreate } from "./class.types";
+import { timeToMinutes, toDateString } from "./class.utils";
+import { ClassOccurrenceServices } from "./occurrence.service";
+
+// Attendance is kept per class and date, so the meeting from one date
+// cannot end up on a date where another meeting of the class takes place,
+// whether regularly or because it was moved there
+const assertDateFree = async (
+  classItem: Awaited<ReturnType<typeof ClassServices.getClassById>>,
+  date: string,
+  from: string
+) => {
+  const exceptions = await prisma.classException.findMany({
+    where: { classId: classItem.id },
+  });
+
+  const movedAway = exceptions.some(
+    (exception) =>
+      toDateString(exception.date) === date &&
+      (exception.type === ClassExceptionType.CANCELLED ||
+        (exception.type === ClassExceptionType.RESCHEDULED &&
+          !!exception.newDate &&
+          toDateString(exception.newDate) !== date))
+  );
+  const movedHere = exceptions.some(
+    (exception) =>
+      exception.type === ClassExceptionType.RESCHEDULED &&
+      !!exception.newDate &&
+      toDateString(exception.newDate) === date &&
+      toDateString(exception.date) !== from
+  );
+  const meetsHere =
+    date !== from &&
+    ClassOccurrenceServices.occursOn(classItem, date) &&
+    !movedAway;
+
+  if (movedHere || meetsHere) {
+    throw new ApiError(
+      409,
+      "The class already meets on that date; move it to another day"
+    );
+  }
+};
+
+// One exception per occurrence; saving again for the same date replaces it
+const upsertException = async (
+  userId: string,
+  classId: string,
+  payload: IClassExceptionCreate
+) => {
+  const classItem = await ClassServices.getClassById(userId, classId);
+
+  if (!ClassOccurrenceServices.occursOn(classItem, payload.date)) {
+    throw new ApiError(400, "The class does not meet on this date");
+  }
+
+  if (
+    payload.type === ClassExceptionType.RESCHEDULED &&
+    !payload.newDate &&
+    !payload.newStartTime &&
+    !payload.newEndTime
+  ) {
+    throw new ApiError(400, "A rescheduled class needs a new date or time");
+  }
+
+  if (
+    payload.type === ClassExceptionType.ROOM_CHANGED &&
+    !payload.newLocation
+  ) {
+    throw new ApiError(400, "A room change needs the new location");
+  }
+
+  const startTime = payload.newStartTime || classItem.startTime;
+  const endTime = payload.newEndTime || classItem.endTime;
+
+  if (timeToMinutes(endTime) <= timeToMinutes(startTime)) {
+    throw new ApiError(400, "End time must be after start time");
+  }
+
+  const isRescheduled = payload.type === ClassExceptionType.RESCHEDULED;
+
+  if (payload.type !== ClassExceptionType.CANCELLED) {
+    await assertDateFree(
+      classItem,
+      (isRescheduled && payload.newDate) || payload.date,
+      payload.date
+    );
+  }
+
+  const data = {
+    type: payload.type,
+    newDate:
+      isRescheduled && payload.newDate ? new Date(payload.newDate) : null,
+    newStartTime: isRescheduled ? payload.newStartTime || null : null,
+    newEndTime: isRescheduled ? payload.newEndTime || null : null,
+    newLocation:
+      payload.type === ClassExceptionType.CANCELLED
+        ? null
+        : payload.newLocation || null,
+    note: payload.note || null,
+  };
+
+  const exception = await prisma.classException.upsert({
+    where: { classId_date: { classId, date: new Date(payload.date) } },
+    create: { ...data, date: new Date(payload.date), classId, userId },
+    update: data,
+  });
+
+  return exception;
+};
+
+const getExceptions = async (userId: string, classId: string) => {
+  await ClassServices.getClassById(userId, classId);
+
+  const exceptions = await prisma.classException.findMany({
+    where: { classId, userId },
+    orderBy: { date: "asc" },
+  });
+
+  return exceptions;
+};
+
+const deleteException = async (
+  userId: string,
+  classId: string,
+  exceptionId: string
+) => {
+  const exception = await prisma.classException.findFirst({
+    where: { id: exceptionId, classId, userId },
+  });
+
+  if (!exception) {
+    throw new ApiError(404, "Class exception not found");
+  }
+
+  await prisma.classException.delete({ where: { id: exceptionId } });
+
+  return { message: "Class exception deleted successfully" };
+};
+
+export const ClassExceptionServices = {
+  upsertException,
+  getExceptions,
+  deleteException,
+};
@@ -1,7 +1,12 @@
 import { Request, Response } from "express";
 import catchAsync from "../../shared/catchAsync";
 import sendResponse from "../../shared/sendResponse";
+import { AttendanceServices } from "./attendance.service";
+import { CalendarFeedServices } from "./calendar-feed.service";
+import { ClassExceptionServices } from "./class-exception.service";
 import { ClassServices } from "./class.service";
+import { HolidayServices } from "./holiday.service";
+import { TimetableImportServices } from "./timetable-import.service";
 import { IClassFilters } from "./class.types";
 
 const createClass = catchAsync(
@@ -12,7 +17,9 @@ const createClass = catchAsync(
     sendResponse(res, {
       statusCode: 201,
       success: true,
-      message: "Class created successfully",
+      message: result.conflicts.length
+        ? "Class created, but it overlaps other classes"
+        : "Class created successfully",
       data: result,
     });
   }
@@ -37,7 +44,11 @@ const getClasses = catchAsync(
 const getWeeklySchedule = catchAsync(
   async (req: Request & { user?: any }, res: Response) => {
     const userId = req.user.id;
-    const result = await ClassServices.getWeeklySchedule(userId);
+    const result = await ClassServices.getWeeklySchedule(
+      userId,
+      req.query.weekOf as string | undefined,
+      { includeCancelled: req.query.includeCancelled === "true" }
+    );
 
     sendResponse(res, {
       statusCode: 200,
@@ -74,7 +85,9 @@ const updateClass = catchAsync(
     sendResponse(res, {
       statusCode: 200,
       success: true,
-      message: "Class updated successfully",
+      message: result.conflicts.length
+        ? "Class updated, but it overlaps other classes"
+        : "Class updated successfully",
       data: result,
     });
   }
@@ -99,7 +112,9 @@ const deleteClass = catchAsync(
 const getTodaysClasses = catchAsync(
   async (req: Request & { user?: any }, res: Response) => {
     const userId = req.user.id;
-    const result = await ClassServices.getTodaysClasses(userId);
+    const result = await ClassServices.getTodaysClasses(userId, {
+      includeCancelled: req.query.includeCancelled === "true",
+    });
 
     sendResponse(res, {
       statusCode: 200,
@@ -124,6 +139,308 @@ const getUpcomingClasses = catchAsync(
   }
 );
 
+const getCalendarFeedUrl = (req: Request, token: string) =>
+  `${req.protocol}://${req.get("host")}${req.baseUrl}/calendar/${token}.ics`;
+
+const createCalendarFeed = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { token, createdAt } = await CalendarFeedServices.createFeedToken(
+      userId
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Calendar feed URL created successfully",
+      data: { url: getCalendarFeedUrl(req, token), createdAt },
+    });
+  }
+);
+
+const getCalendarFeedStatus = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await CalendarFeedServices.getFeedStatus(userId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Calendar feed status retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const revokeCalendarFeed = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await CalendarFeedServices.revokeFeedToken(userId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Calendar feed disabled successfully",
+      data: result,
+    });
+  }
+);
+
+// Public: calendar apps authenticate with the token in the URL
+const getCalendarFeed = catchAsync(async (req: Request, res: Response) => {
+  const calendar = await CalendarFeedServices.renderFeed(req.params.token);
+
+  res
+    .status(200)
+    .set({
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="classes.ics"',
+      "Cache-Control": "private, max-age=300",
+    })
+    .send(calendar);
+});
+
+const previewTimetableImport = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await TimetableImportServices.previewImport(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Timetable import preview generated successfully",
+      data: result,
+    });
+  }
+);
+
+const importTimetable = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await TimetableImportServices.importTimetable(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Timetable imported successfully",
+      data: result,
+    });
+  }
+);
+
+const getFreeSlots = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { from, to, minMinutes, workStart, workEnd } = req.query;
+
+    const result = await ClassServices.getFreeSlots(userId, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+      minMinutes: minMinutes ? Number(minMinutes) : undefined,
+      workStart: workStart as string | undefined,
+      workEnd: workEnd as string | undefined,
+    });
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Free slots retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const upsertClassException = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    const result = await ClassExceptionServices.upsertException(
+      userId,
+      id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Class exception saved successfully",
+      data: result,
+    });
+  }
+);
+
+const getClassExceptions = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    const result = await ClassExceptionServices.getExceptions(userId, id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Class exceptions retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteClassException = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id, exceptionId } = req.params;
+
+    const result = await ClassExceptionServices.deleteException(
+      userId,
+      id,
+      exceptionId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Class exception deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getHolidays = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await HolidayServices.getHolidays(userId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Holidays retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createHoliday = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await HolidayServices.createHoliday(req.user, req.body);
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Holiday created successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteHoliday = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const { holidayId } = req.params;
+
+    const result = await HolidayServices.deleteHoliday(req.user, holidayId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Holiday deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const checkIn = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await AttendanceServices.checkIn(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: `Checked in to ${result.class.subject}`,
+      data: result,
+    });
+  }
+);
+
+const getAttendanceSummary = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const result = await AttendanceServices.getAttendanceSummary(userId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Attendance summary retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const recordAttendance = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    const result = await AttendanceServices.recordAttendance(
+      userId,
+      id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Attendance recorded successfully",
+      data: result,
+    });
+  }
+);
+
+const getAttendance = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    const result = await AttendanceServices.getAttendance(userId, id, {
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+    });
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Attendance retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteAttendance = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { id, attendanceId } = req.params;
+
+    const result = await AttendanceServices.deleteAttendance(
+      userId,
+      id,
+      attendanceId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Attendance record deleted successfully",
+      data: result,
+    });
+  }
+);
+
 export const ClassControllers = {
   createClass,
   getClasses,
@@ -133,4 +450,22 @@ export const ClassControllers = {
   deleteClass,
   getTodaysClasses,
   getUpcomingClasses,
+  createCalendarFeed,
+  getCalendarFeedStatus,
+  revokeCalendarFeed,
+  getCalendarFeed,
+  previewTimetableImport,
+  importTimetable,
+  getFreeSlots,
+  upsertClassException,
+  getClassExceptions,
+  deleteClassException,
+  getHolidays,
+  createHoliday,
+  deleteHoliday,
+  checkIn,
+  getAttendanceSummary,
+  recordAttendance,
+  getAttendance,
+  deleteAttendance,
 };
@@ -3,11 +3,23 @@ import auth from "../../middleware/auth";
 import validateRequest from "../../middleware/validateRequest";
 import { ClassControllers } from "./class.controller";
 import {
+  attendanceParamsSchema,
+  calendarFeedSchema,
+  checkInSchema,
+  classExceptionParamsSchema,
   createClassSchema,
+  createHolidaySchema,
   deleteClassSchema,
   getClassesSchema,
+  getAttendanceSchema,
   getClassSchema,
+  getFreeSlotsSchema,
+  getScheduleSchema,
+  holidayParamsSchema,
+  importTimetableSchema,
+  recordAttendanceSchema,
   updateClassSchema,
+  upsertClassExceptionSchema,
 } from "./class.validation";
 
 const router = express.Router();
@@ -29,14 +41,84 @@ router.get(
 );
 
 // Get weekly schedule
-router.get("/schedule/weekly", auth(), ClassControllers.getWeeklySchedule);
+router.get(
+  "/schedule/weekly",
+  auth(),
+  validateRequest(getScheduleSchema),
+  ClassControllers.getWeeklySchedule
+);
 
 // Get today's classes
-router.get("/schedule/today", auth(), ClassControllers.getTodaysClasses);
+router.get(
+  "/schedule/today",
+  auth(),
+  validateRequest(getScheduleSchema),
+  ClassControllers.getTodaysClasses
+);
 
 // Get upcoming classes
 router.get("/schedule/upcoming", auth(), ClassControllers.getUpcomingClasses);
 
+// Free windows between classes for planning study sessions
+router.get(
+  "/schedule/free-slots",
+  auth(),
+  validateRequest(getFreeSlotsSchema),
+  ClassControllers.getFreeSlots
+);
+
+// Attendance: check in to the class running now, and per-class percentages
+router.post(
+  "/attendance/check-in",
+  auth(),
+  validateRequest(checkInSchema),
+  ClassControllers.checkIn
+);
+router.get(
+  "/attendance/summary",
+  auth(),
+  ClassControllers.getAttendanceSummary
+);
+
+// Holidays (personal, or institution-wide for admins)
+router.get("/holidays", auth(), ClassControllers.getHolidays);
+router.post(
+  "/holidays",
+  auth(),
+  validateRequest(createHolidaySchema),
+  ClassControllers.createHoliday
+);
+router.delete(
+  "/holidays/:holidayId",
+  auth(),
+  validateRequest(holidayParamsSchema),
+  ClassControllers.deleteHoliday
+);
+
+// Import classes from an ICS or CSV timetable
+router.post(
+  "/import/preview",
+  auth(),
+  validateRequest(importTimetableSchema),
+  ClassControllers.previewTimetableImport
+);
+router.post(
+  "/import",
+  auth(),
+  validateRequest(importTimetableSchema),
+  ClassControllers.importTimetable
+);
+
+// Calendar (ICS) subscription feed
+router.get("/calendar-feed", auth(), ClassControllers.getCalendarFeedStatus);
+router.post("/calendar-feed", auth(), ClassControllers.createCalendarFeed);
+router.delete("/calendar-feed", auth(), ClassControllers.revokeCalendarFeed);
+router.get(
+  "/calendar/:token.ics",
+  validateRequest(calendarFeedSchema),
+  ClassControllers.getCalendarFeed
+);
+
 // Get a specific class by ID
 router.get(
   "/:id",
@@ -53,6 +135,46 @@ router.patch(
   ClassControllers.updateClass
 );
 
+// Per-date exceptions: cancellations, reschedules and room changes
+router.get(
+  "/:id/exceptions",
+  auth(),
+  validateRequest(getClassSchema),
+  ClassControllers.getClassExceptions
+);
+router.put(
+  "/:id/exceptions",
+  auth(),
+  validateRequest(upsertClassExceptionSchema),
+  ClassControllers.upsertClassException
+);
+router.delete(
+  "/:id/exceptions/:exceptionId",
+  auth(),
+  validateRequest(classExceptionParamsSchema),
+  ClassControllers.deleteClassException
+);
+
+// Attendance for one class
+router.get(
+  "/:id/attendance",
+  auth(),
+  validateRequest(getAttendanceSchema),
+  ClassControllers.getAttendance
+);
+router.put(
+  "/:id/attendance",
+  auth(),
+  validateRequest(recordAttendanceSchema),
+  ClassControllers.recordAttendance
+);
+router.delete(
+  "/:id/attendance/:attendanceId",
+  auth(),
+  validateRequest(attendanceParamsSchema),
+  ClassControllers.deleteAttendance
+);
+
 // Delete a class
 router.delete(
   "/:id",
@@ -1,55 +1,199 @@
+import config from "../../../config";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
 import ApiError from "../../errors/ApiError";
 import prisma from "../../shared/prisma";
 import {
+  ClassRecurrence,
   DAYS_OF_WEEK,
+  IClassConflict,
   IClassCreate,
   IClassFilters,
+  IFreeSlot,
+  IFreeSlotQuery,
   IClassUpdate,
+  IOccurrenceOptions,
   IWeeklySchedule,
 } from "./class.types";
-
-const createClass = async (userId: string, payload: IClassCreate) => {
-  // Check for time conflicts
-  const existingClass = await prisma.class.findFirst({
+import {
+  addDays,
+  getLocalDateString,
+  getWeekdayOf,
+  getWeekStart,
+  matchSubject,
+  minutesToTime,
+  slotsOverlap,
+  TClassSlot,
+  timeToMinutes,
+  toClassSlot,
+  toDateString,
+  toOptionalDateString,
+} from "./class.utils";
+import { ClassOccurrenceServices } from "./occurrence.service";
+
+// "YYYY-MM-DD" to a Date; null clears the field and undefined leaves it alone
+const toDateField = (value?: string | null) =>
+  value === undefined ? undefined : value && new Date(value);
+
+// Other classes of the user that share a time slot with this one
+const findConflicts = async (
+  userId: string,
+  slot: TClassSlot,
+  excludeClassId?: string
+): Promise<IClassConflict[]> => {
+  // Classes on specific dates can clash with any weekday
+  const otherClasses = await prisma.class.findMany({
     where: {
       userId,
-      dayOfWeek: payload.dayOfWeek,
-      OR: [
-        {
-          AND: [
-            { startTime: { lte: payload.startTime } },
-            { endTime: { gt: payload.startTime } },
-          ],
-        },
-        {
-          AND: [
-            { startTime: { lt: payload.endTime } },
-            { endTime: { gte: payload.endTime } },
-          ],
-        },
-        {
-          AND: [
-            { startTime: { gte: payload.startTime } },
-            { endTime: { lte: payload.endTime } },
-          ],
-        },
-      ],
+      ...(excludeClassId && { id: { not: excludeClassId } }),
     },
+    orderBy: { startTime: "asc" },
+  });
+
+  return otherClasses
+    .filter((classItem) => slotsOverlap(slot, toClassSlot(classItem)))
+    .map((classItem) => ({
+      classId: classItem.id,
+      subject: classItem.subject,
+      dayOfWeek: classItem.dayOfWeek,
+      startTime: classItem.startTime,
+      endTime: classItem.endTime,
+    }));
+};
+
+// Rejects overlapping classes, or lets them through and reports them when
+// CLASS_OVERLAP_POLICY is "warn"
+const checkConflicts = async (
+  userId: string,
+  slot: TClassSlot,
+  excludeClassId?: string
+) => {
+  const conflicts = await findConflicts(userId, slot, excludeClassId);
+
+  if (conflicts.length && config.class.overlap_policy !== "warn") {
+    const [first] = conflicts;
+    throw new ApiError(
+      400,
+      `Time conflict with existing class: ${first.subject} (${first.dayOfWeek} ${first.startTime}-${first.endTime})`
+    );
+  }
+
+  return conflicts;
+};
+
+// Subjects a class name can be matched against
+const getMatchableSubjects = (userId: string) =>
+  prisma.subject.findMany({
+    where: { userId, isArchived: false },
+    select: { id: true, name: true, code: true, color: true },
+  });
+
+// An explicit subjectId must be one of the user's subjects; without one the
+// class name is matched against subject names and codes
+const resolveSubject = async (
+  userId: string,
+  className: string,
+  subjectId?: string
+) => {
+  if (!subjectId) {
+    return matchSubject(await getMatchableSubjects(userId), className);
+  }
+
+  const subject = await prisma.subject.findFirst({
+    where: { id: subjectId, userId },
+    select: { id: true, name: true, code: true, color: true },
   });
 
-  if (existingClass) {
-    throw new ApiError(400, "Time conflict with existing class");
+  if (!subject) {
+    throw new ApiError(404, "Subject not found");
+  }
+
+  return subject;
+};
+
+// Recurrence fields as stored. Biweekly classes count weeks from the anchor,
+// which defaults to the start date (or the user's today); classes on specific dates take their
+// weekday from the first date.
+const resolveRecurrence = (fields: {
+  recurrence: ClassRecurrence;
+  dayOfWeek?: string;
+  anchorDate?: string | null;
+  dates?: string[];
+  semesterStart?: string | null;
+  today: string;
+}) => {
+  if (fields.recurrence === ClassRecurrence.DATES) {
+    const dates = Array.from(new Set(fields.dates || [])).sort();
+
+    if (!dates.length) {
+      throw new ApiError(
+        400,
+        "A class on specific dates needs at least one date"
+      );
+    }
+
+    return {
+      recurrence: fields.recurrence,
+      dayOfWeek: getWeekdayOf(dates[0]),
+      anchorDate: null,
+      dates,
+    };
+  }
+
+  if (!fields.dayOfWeek) {
+    throw new ApiError(400, "Day of week is required");
   }
 
+  return {
+    recurrence: fields.recurrence,
+    dayOfWeek: fields.dayOfWeek,
+    anchorDate:
+      fields.recurrence === ClassRecurrence.BIWEEKLY
+        ? fields.anchorDate || fields.semesterStart || fields.today
+        : null,
+    dates: [] as string[],
+  };
+};
+
+const createClass = async (userId: string, payload: IClassCreate) => {
+  const recurrence = resolveRecurrence({
+    recurrence: payload.recurrence || ClassRecurrence.WEEKLY,
+    dayOfWeek: payload.dayOfWeek,
+    anchorDate: payload.anchorDate,
+    dates: payload.dates,
+    semesterStart: payload.semesterStart,
+    today: getLocalDateString(await getUserTimezone(userId)),
+  });
+
+  const conflicts = await checkConflicts(userId, {
+    ...recurrence,
+    startTime: payload.startTime,
+    endTime: payload.endTime,
+    semesterStart: payload.semesterStart || null,
+    semesterEnd: payload.semesterEnd || null,
+  });
+
+  const subject = await resolveSubject(
+    userId,
+    payload.subject,
+    payload.subjectId
+  );
+
   const newClass = await prisma.class.create({
     data: {
       ...payload,
       userId,
-      color: payload.color || "#3B82F6",
+      subjectId: subject?.id ?? null,
+      color: payload.color || subject?.color || "#3B82F6",
+      semesterStart: toDateField(payload.semesterStart),
+      semesterEnd: toDateField(payload.semesterEnd),
+      ...recurrence,
+      anchorDate: toDateField(recurrence.anchorDate),
+      dates: recurrence.dates.map((date) => new Date(date)),
     },
   });
 
-  return newClass;
+  return { ...newClass, conflicts };
 };
 
 const getClasses = async (userId: string, filters: IClassFilters) => {
@@ -66,19 +210,39 @@ const getClasses = async (userId: string, filters: IClassFilters) => {
     };
   }
 
+  if (filters.subjectId) {
+    where.subjectId = filters.subjectId;
+  }
+
   const classes = await prisma.class.findMany({
     where,
+    include: {
+      linkedSubject: {
+        select: { id: true, name: true, code: true, color: true },
+      },
+    },
     orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
   });
 
   return classes;
 };
 
-const getWeeklySchedule = async (userId: string) => {
-  const classes = await prisma.class.findMany({
-    where: { userId },
-    orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
-  });
+// Occurrences for one week (Monday to Sunday) grouped by day, with
+// exceptions and holidays applied. Defaults to the current week.
+const getWeeklySchedule = async (
+  userId: string,
+  weekOf?: string,
+  options: IOccurrenceOptions = {}
+) => {
+  const weekStart = getWeekStart(
+    weekOf || getLocalDateString(await getUserTimezone(userId))
+  );
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    userId,
+    weekStart,
+    addDays(weekStart, 6),
+    options
+  );
 
   const weeklySchedule: IWeeklySchedule = {};
 
@@ -87,9 +251,9 @@ const getWeeklySchedule = async (userId: string) => {
     weeklySchedule[day] = [];
   });
 
-  // Group classes by day
-  classes.forEach((classItem) => {
-    weeklySchedule[classItem.dayOfWeek].push(classItem);
+  // Group occurrences by the day they actually take place
+  occurrences.forEach((occurrence) => {
+    weeklySchedule[getWeekdayOf(occurrence.date)].push(occurrence);
   });
 
   return weeklySchedule;
@@ -117,51 +281,81 @@ const updateClass = async (
 ) => {
   const existingClass = await getClassById(userId, classId);
 
-  // Check for time conflicts if time or day is being updated
-  if (payload.startTime || payload.endTime || payload.dayOfWeek) {
-    const updatedStartTime = payload.startTime || existingClass.startTime;
-    const updatedEndTime = payload.endTime || existingClass.endTime;
-    const updatedDayOfWeek = payload.dayOfWeek || existingClass.dayOfWeek;
-
-    const conflictingClass = await prisma.class.findFirst({
-      where: {
-        userId,
-        id: { not: classId },
-        dayOfWeek: updatedDayOfWeek,
-        OR: [
-          {
-            AND: [
-              { startTime: { lte: updatedStartTime } },
-              { endTime: { gt: updatedStartTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { lt: updatedEndTime } },
-              { endTime: { gte: updatedEndTime } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { gte: updatedStartTime } },
-              { endTime: { lte: updatedEndTime } },
-            ],
-          },
-        ],
+  const semesterStart =
+    payload.semesterStart !== undefined
+      ? payload.semesterStart
+      : toOptionalDateString(existingClass.semesterStart);
+  const semesterEnd =
+    payload.semesterEnd !== undefined
+      ? payload.semesterEnd
+      : toOptionalDateString(existingClass.semesterEnd);
+
+  const recurrence = resolveRecurrence({
+    recurrence:
+      payload.recurrence || (existingClass.recurrence as ClassRecurrence),
+    dayOfWeek: payload.dayOfWeek || existingClass.dayOfWeek,
+    anchorDate:
+      payload.anchorDate !== undefined
+        ? payload.anchorDate
+        : toOptionalDateString(existingClass.anchorDate),
+    dates: payload.dates || existingClass.dates.map(toDateString),
+    semesterStart,
+    today: getLocalDateString(await getUserTimezone(userId)),
+  });
+
+  let conflicts: IClassConflict[] = [];
+
+  // Check for time conflicts if the slot, recurrence or semester is updated
+  if (
+    payload.startTime ||
+    payload.endTime ||
+    payload.dayOfWeek ||
+    payload.recurrence ||
+    payload.anchorDate !== undefined ||
+    payload.dates ||
+    payload.semesterStart !== undefined ||
+    payload.semesterEnd !== undefined
+  ) {
+    conflicts = await checkConflicts(
+      userId,
+      {
+        ...recurrence,
+        startTime: payload.startTime || existingClass.startTime,
+        endTime: payload.endTime || existingClass.endTime,
+        semesterStart,
+        semesterEnd,
       },
-    });
+      classId
+    );
+  }
 
-    if (conflictingClass) {
-      throw new ApiError(400, "Time conflict with existing class");
-    }
+  // Link to a subject when asked to, or when an unlinked class is renamed
+  let subjectId = payload.subjectId;
+  if (subjectId) {
+    subjectId = (await resolveSubject(userId, existingClass.subject, subjectId))
+      ?.id;
+  } else if (
+    subjectId === undefined &&
+    payload.subject &&
+    !existingClass.subjectId
+  ) {
+    subjectId = (await resolveSubject(userId, payload.subject))?.id;
   }
 
   const updatedClass = await prisma.class.update({
     where: { id: classId },
-    data: payload,
+    data: {
+      ...payload,
+      subjectId,
+      semesterStart: toDateField(payload.semesterStart),
+      semesterEnd: toDateField(payload.semesterEnd),
+      ...recurrence,
+      anchorDate: toDateField(recurrence.anchorDate),
+      dates: recurrence.dates.map((date) => new Date(date)),
+    },
   });
 
-  return updatedClass;
+  return { ...updatedClass, conflicts };
 };
 
 const deleteClass = async (userId: string, classId: string) => {
@@ -174,72 +368,136 @@ const deleteClass = async (userId: string, classId: string) => {
   return { message: "Class deleted successfully" };
 };
 
-const getTodaysClasses = async (userId: string) => {
-  const today = new Date();
-  const dayNames = [
-    "Sunday",
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-  ];
-  const todayName = dayNames[today.getDay()];
-
-  const todaysClasses = await prisma.class.findMany({
-    where: {
-      userId,
-      dayOfWeek: todayName,
-    },
-    orderBy: { startTime: "asc" },
-  });
-
-  return todaysClasses;
+const getTodaysClasses = async (
+  userId: string,
+  options: IOccurrenceOptions = {}
+) => {
+  const today = getLocalDateString(await getUserTimezone(userId));
+
+  const [todaysClasses, attendance] = await Promise.all([
+    ClassOccurrenceServices.getOccurrences(userId, today, today, options),
+    prisma.classAttendance.findMany({
+      where: { userId, date: new Date(today) },
+    }),
+  ]);
+
+  // Attendance status already recorded today, null until checked in
+  return todaysClasses.map((occurrence) => ({
+    ...occurrence,
+    attendance:
+      attendance.find((record) => record.classId === occurrence.classId)
+        ?.status ?? null,
+  }));
 };
 
+// How far ahead to look for the next classes
+const UPCOMING_LOOKAHEAD_DAYS = 14;
+
 const getUpcomingClasses = async (userId: string) => {
-  const today = new Date();
-  const currentTime = today.toTimeString().slice(0, 5); // HH:MM format
-  const dayNames = [
-    "Sunday",
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-  ];
-  const todayName = dayNames[today.getDay()];
-
-  // Get today's remaining classes
-  const todaysRemainingClasses = await prisma.class.findMany({
-    where: {
-      userId,
-      dayOfWeek: todayName,
-      startTime: { gte: currentTime },
-    },
-    orderBy: { startTime: "asc" },
-    take: 3,
-  });
+  const { date: today, time: currentTime } = timezoneHelpers.getZonedParts(
+    new Date(),
+    await getUserTimezone(userId)
+  );
+
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    userId,
+    today,
+    addDays(today, UPCOMING_LOOKAHEAD_DAYS)
+  );
+
+  return occurrences
+    .filter(
+      (occurrence) =>
+        occurrence.date > today || occurrence.startTime >= currentTime
+    )
+    .slice(0, 3);
+};
 
-  // If we need more classes, get from upcoming days
-  if (todaysRemainingClasses.length < 3) {
-    const remainingCount = 3 - todaysRemainingClasses.length;
+// Gaps of at least minMinutes between class meetings within working hours,
+// for each day in the range. Holidays and cancelled classes count as free.
+const MAX_FREE_SLOT_RANGE_DAYS = 62;
+
+const getFreeSlots = async (userId: string, query: IFreeSlotQuery) => {
+  const { date: today, minutes: currentMinutes } =
+    timezoneHelpers.getZonedParts(new Date(), await getUserTimezone(userId));
+  const from = query.from || today;
+  const to = query.to || addDays(from, 6);
+  const minMinutes = query.minMinutes ?? config.class.min_free_slot_minutes;
+  const workStart = timeToMinutes(
+    query.workStart || config.class.working_hours_start
+  );
+  const workEnd = timeToMinutes(
+    query.workEnd || config.class.working_hours_end
+  );
+
+  if (to < from) {
+    throw new ApiError(400, "The end date must not be before the start date");
+  }
 
-    const upcomingDaysClasses = await prisma.class.findMany({
-      where: {
-        userId,
-        dayOfWeek: { not: todayName },
-      },
-      orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
-      take: remainingCount,
-    });
+  if (addDays(from, MAX_FREE_SLOT_RANGE_DAYS) < to) {
+    throw new ApiError(
+      400,
+      `The date range cannot exceed ${MAX_FREE_SLOT_RANGE_DAYS} days`
+    );
+  }
 
-    return [...todaysRemainingClasses, ...upcomingDaysClasses];
+  if (workEnd <= workStart) {
+    throw new ApiError(400, "Working hours must end after they start");
   }
 
-  return todaysRemainingClasses;
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    userId,
+    from,
+    to
+  );
+  const slots: IFreeSlot[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (date < today) continue;
+
+    let cursor =
+      date === today ? Math.max(workStart, currentMinutes) : workStart;
+    const busy = occurrences
+      .filter((occurrence) => occurrence.date === date)
+      .map((occurrence) => ({
+        start: timeToMinutes(occurrence.startTime),
+        end: timeToMinutes(occurrence.endTime),
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    // Walk the busy blocks in order; working-hours end closes the last gap
+
+    [...busy, { start: workEnd, end: workEnd }].forEach(({ start, end }) => {
+      const gapEnd = Math.min(start, workEnd);
+
+      if (gapEnd - cursor >= minMinutes) {
+        slots.push({
+          date,
+          dayOfWeek: getWeekdayOf(date),
+          startTime: minutesToTime(cursor),
+          endTime: minutesToTime(gapEnd),
+          durationMinutes: gapEnd - cursor,
+        });
+      }
+
+      cursor = Math.max(cursor, end);
+    });
+  }
+
+  return {
+    from,
+    to,
+    minMinutes,
+    workingHours: {
+      start: minutesToTime(workStart),
+      end: minutesToTime(workEnd),
+    },
+    totalFreeMinutes: slots.reduce(
+      (total, slot) => total + slot.durationMinutes,
+      0
+    ),
+    slots,
+  };
 };
 
 export const ClassServices = {
@@ -251,4 +509,5 @@ export const ClassServices = {
   deleteClass,
   getTodaysClasses,
   getUpcomingClasses,
+  getFreeSlots,
 };
@@ -1,3 +1,11 @@
+// WEEKLY and BIWEEKLY meet on dayOfWeek; BIWEEKLY only in weeks an even
+// number of weeks away from anchorDate. DATES meets on the listed dates.
+export enum ClassRecurrence {
+  WEEKLY = "WEEKLY",
+  BIWEEKLY = "BIWEEKLY",
+  DATES = "DATES",
+}
+
 export interface IClass {
   id?: string;
   subject: string;
@@ -8,6 +16,14 @@ export interface IClass {
   location?: string | null;
   color?: string;
   description?: string | null;
+  semesterStart?: Date | null;
+  semesterEnd?: Date | null;
+  recurrence?: string;
+  anchorDate?: Date | null;
+  dates?: Date[];
+  minAttendance?: number | null;
+  externalId?: string | null;
+  subjectId?: string | null;
   userId: string;
   createdAt?: Date;
   updatedAt?: Date;
@@ -16,12 +32,19 @@ export interface IClass {
 export interface IClassCreate {
   subject: string;
   instructor?: string;
-  dayOfWeek: string;
+  dayOfWeek?: string; // required unless recurrence is DATES
   startTime: string;
   endTime: string;
   location?: string;
   color?: string;
   description?: string;
+  semesterStart?: string; // YYYY-MM-DD
+  semesterEnd?: string;
+  recurrence?: ClassRecurrence; // defaults to WEEKLY
+  anchorDate?: string; // a date in a week a BIWEEKLY class meets
+  dates?: string[]; // YYYY-MM-DD, for DATES
+  minAttendance?: number; // percent, overrides CLASS_MIN_ATTENDANCE_PERCENT
+  subjectId?: string; // matched by name or code when left out
 }
 
 export interface IClassUpdate {
@@ -33,17 +56,125 @@ export interface IClassUpdate {
   location?: string;
   color?: string;
   description?: string;
+  semesterStart?: string | null;
+  semesterEnd?: string | null;
+  recurrence?: ClassRecurrence;
+  anchorDate?: string | null;
+  dates?: string[];
+  minAttendance?: number | null;
+  subjectId?: string | null;
 }
 
 export interface IClassFilters {
   dayOfWeek?: string;
   subject?: string;
+  subjectId?: string;
   startDate?: string;
   endDate?: string;
 }
 
+export enum ClassExceptionType {
+  CANCELLED = "CANCELLED",
+  RESCHEDULED = "RESCHEDULED",
+  ROOM_CHANGED = "ROOM_CHANGED",
+}
+
+// "moved" marks the original slot of a rescheduled occurrence
+export type TOccurrenceStatus =
+  | "scheduled"
+  | "cancelled"
+  | "rescheduled"
+  | "moved"
+  | "room_changed"
+  | "holiday";
+
+// One meeting of a class on a concrete date, with exceptions and holidays
+// applied. `id` stays the class id so existing clients keep working.
+export interface IClassOccurrence extends IClass {
+  classId: string;
+  date: string; // YYYY-MM-DD
+  originalDate: string;
+  status: TOccurrenceStatus;
+  exceptionId: string | null;
+  note: string | null;
+  holiday: string | null;
+}
+
+export interface IOccurrenceOptions {
+  includeCancelled?: boolean;
+  classId?: string; // only this class
+  subjectId?: string; // only classes linked to this subject
+}
+
+// An existing class that shares a time slot with the one being saved
+export interface IClassConflict {
+  classId: string;
+  subject: string;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface IFreeSlotQuery {
+  from?: string; // YYYY-MM-DD, defaults to today
+  to?: string; // defaults to six days after from
+  minMinutes?: number;
+  workStart?: string; // HH:MM
+  workEnd?: string;
+}
+
+export interface IFreeSlot {
+  date: string;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+}
+
+export interface IClassExceptionCreate {
+  date: string; // YYYY-MM-DD of the regular occurrence
+  type: ClassExceptionType;
+  newDate?: string;
+  newStartTime?: string;
+  newEndTime?: string;
+  newLocation?: string;
+  note?: string;
+}
+
+export enum AttendanceStatus {
+  PRESENT = "PRESENT",
+  ABSENT = "ABSENT",
+  LATE = "LATE",
+  EXCUSED = "EXCUSED",
+}
+
+export interface IAttendanceRecord {
+  date: string; // YYYY-MM-DD the class actually took place
+  status: AttendanceStatus;
+  note?: string;
+}
+
+export interface IAttendanceCheckIn {
+  classId?: string; // defaults to the class running now
+  note?: string;
+}
+
+export interface IAttendanceFilters {
+  from?: string;
+  to?: string;
+}
+
+export const HOLIDAY_SCOPES = ["personal", "institution"] as const;
+
+export interface IHolidayCreate {
+  name: string;
+  startDate: string;
+  endDate: string;
+  scope?: (typeof HOLIDAY_SCOPES)[number];
+}
+
 export interface IWeeklySchedule {
-  [key: string]: IClass[]; // key is day of week
+  [key: string]: IClassOccurrence[]; // key is day of week
 }
 
 export const DAYS_OF_WEEK = [
@@ -56,6 +187,30 @@ export const DAYS_OF_WEEK = [
   "Sunday",
 ] as const;
 
+export type TDayOfWeek = (typeof DAYS_OF_WEEK)[number];
+
+export const TIMETABLE_IMPORT_FORMATS = ["ics", "csv"] as const;
+
+// Class fields a CSV column can be mapped to. Either dayOfWeek or date
+// (one row per meeting) is needed.
+export const CSV_IMPORT_FIELDS = [
+  "subject",
+  "dayOfWeek",
+  "date",
+  "startTime",
+  "endTime",
+  "location",
+  "instructor",
+  "description",
+] as const;
+
+export interface ITimetableImport {
+  format: (typeof TIMETABLE_IMPORT_FORMATS)[number];
+  content: string;
+  mapping?: Partial<Record<(typeof CSV_IMPORT_FIELDS)[number], string>>;
+  allowConflicts?: boolean;
+}
+
 export const DEFAULT_COLORS = [
   "#3B82F6", // Blue
   "#EF4444", // Red
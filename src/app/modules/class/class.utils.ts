@@ -0,0 +1,164 @@
+import { Class } from "@prisma/client";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { ClassRecurrence, DAYS_OF_WEEK, TDayOfWeek } from "./class.types";
+
+// Class dates are handled as "YYYY-MM-DD" strings; DateTime columns hold
+// them as UTC midnight.
+
+export const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+export const toOptionalDateString = (date: Date | null | undefined) =>
+  date ? toDateString(date) : null;
+
+// Today's date in the user's time zone; the server clock is UTC in production
+export const getLocalDateString = (timeZone: string, date = new Date()) =>
+  timezoneHelpers.getLocalDate(timeZone, date);
+
+export const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+export const isDayOfWeek = (value: string): value is TDayOfWeek =>
+  (DAYS_OF_WEEK as readonly string[]).includes(value);
+
+export const getWeekdayOf = (date: string) =>
+  DAYS_OF_WEEK[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+
+// Monday of the week containing the date
+export const getWeekStart = (date: string) =>
+  addDays(date, -DAYS_OF_WEEK.indexOf(getWeekdayOf(date)));
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+export type TClassSlot = {
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  semesterStart: string | null; // YYYY-MM-DD, null when open-ended
+  semesterEnd: string | null;
+  recurrence: string;
+  anchorDate: string | null;
+  dates: string[];
+};
+
+export const toClassSlot = (classItem: Class): TClassSlot => ({
+  dayOfWeek: classItem.dayOfWeek,
+  startTime: classItem.startTime,
+  endTime: classItem.endTime,
+  semesterStart: toOptionalDateString(classItem.semesterStart),
+  semesterEnd: toOptionalDateString(classItem.semesterEnd),
+  recurrence: classItem.recurrence,
+  anchorDate: toOptionalDateString(classItem.anchorDate),
+  dates: classItem.dates.map(toDateString),
+});
+
+const weeksBetween = (a: string, b: string) =>
+  Math.round(
+    (Date.parse(getWeekStart(a)) - Date.parse(getWeekStart(b))) /
+      (7 * 24 * 60 * 60 * 1000)
+  );
+
+// Whether the class meets on this date, before exceptions and holidays
+export const slotOccursOn = (slot: TClassSlot, date: string) => {
+  if (slot.semesterStart && date < slot.semesterStart) return false;
+  if (slot.semesterEnd && date > slot.semesterEnd) return false;
+
+  if (slot.recurrence === ClassRecurrence.DATES) {
+    return slot.dates.includes(date);
+  }
+
+  if (getWeekdayOf(date) !== slot.dayOfWeek) return false;
+
+  return (
+    slot.recurrence !== ClassRecurrence.BIWEEKLY ||
+    !slot.anchorDate ||
+    weeksBetween(date, slot.anchorDate) % 2 === 0
+  );
+};
+
+// Overlapping times on at least one date both classes meet
+export const slotsOverlap = (a: TClassSlot, b: TClassSlot) => {
+  if (
+    timeToMinutes(a.startTime) >= timeToMinutes(b.endTime) ||
+    timeToMinutes(b.startTime) >= timeToMinutes(a.endTime)
+  ) {
+    return false;
+  }
+
+  // A class on specific dates only clashes on those dates
+  const dated = [a, b].find(
+    (slot) => slot.recurrence === ClassRecurrence.DATES
+  );
+  if (dated) {
+    return dated.dates.some(
+      (date) => slotOccursOn(a, date) && slotOccursOn(b, date)
+    );
+  }
+
+  const alternate =
+    a.recurrence === ClassRecurrence.BIWEEKLY &&
+    b.recurrence === ClassRecurrence.BIWEEKLY &&
+    a.anchorDate &&
+    b.anchorDate &&
+    weeksBetween(a.anchorDate, b.anchorDate) % 2 !== 0;
+
+  return (
+    a.dayOfWeek === b.dayOfWeek &&
+    !alternate &&
+    (!a.semesterEnd || !b.semesterStart || b.semesterStart <= a.semesterEnd) &&
+    (!b.semesterEnd || !a.semesterStart || a.semesterStart <= b.semesterEnd)
+  );
+};
+
+type TSubjectCandidate = { id: string; name: string; code: string | null };
+
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const compact = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Finds the subject a free-text class name refers to: exact name, exact
+// code, a code at the start or end ("CS101 Algorithms", "Algorithms
+// (CS 101)"), or the name followed by a suffix ("Algorithms Lecture")
+export const matchSubject = <T extends TSubjectCandidate>(
+  subjects: T[],
+  text: string
+): T | null => {
+  const name = normalizeName(text);
+  const compactText = compact(text);
+
+  // Codes shorter than three characters match too much by accident
+  const codeOf = (subject: T) => {
+    const code = subject.code ? compact(subject.code) : "";
+    return code.length >= 3 ? code : null;
+  };
+
+  return (
+    subjects.find((subject) => normalizeName(subject.name) === name) ||
+    subjects.find((subject) => codeOf(subject) === compactText) ||
+    subjects.find((subject) => {
+      const code = codeOf(subject);
+      return (
+        !!code && (compactText.startsWith(code) || compactText.endsWith(code))
+      );
+    }) ||
+    subjects
+      .filter((subject) => name.startsWith(`${normalizeName(subject.name)} `))
+      .sort((a, b) => b.name.length - a.name.length)[0] ||
+    null
+  );
+};
@@ -1,9 +1,20 @@
 import { z } from "zod";
-import { DAYS_OF_WEEK } from "./class.types";
+import {
+  AttendanceStatus,
+  ClassExceptionType,
+  ClassRecurrence,
+  CSV_IMPORT_FIELDS,
+  DAYS_OF_WEEK,
+  HOLIDAY_SCOPES,
+  TIMETABLE_IMPORT_FORMATS,
+} from "./class.types";
 
 // Time validation regex (HH:MM format)
 const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
 
+// Date validation regex (YYYY-MM-DD format)
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
 // Hex color validation regex
 const hexColorRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
 
@@ -18,10 +29,11 @@ export const createClassSchema = z.object({
 
       instructor: z.string().optional(),
 
-      dayOfWeek: z.enum(DAYS_OF_WEEK, {
-        required_error: "Day of week is required",
-        invalid_type_error: "Invalid day of week",
-      }),
+      dayOfWeek: z
+        .enum(DAYS_OF_WEEK, {
+          invalid_type_error: "Invalid day of week",
+        })
+        .optional(),
 
       startTime: z
         .string({
@@ -43,6 +55,34 @@ export const createClassSchema = z.object({
         .optional(),
 
       description: z.string().optional(),
+
+      semesterStart: z
+        .string()
+        .regex(dateRegex, "Semester start must be in YYYY-MM-DD format")
+        .optional(),
+
+      semesterEnd: z
+        .string()
+        .regex(dateRegex, "Semester end must be in YYYY-MM-DD format")
+        .optional(),
+
+      recurrence: z.nativeEnum(ClassRecurrence).optional(),
+
+      anchorDate: z
+        .string()
+        .regex(dateRegex, "Anchor date must be in YYYY-MM-DD format")
+        .optional(),
+
+      dates: z
+        .array(
+          z.string().regex(dateRegex, "Dates must be in YYYY-MM-DD format")
+        )
+        .max(366, "At most 366 dates are allowed")
+        .optional(),
+
+      minAttendance: z.number().int().min(0).max(100).optional(),
+
+      subjectId: z.string().optional(),
     })
     .refine(
       (data) => {
@@ -59,6 +99,29 @@ export const createClassSchema = z.object({
         message: "End time must be after start time",
         path: ["endTime"],
       }
+    )
+    .refine(
+      (data) =>
+        !data.semesterStart ||
+        !data.semesterEnd ||
+        data.semesterStart <= data.semesterEnd,
+      {
+        message: "Semester end must not be before semester start",
+        path: ["semesterEnd"],
+      }
+    )
+    .refine(
+      (data) =>
+        data.recurrence === ClassRecurrence.DATES
+          ? !!data.dates?.length
+          : !!data.dayOfWeek,
+      (data) =>
+        data.recurrence === ClassRecurrence.DATES
+          ? {
+              message: "Dates are required for a class on specific dates",
+              path: ["dates"],
+            }
+          : { message: "Day of week is required", path: ["dayOfWeek"] }
     ),
 });
 
@@ -82,6 +145,30 @@ export const updateClassSchema = z.object({
         .regex(hexColorRegex, "Color must be a valid hex color")
         .optional(),
       description: z.string().optional(),
+      semesterStart: z
+        .string()
+        .regex(dateRegex, "Semester start must be in YYYY-MM-DD format")
+        .nullable()
+        .optional(),
+      semesterEnd: z
+        .string()
+        .regex(dateRegex, "Semester end must be in YYYY-MM-DD format")
+        .nullable()
+        .optional(),
+      recurrence: z.nativeEnum(ClassRecurrence).optional(),
+      anchorDate: z
+        .string()
+        .regex(dateRegex, "Anchor date must be in YYYY-MM-DD format")
+        .nullable()
+        .optional(),
+      dates: z
+        .array(
+          z.string().regex(dateRegex, "Dates must be in YYYY-MM-DD format")
+        )
+        .max(366, "At most 366 dates are allowed")
+        .optional(),
+      minAttendance: z.number().int().min(0).max(100).nullable().optional(),
+      subjectId: z.string().nullable().optional(),
     })
     .refine(
       (data) => {
@@ -101,6 +188,16 @@ export const updateClassSchema = z.object({
         message: "End time must be after start time",
         path: ["endTime"],
       }
+    )
+    .refine(
+      (data) =>
+        !data.semesterStart ||
+        !data.semesterEnd ||
+        data.semesterStart <= data.semesterEnd,
+      {
+        message: "Semester end must not be before semester start",
+        path: ["semesterEnd"],
+      }
     ),
 });
 
@@ -108,6 +205,7 @@ export const getClassesSchema = z.object({
   query: z.object({
     dayOfWeek: z.enum(DAYS_OF_WEEK).optional(),
     subject: z.string().optional(),
+    subjectId: z.string().optional(),
     page: z.string().transform(Number).optional(),
     limit: z.string().transform(Number).optional(),
   }),
@@ -128,3 +226,210 @@ export const deleteClassSchema = z.object({
     }),
   }),
 });
+
+export const calendarFeedSchema = z.object({
+  params: z.object({
+    token: z.string({
+      required_error: "Feed token is required",
+    }),
+  }),
+});
+
+export const importTimetableSchema = z.object({
+  body: z.object({
+    format: z.enum(TIMETABLE_IMPORT_FORMATS, {
+      required_error: "Format is required",
+      invalid_type_error: "Format must be ics or csv",
+    }),
+    content: z
+      .string({
+        required_error: "File content is required",
+      })
+      .min(1, "File content cannot be empty"),
+    // CSV only: class field -> column header, when auto-detection guesses wrong
+    mapping: z
+      .object(
+        Object.fromEntries(
+          CSV_IMPORT_FIELDS.map((field) => [field, z.string().optional()])
+        ) as Record<
+          (typeof CSV_IMPORT_FIELDS)[number],
+          z.ZodOptional<z.ZodString>
+        >
+      )
+      .strict()
+      .optional(),
+    allowConflicts: z.boolean().optional(),
+  }),
+});
+
+export const getScheduleSchema = z.object({
+  query: z.object({
+    weekOf: z
+      .string()
+      .regex(dateRegex, "weekOf must be in YYYY-MM-DD format")
+      .optional(),
+    includeCancelled: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+export const getFreeSlotsSchema = z.object({
+  query: z
+    .object({
+      from: z
+        .string()
+        .regex(dateRegex, "from must be in YYYY-MM-DD format")
+        .optional(),
+      to: z
+        .string()
+        .regex(dateRegex, "to must be in YYYY-MM-DD format")
+        .optional(),
+      minMinutes: z
+        .string()
+        .regex(/^\d+$/, "minMinutes must be a whole number of minutes")
+        .optional(),
+      workStart: z
+        .string()
+        .regex(timeRegex, "workStart must be in HH:MM format")
+        .optional(),
+      workEnd: z
+        .string()
+        .regex(timeRegex, "workEnd must be in HH:MM format")
+        .optional(),
+    })
+    .refine((data) => !data.from || !data.to || data.from <= data.to, {
+      message: "to must not be before from",
+      path: ["to"],
+    }),
+});
+
+export const upsertClassExceptionSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Class ID is required",
+    }),
+  }),
+  body: z.object({
+    date: z
+      .string({
+        required_error: "Date is required",
+      })
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format"),
+    type: z.nativeEnum(ClassExceptionType, {
+      required_error: "Exception type is required",
+    }),
+    newDate: z
+      .string()
+      .regex(dateRegex, "New date must be in YYYY-MM-DD format")
+      .optional(),
+    newStartTime: z
+      .string()
+      .regex(timeRegex, "New start time must be in HH:MM format")
+      .optional(),
+    newEndTime: z
+      .string()
+      .regex(timeRegex, "New end time must be in HH:MM format")
+      .optional(),
+    newLocation: z.string().min(1).optional(),
+    note: z.string().max(500).optional(),
+  }),
+});
+
+export const classExceptionParamsSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Class ID is required",
+    }),
+    exceptionId: z.string({
+      required_error: "Exception ID is required",
+    }),
+  }),
+});
+
+export const createHolidaySchema = z.object({
+  body: z
+    .object({
+      name: z
+        .string({
+          required_error: "Name is required",
+        })
+        .min(1, "Name cannot be empty"),
+      startDate: z
+        .string({
+          required_error: "Start date is required",
+        })
+        .regex(dateRegex, "Start date must be in YYYY-MM-DD format"),
+      endDate: z
+        .string({
+          required_error: "End date is required",
+        })
+        .regex(dateRegex, "End date must be in YYYY-MM-DD format"),
+      scope: z.enum(HOLIDAY_SCOPES).optional(),
+    })
+    .refine((data) => data.startDate <= data.endDate, {
+      message: "End date must not be before start date",
+      path: ["endDate"],
+    }),
+});
+
+export const holidayParamsSchema = z.object({
+  params: z.object({
+    holidayId: z.string({
+      required_error: "Holiday ID is required",
+    }),
+  }),
+});
+
+export const recordAttendanceSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Class ID is required",
+    }),
+  }),
+  body: z.object({
+    date: z
+      .string({
+        required_error: "Date is required",
+      })
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format"),
+    status: z.nativeEnum(AttendanceStatus, {
+      required_error: "Attendance status is required",
+    }),
+    note: z.string().max(500).optional(),
+  }),
+});
+
+export const checkInSchema = z.object({
+  body: z.object({
+    classId: z.string().optional(),
+    note: z.string().max(500).optional(),
+  }),
+});
+
+export const getAttendanceSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Class ID is required",
+    }),
+  }),
+  query: z.object({
+    from: z
+      .string()
+      .regex(dateRegex, "from must be in YYYY-MM-DD format")
+      .optional(),
+    to: z
+      .string()
+      .regex(dateRegex, "to must be in YYYY-MM-DD format")
+      .optional(),
+  }),
+});
+
+export const attendanceParamsSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Class ID is required",
+    }),
+    attendanceId: z.string({
+      required_error: "Attendance ID is required",
+    }),
+  }),
+});
@@ -0,0 +1,66 @@
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { UserRole } from "../Auth/auth.types";
+import { IHolidayCreate } from "./class.types";
+
+type TActingUser = {
+  id: string;
+  role?: string;
+};
+
+// Institution holidays (userId null) apply to everyone and are managed by
+// admins; personal ones only affect their owner's timetable
+const getHolidays = async (userId: string) => {
+  const holidays = await prisma.holiday.findMany({
+    where: { OR: [{ userId }, { userId: null }] },
+    orderBy: { startDate: "asc" },
+  });
+
+  return holidays.map((holiday) => ({
+    ...holiday,
+    scope: holiday.userId ? "personal" : "institution",
+  }));
+};
+
+const createHoliday = async (user: TActingUser, payload: IHolidayCreate) => {
+  const isInstitution = payload.scope === "institution";
+
+  if (isInstitution && user.role !== UserRole.ADMIN) {
+    throw new ApiError(403, "Only admins can add institution holidays");
+  }
+
+  const holiday = await prisma.holiday.create({
+    data: {
+      name: payload.name,
+      startDate: new Date(payload.startDate),
+      endDate: new Date(payload.endDate),
+      userId: isInstitution ? null : user.id,
+    },
+  });
+
+  return holiday;
+};
+
+const deleteHoliday = async (user: TActingUser, holidayId: string) => {
+  const holiday = await prisma.holiday.findUnique({
+    where: { id: holidayId },
+  });
+
+  if (!holiday || (holiday.userId && holiday.userId !== user.id)) {
+    throw new ApiError(404, "Holiday not found");
+  }
+
+  if (!holiday.userId && user.role !== UserRole.ADMIN) {
+    throw new ApiError(403, "Only admins can remove institution holidays");
+  }
+
+  await prisma.holiday.delete({ where: { id: holidayId } });
+
+  return { message: "Holiday deleted successfully" };
+};
+
+export const HolidayServices = {
+  getHolidays,
+  createHoliday,
+  deleteHoliday,
+};
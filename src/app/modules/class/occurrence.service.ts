@@ -0,0 +1,184 @@
+import { Class, ClassException, Holiday } from "@prisma/client";
+import prisma from "../../shared/prisma";
+import {
+  ClassExceptionType,
+  IClassOccurrence,
+  IOccurrenceOptions,
+} from "./class.types";
+import {
+  addDays,
+  slotOccursOn,
+  toClassSlot,
+  toDateString,
+} from "./class.utils";
+
+type TClassWithExceptions = Class & { exceptions: ClassException[] };
+
+const HIDDEN_STATUSES = ["cancelled", "moved", "holiday"];
+
+// Whether the class regularly meets on this date
+const occursOn = (classItem: Class, date: string) =>
+  slotOccursOn(toClassSlot(classItem), date);
+
+const findHoliday = (holidays: Holiday[], date: string) =>
+  holidays.find(
+    (holiday) =>
+      toDateString(holiday.startDate) <= date &&
+      date <= toDateString(holiday.endDate)
+  );
+
+const buildOccurrence = (
+  classItem: TClassWithExceptions,
+  fields: Partial<IClassOccurrence> &
+    Pick<IClassOccurrence, "date" | "originalDate" | "status">
+): IClassOccurrence => {
+  const { exceptions, ...classFields } = classItem;
+
+  return {
+    ...classFields,
+    classId: classItem.id,
+    exceptionId: null,
+    note: null,
+    holiday: null,
+    ...fields,
+  };
+};
+
+const expandClass = (
+  classItem: TClassWithExceptions,
+  holidays: Holiday[],
+  from: string,
+  to: string
+) => {
+  const occurrences: IClassOccurrence[] = [];
+  const exceptionsByDate = new Map(
+    classItem.exceptions.map((exception) => [
+      toDateString(exception.date),
+      exception,
+    ])
+  );
+
+  const slot = toClassSlot(classItem);
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (!slotOccursOn(slot, date)) continue;
+
+    const exception = exceptionsByDate.get(date);
+    const holiday = findHoliday(holidays, date);
+    const base = { date, originalDate: date };
+
+    if (exception?.type === ClassExceptionType.RESCHEDULED) {
+      occurrences.push(
+        buildOccurrence(classItem, {
+          ...base,
+          status: "moved",
+          exceptionId: exception.id,
+          note: exception.note,
+        })
+      );
+    } else if (exception?.type === ClassExceptionType.CANCELLED) {
+      occurrences.push(
+        buildOccurrence(classItem, {
+          ...base,
+          status: "cancelled",
+          exceptionId: exception.id,
+          note: exception.note,
+        })
+      );
+    } else if (holiday) {
+      occurrences.push(
+        buildOccurrence(classItem, {
+          ...base,
+          status: "holiday",
+          holiday: holiday.name,
+        })
+      );
+    } else if (exception?.type === ClassExceptionType.ROOM_CHANGED) {
+      occurrences.push(
+        buildOccurrence(classItem, {
+          ...base,
+          status: "room_changed",
+          location: exception.newLocation,
+          exceptionId: exception.id,
+          note: exception.note,
+        })
+      );
+    } else {
+      occurrences.push(
+        buildOccurrence(classItem, { ...base, status: "scheduled" })
+      );
+    }
+  }
+
+  // Rescheduled meetings land wherever they were moved to, even if the
+  // original date is outside the range
+  classItem.exceptions
+    .filter((exception) => exception.type === ClassExceptionType.RESCHEDULED)
+    .forEach((exception) => {
+      const originalDate = toDateString(exception.date);
+      const date = exception.newDate
+        ? toDateString(exception.newDate)
+        : originalDate;
+
+      if (date < from || date > to) return;
+
+      occurrences.push(
+        buildOccurrence(classItem, {
+          date,
+          originalDate,
+          status: "rescheduled",
+          startTime: exception.newStartTime || classItem.startTime,
+          endTime: exception.newEndTime || classItem.endTime,
+          location: exception.newLocation || classItem.location,
+          exceptionId: exception.id,
+          note: exception.note,
+        })
+      );
+    });
+
+  return occurrences;
+};
+
+// Concrete class meetings between two dates (inclusive). Cancelled, moved
+// and holiday slots are left out unless includeCancelled is set.
+const getOccurrences = async (
+  userId: string,
+  from: string,
+  to: string,
+  options: IOccurrenceOptions = {}
+) => {
+  const [classes, holidays] = await Promise.all([
+    prisma.class.findMany({
+      where: {
+        userId,
+        ...(options.classId && { id: options.classId }),
+        ...(options.subjectId && { subjectId: options.subjectId }),
+      },
+      include: { exceptions: true },
+    }),
+    prisma.holiday.findMany({
+      where: {
+        OR: [{ userId }, { userId: null }],
+        startDate: { lte: new Date(to) },
+        endDate: { gte: new Date(from) },
+      },
+    }),
+  ]);
+
+  const occurrences = classes
+    .flatMap((classItem) => expandClass(classItem, holidays, from, to))
+    .filter(
+      (occurrence) =>
+        options.includeCancelled || !HIDDEN_STATUSES.includes(occurrence.status)
+    );
+
+  return occurrences.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+  );
+};
+
+export const ClassOccurrenceServices = {
+  occursOn,
+  getOccurrences,
+};
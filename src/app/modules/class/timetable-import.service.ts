@@ -0,0 +1,639 @@
+import { Class } from "@prisma/client";
+import { csvHelpers } from "../../../helpers/csvHelpers";
+import { icsHelpers, TParsedIcsEvent } from "../../../helpers/icsHelpers";
+import { tokenHelpers } from "../../../helpers/tokenHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import {
+  ClassRecurrence,
+  CSV_IMPORT_FIELDS,
+  DAYS_OF_WEEK,
+  DEFAULT_COLORS,
+  ITimetableImport,
+  TDayOfWeek,
+} from "./class.types";
+import {
+  addDays,
+  getWeekdayOf,
+  matchSubject,
+  slotsOverlap,
+  toClassSlot,
+  toDateString,
+  toOptionalDateString,
+} from "./class.utils";
+
+type TClassDraft = {
+  externalId: string;
+  subject: string;
+  instructor: string | null;
+  dayOfWeek: TDayOfWeek;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+  description: string | null;
+  semesterStart: string | null; // YYYY-MM-DD
+  semesterEnd: string | null;
+  recurrence: ClassRecurrence;
+  anchorDate: string | null;
+  dates: string[];
+};
+
+type TImportIssue = {
+  line?: number;
+  uid?: string;
+  message: string;
+};
+
+type TParseResult = {
+  drafts: TClassDraft[];
+  errors: TImportIssue[];
+  warnings: string[];
+};
+
+const CSV_COLUMN_SYNONYMS: Record<
+  (typeof CSV_IMPORT_FIELDS)[number],
+  string[]
+> = {
+  subject: ["subject", "course", "course name", "module", "title", "class"],
+  dayOfWeek: ["day", "day of week", "dayofweek", "weekday"],
+  date: ["date", "start date"],
+  startTime: ["start", "start time", "from", "begin", "time from"],
+  endTime: ["end", "end time", "to", "finish", "time to"],
+  location: ["location", "room", "venue", "building"],
+  instructor: ["instructor", "lecturer", "teacher", "professor", "tutor"],
+  description: ["description", "notes", "details", "type"],
+};
+
+const ICS_DAYS: Record<string, TDayOfWeek> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const normalizeDay = (value: string): TDayOfWeek | null => {
+  const prefix = value.trim().toLowerCase().slice(0, 2);
+  return (
+    DAYS_OF_WEEK.find((day) => day.toLowerCase().startsWith(prefix)) || null
+  );
+};
+
+// Accepts 9:00, 09:00, 0900, 9.00, 9am, 9:30 PM
+const normalizeTime = (value: string) => {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?:[:.]?(\d{2}))?\s*(am|pm)?$/);
+
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+// Accepts YYYY-MM-DD, DD/MM/YYYY and DD.MM.YYYY
+const normalizeDate = (value: string) => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const european = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (european) {
+    return `${european[3]}-${european[2].padStart(
+      2,
+      "0"
+    )}-${european[1].padStart(2, "0")}`;
+  }
+
+  return null;
+};
+
+const addMinutes = (time: string, minutes: number) => {
+  const [hours, mins] = time.split(":").map(Number);
+  const total = hours * 60 + mins + minutes;
+  if (total >= 24 * 60) return null;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(
+    total % 60
+  ).padStart(2, "0")}`;
+};
+
+// Re-importing the same slot must map to the same class
+const buildExternalId = (source: string, ...parts: string[]) =>
+  `${source}:${tokenHelpers
+    .hashToken(parts.map((part) => part.toLowerCase()).join("|"))
+    .slice(0, 32)}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Repeated series for the same slot are combined into one class spanning
+// all of them
+const mergeMeetings = (drafts: TClassDraft[]) => {
+  const merged = new Map<string, TClassDraft>();
+
+  drafts.forEach((draft) => {
+    const existing = merged.get(draft.externalId);
+
+    if (!existing) {
+      merged.set(draft.externalId, { ...draft });
+      return;
+    }
+
+    if (
+      draft.semesterStart &&
+      (!existing.semesterStart || draft.semesterStart < existing.semesterStart)
+    ) {
+      existing.semesterStart = draft.semesterStart;
+    }
+    if (
+      draft.semesterEnd &&
+      (!existing.semesterEnd || draft.semesterEnd > existing.semesterEnd)
+    ) {
+      existing.semesterEnd = draft.semesterEnd;
+    }
+  });
+
+  return Array.from(merged.values());
+};
+
+// Meetings listed one per date (portal exports, single ICS events) are
+// folded into one class: weekly or every other week when the dates are
+// evenly spaced, otherwise a class on exactly those dates
+const foldMeetings = (drafts: TClassDraft[]) => {
+  const groups = new Map<string, TClassDraft[]>();
+
+  drafts.forEach((draft) => {
+    groups.set(draft.externalId, [
+      ...(groups.get(draft.externalId) || []),
+      draft,
+    ]);
+  });
+
+  return Array.from(groups.values()).map((group): TClassDraft => {
+    const dates = Array.from(
+      new Set(group.map((draft) => draft.semesterStart as string))
+    ).sort();
+    const gaps = dates
+      .slice(1)
+      .map(
+        (date, index) => (Date.parse(date) - Date.parse(dates[index])) / DAY_MS
+      );
+    const base = {
+      ...group[0],
+      semesterStart: dates[0],
+      semesterEnd: dates[dates.length - 1],
+    };
+
+    if (gaps.every((gap) => gap === 7)) return base;
+
+    if (gaps.every((gap) => gap === 14)) {
+      return {
+        ...base,
+        recurrence: ClassRecurrence.BIWEEKLY,
+        anchorDate: dates[0],
+      };
+    }
+
+    return { ...base, recurrence: ClassRecurrence.DATES, dates };
+  });
+};
+
+const findInstructor = (event: TParsedIcsEvent) => {
+  if (event.organizer) return event.organizer;
+
+  const match = event.description?.match(
+    /^(?:instructor|lecturer|teacher|professor):\s*(.+)$/im
+  );
+
+  return match ? match[1].trim() : null;
+};
+
+const parseIcs = (content: string): TParseResult => {
+  const events = icsHelpers.parseCalendar(content);
+  const errors: TImportIssue[] = [];
+  const warnings = new Set<string>();
+  const recurring: TClassDraft[] = [];
+  const meetings: TClassDraft[] = [];
+
+  if (!events.length) {
+    throw new ApiError(400, "No events found in the calendar file");
+  }
+
+  events.forEach((event) => {
+    if (event.status === "CANCELLED") return;
+
+    if (event.recurrenceId) {
+      warnings.add("Changes to single occurrences of a series were ignored.");
+      return;
+    }
+
+    const { start } = event;
+
+    if (!event.summary || !start) {
+      errors.push({ uid: event.uid, message: "Event has no title or start" });
+      return;
+    }
+
+    if (!start.time) {
+      errors.push({
+        uid: event.uid,
+        message: `"${event.summary}" is an all-day event and was skipped`,
+      });
+      return;
+    }
+
+    const endTime =
+      event.end && event.end.date === start.date
+        ? event.end.time
+        : !event.end && event.durationMinutes !== undefined
+        ? addMinutes(start.time, event.durationMinutes)
+        : null;
+
+    if (!endTime || endTime <= start.time) {
+      errors.push({
+        uid: event.uid,
+        message: `"${event.summary}" does not end on the day it starts`,
+      });
+      return;
+    }
+
+    if (start.utc) {
+      warnings.add(
+        "Some times were given in UTC and were imported without conversion."
+      );
+    }
+
+    const base = {
+      subject: event.summary,
+      instructor: findInstructor(event),
+      startTime: start.time,
+      endTime,
+      location: event.location || null,
+      description: event.description || null,
+    };
+
+    const rule = event.rrule;
+
+    if (!rule || rule.FREQ !== "WEEKLY") {
+      if (rule) {
+        warnings.add(
+          `Only weekly recurrences are supported; other repeating events were imported as single meetings.`
+        );
+      }
+
+      const dayOfWeek = getWeekdayOf(start.date);
+      meetings.push({
+        ...base,
+        dayOfWeek,
+        externalId: buildExternalId("ics", base.subject, dayOfWeek, start.time),
+        semesterStart: start.date,
+        semesterEnd: start.date,
+        recurrence: ClassRecurrence.WEEKLY,
+        anchorDate: null,
+        dates: [],
+      });
+      return;
+    }
+
+    const interval = Number(rule.INTERVAL || 1);
+
+    if (interval > 2) {
+      warnings.add(
+        `Events repeating every ${interval} weeks were imported as weekly classes.`
+      );
+    }
+
+    const biweekly = interval === 2;
+
+    const days = rule.BYDAY
+      ? rule.BYDAY.split(",")
+          .map((day) => ICS_DAYS[day.replace(/^[+-]?\d+/, "")])
+          .filter(Boolean)
+      : [getWeekdayOf(start.date)];
+
+    let semesterEnd: string | null = null;
+    if (rule.UNTIL) {
+      semesterEnd = `${rule.UNTIL.slice(0, 4)}-${rule.UNTIL.slice(
+        4,
+        6
+      )}-${rule.UNTIL.slice(6, 8)}`;
+    } else if (rule.COUNT) {
+      const weeks = Math.ceil(Number(rule.COUNT) / days.length);
+      semesterEnd = addDays(start.date, weeks * (biweekly ? 14 : 7) - 1);
+    }
+
+    days.forEach((dayOfWeek) => {
+      recurring.push({
+        ...base,
+        dayOfWeek,
+        externalId: event.uid
+          ? `ics:${event.uid}${days.length > 1 ? `:${dayOfWeek}` : ""}`
+          : buildExternalId("ics", base.subject, dayOfWeek, base.startTime),
+        semesterStart: start.date,
+        semesterEnd,
+        recurrence: biweekly
+          ? ClassRecurrence.BIWEEKLY
+          : ClassRecurrence.WEEKLY,
+        anchorDate: biweekly ? start.date : null,
+        dates: [],
+      });
+    });
+  });
+
+  return {
+    drafts: [...mergeMeetings(recurring), ...foldMeetings(meetings)],
+    errors,
+    warnings: Array.from(warnings),
+  };
+};
+
+const parseCsv = (
+  content: string,
+  mapping: ITimetableImport["mapping"] = {}
+): TParseResult => {
+  const { columns, records } = csvHelpers.parseRecords(content);
+  const errors: TImportIssue[] = [];
+
+  if (!records.length) {
+    throw new ApiError(400, "The CSV file has no rows");
+  }
+
+  const column = Object.fromEntries(
+    CSV_IMPORT_FIELDS.map((field) => [
+      field,
+      mapping[field] ??
+        csvHelpers.findColumn(columns, CSV_COLUMN_SYNONYMS[field]),
+    ])
+  ) as Record<(typeof CSV_IMPORT_FIELDS)[number], string | undefined>;
+
+  const missing: string[] = (["subject", "startTime", "endTime"] as const)
+    .filter(
+      (field) => !column[field] || !columns.includes(column[field] as string)
+    )
+    .map(String);
+  if (!column.dayOfWeek && !column.date) missing.push("dayOfWeek or date");
+
+  if (missing.length) {
+    throw new ApiError(
+      400,
+      `Could not find CSV columns for: ${missing.join(
+        ", "
+      )}. Columns in file: ${columns.join(", ")}`
+    );
+  }
+
+  const weekly: TClassDraft[] = [];
+  const meetings: TClassDraft[] = [];
+  const warnings: string[] = [];
+  // Rows for the same subject, day and start time become one class, which
+  // can only keep one end time
+  const firstRows = new Map<string, { line: number; endTime: string }>();
+
+  records.forEach(({ line, values }) => {
+    const read = (field: (typeof CSV_IMPORT_FIELDS)[number]) =>
+      column[field] ? values[column[field] as string] || "" : "";
+
+    const subject = read("subject");
+    const startTime = normalizeTime(read("startTime"));
+    const endTime = normalizeTime(read("endTime"));
+    const date = read("date") ? normalizeDate(read("date")) : null;
+    const dayOfWeek = read("dayOfWeek")
+      ? normalizeDay(read("dayOfWeek"))
+      : date && getWeekdayOf(date);
+
+    if (!subject) {
+      errors.push({ line, message: "Subject is empty" });
+      return;
+    }
+    if (!dayOfWeek) {
+      errors.push({
+        line,
+        message: "Day of week or date is missing or invalid",
+      });
+      return;
+    }
+    if (!startTime || !endTime || endTime <= startTime) {
+      errors.push({
+        line,
+        message: "Start and end times are missing or invalid",
+      });
+      return;
+    }
+
+    const externalId = buildExternalId("csv", subject, dayOfWeek, startTime);
+    const firstRow = firstRows.get(externalId);
+
+    if (!firstRow) {
+      firstRows.set(externalId, { line, endTime });
+    } else if (firstRow.endTime !== endTime) {
+      warnings.push(
+        `Line ${line}: "${subject}" on ${dayOfWeek} at ${startTime} ends at ${endTime}, but line ${firstRow.line} ends at ${firstRow.endTime}. The class was imported with the end time from line ${firstRow.line}.`
+      );
+    }
+
+    const draft: TClassDraft = {
+      externalId,
+      subject,
+      instructor: read("instructor") || null,
+      dayOfWeek,
+      startTime,
+      endTime,
+      location: read("location") || null,
+      description: read("description") || null,
+      semesterStart: date,
+      semesterEnd: date,
+      recurrence: ClassRecurrence.WEEKLY,
+      anchorDate: null,
+      dates: [],
+    };
+
+    (date ? meetings : weekly).push(draft);
+  });
+
+  return {
+    drafts: [...mergeMeetings(weekly), ...foldMeetings(meetings)],
+    errors,
+    warnings,
+  };
+};
+
+const isUnchanged = (draft: TClassDraft, existing: Class) =>
+  draft.subject === existing.subject &&
+  draft.instructor === existing.instructor &&
+  draft.dayOfWeek === existing.dayOfWeek &&
+  draft.startTime === existing.startTime &&
+  draft.endTime === existing.endTime &&
+  draft.location === existing.location &&
+  draft.description === existing.description &&
+  draft.semesterStart === toOptionalDateString(existing.semesterStart) &&
+  draft.semesterEnd === toOptionalDateString(existing.semesterEnd) &&
+  draft.recurrence === existing.recurrence &&
+  draft.anchorDate === toOptionalDateString(existing.anchorDate) &&
+  draft.dates.join() === existing.dates.map(toDateString).join();
+
+// Works out what an import would do without writing anything
+const previewImport = async (userId: string, payload: ITimetableImport) => {
+  const { drafts, errors, warnings } =
+    payload.format === "ics"
+      ? parseIcs(payload.content)
+      : parseCsv(payload.content, payload.mapping);
+
+  const [existingClasses, subjects] = await Promise.all([
+    prisma.class.findMany({ where: { userId } }),
+    prisma.subject.findMany({
+      where: { userId, isArchived: false },
+      select: { id: true, name: true, code: true, color: true },
+    }),
+  ]);
+  const existingByExternalId = new Map(
+    existingClasses
+      .filter((classItem) => classItem.externalId)
+      .map((classItem) => [classItem.externalId as string, classItem])
+  );
+  const draftIds = new Set(drafts.map((draft) => draft.externalId));
+
+  // Classes that stay as they are after the import
+  const untouchedClasses = existingClasses.filter(
+    (classItem) => !classItem.externalId || !draftIds.has(classItem.externalId)
+  );
+
+  const items = drafts.map((draft) => {
+    const existing = existingByExternalId.get(draft.externalId);
+
+    const conflicts = [
+      ...untouchedClasses
+        .filter((classItem) => slotsOverlap(draft, toClassSlot(classItem)))
+        .map((classItem) => ({
+          source: "existing" as const,
+          classId: classItem.id,
+          subject: classItem.subject,
+          dayOfWeek: classItem.dayOfWeek,
+          startTime: classItem.startTime,
+          endTime: classItem.endTime,
+        })),
+      ...drafts
+        .filter((other) => other !== draft && slotsOverlap(draft, other))
+        .map((other) => ({
+          source: "import" as const,
+          externalId: other.externalId,
+          subject: other.subject,
+          dayOfWeek: other.dayOfWeek,
+          startTime: other.startTime,
+          endTime: other.endTime,
+        })),
+    ];
+
+    // Classes already linked to a subject keep their link
+    const matchedSubject = existing?.subjectId
+      ? null
+      : matchSubject(subjects, draft.subject);
+
+    return {
+      action: !existing
+        ? ("create" as const)
+        : isUnchanged(draft, existing)
+        ? ("unchanged" as const)
+        : ("update" as const),
+      classId: existing?.id ?? null,
+      class: draft,
+      subjectId: existing?.subjectId ?? matchedSubject?.id ?? null,
+      matchedSubject,
+      conflicts,
+    };
+  });
+
+  return {
+    summary: {
+      total: items.length,
+      create: items.filter((item) => item.action === "create").length,
+      update: items.filter((item) => item.action === "update").length,
+      unchanged: items.filter((item) => item.action === "unchanged").length,
+      conflicts: items.filter((item) => item.conflicts.length).length,
+      errors: errors.length,
+    },
+    items,
+    errors,
+    warnings,
+  };
+};
+
+// Applies the preview. Conflicting classes are skipped unless
+// allowConflicts is set; unchanged ones are left alone, so importing the
+// same file twice is a no-op.
+const importTimetable = async (userId: string, payload: ITimetableImport) => {
+  const preview = await previewImport(userId, payload);
+
+  const skipped = preview.items.filter(
+    (item) =>
+      item.action !== "unchanged" &&
+      item.conflicts.length &&
+      !payload.allowConflicts
+  );
+  const toWrite = preview.items.filter(
+    (item) => item.action !== "unchanged" && !skipped.includes(item)
+  );
+
+  // Keep one colour per subject
+  const subjects = Array.from(
+    new Set(preview.items.map((item) => item.class.subject))
+  );
+
+  const written = await prisma.$transaction(
+    toWrite.map(
+      ({ action, classId, class: draft, subjectId, matchedSubject }) => {
+        const data = {
+          ...draft,
+          subjectId,
+          semesterStart: draft.semesterStart && new Date(draft.semesterStart),
+          semesterEnd: draft.semesterEnd && new Date(draft.semesterEnd),
+          anchorDate: draft.anchorDate && new Date(draft.anchorDate),
+          dates: draft.dates.map((date) => new Date(date)),
+        };
+
+        return action === "update"
+          ? prisma.class.update({ where: { id: classId as string }, data })
+          : prisma.class.create({
+              data: {
+                ...data,
+                userId,
+                color:
+                  matchedSubject?.color ||
+                  DEFAULT_COLORS[
+                    subjects.indexOf(draft.subject) % DEFAULT_COLORS.length
+                  ],
+              },
+            });
+      }
+    )
+  );
+
+  return {
+    created: toWrite.filter((item) => item.action === "create").length,
+    updated: toWrite.filter((item) => item.action === "update").length,
+    unchanged: preview.summary.unchanged,
+    skipped: skipped.map((item) => ({
+      class: item.class,
+      reason: "Conflicts with another class",
+      conflicts: item.conflicts,
+    })),
+    classes: written,
+    errors: preview.errors,
+    warnings: preview.warnings,
+  };
+};
+
+export const TimetableImportServices = {
+  previewImport,
+  importTimetable,
+};
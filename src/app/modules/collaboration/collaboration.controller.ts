@@ -7,6 +7,7 @@ import {
   INoteFilters,
   IStudyGroupFilters,
 } from "./collaboration.types";
+import { GroupExpenseServices } from "./group-expense.service";
 
 // Study Group Controllers
 const createStudyGroup = catchAsync(
@@ -156,6 +157,170 @@ const updateMemberRole = catchAsync(
   }
 );
 
+// Shared Expense Controllers
+const getGroupExpenses = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const result = await GroupExpenseServices.getExpenses(
+      userId,
+      groupId,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Group expenses retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const createGroupExpense = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+
+    const result = await GroupExpenseServices.createExpense(
+      userId,
+      groupId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Group expense added successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteGroupExpense = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId, expenseId } = req.params;
+
+    const result = await GroupExpenseServices.deleteExpense(
+      userId,
+      groupId,
+      expenseId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Group expense deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getGroupBalances = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+
+    const result = await GroupExpenseServices.getBalances(userId, groupId);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Group balances retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const getGroupSettlementPlan = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+
+    const result = await GroupExpenseServices.getSettlementPlan(
+      userId,
+      groupId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Settle-up plan retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const getGroupSettlements = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const result = await GroupExpenseServices.getSettlements(
+      userId,
+      groupId,
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Settlements retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const createGroupSettlement = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId } = req.params;
+
+    const result = await GroupExpenseServices.recordSettlement(
+      userId,
+      groupId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Settlement recorded successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteGroupSettlement = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const { groupId, settlementId } = req.params;
+
+    const result = await GroupExpenseServices.deleteSettlement(
+      userId,
+      groupId,
+      settlementId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Settlement deleted successfully",
+      data: result,
+    });
+  }
+);
+
 // Note Controllers
 const createNote = catchAsync(
   async (req: Request & { user?: any }, res: Response) => {
@@ -314,6 +479,14 @@ export const CollaborationControllers = {
   joinStudyGroup,
   leaveStudyGroup,
   updateMemberRole,
+  getGroupExpenses,
+  createGroupExpense,
+  deleteGroupExpense,
+  getGroupBalances,
+  getGroupSettlementPlan,
+  getGroupSettlements,
+  createGroupSettlement,
+  deleteGroupSettlement,
   createNote,
   getNotes,
   getNoteById,
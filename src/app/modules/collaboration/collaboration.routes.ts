@@ -1,6 +1,7 @@
 import express from 'express';
 import { CollaborationControllers } from './collaboration.controller';
 import auth from '../../middleware/auth';
+import requireVerifiedEmail from '../../middleware/requireVerifiedEmail';
 import validateRequest from '../../middleware/validateRequest';
 import {
   createStudyGroupSchema,
@@ -11,6 +12,13 @@ import {
   joinGroupSchema,
   leaveGroupSchema,
   updateMemberRoleSchema,
+  getGroupExpensesSchema,
+  createGroupExpenseSchema,
+  deleteGroupExpenseSchema,
+  getGroupBalancesSchema,
+  getGroupSettlementsSchema,
+  createGroupSettlementSchema,
+  deleteGroupSettlementSchema,
   createNoteSchema,
   updateNoteSchema,
   getNotesSchema,
@@ -25,6 +33,7 @@ const router = express.Router();
 router.post(
   '/groups',
   auth(),
+  requireVerifiedEmail(),
   validateRequest(createStudyGroupSchema),
   CollaborationControllers.createStudyGroup
 );
@@ -79,6 +88,7 @@ router.delete(
 router.post(
   '/groups/:groupId/join',
   auth(),
+  requireVerifiedEmail(),
   validateRequest(joinGroupSchema),
   CollaborationControllers.joinStudyGroup
 );
@@ -95,10 +105,78 @@ router.post(
 router.patch(
   '/groups/:groupId/members/:memberId',
   auth(),
+  requireVerifiedEmail(),
   validateRequest(updateMemberRoleSchema),
   CollaborationControllers.updateMemberRole
 );
 
+// Shared Expenses Routes
+// Get a group's shared expenses
+router.get(
+  '/groups/:groupId/expenses',
+  auth(),
+  validateRequest(getGroupExpensesSchema),
+  CollaborationControllers.getGroupExpenses
+);
+
+// Add a shared expense
+router.post(
+  '/groups/:groupId/expenses',
+  auth(),
+  requireVerifiedEmail(),
+  validateRequest(createGroupExpenseSchema),
+  CollaborationControllers.createGroupExpense
+);
+
+// Delete a shared expense
+router.delete(
+  '/groups/:groupId/expenses/:expenseId',
+  auth(),
+  validateRequest(deleteGroupExpenseSchema),
+  CollaborationControllers.deleteGroupExpense
+);
+
+// Get what each member paid, owes and is owed
+router.get(
+  '/groups/:groupId/balances',
+  auth(),
+  validateRequest(getGroupBalancesSchema),
+  CollaborationControllers.getGroupBalances
+);
+
+// Get the payments that would settle every balance
+router.get(
+  '/groups/:groupId/settle-up',
+  auth(),
+  validateRequest(getGroupBalancesSchema),
+  CollaborationControllers.getGroupSettlementPlan
+);
+
+// Get recorded settlements
+router.get(
+  '/groups/:groupId/settlements',
+  auth(),
+  validateRequest(getGroupSettlementsSchema),
+  CollaborationControllers.getGroupSettlements
+);
+
+// Record a settlement (adds it to both members' budgets)
+router.post(
+  '/groups/:groupId/settlements',
+  auth(),
+  requireVerifiedEmail(),
+  validateRequest(createGroupSettlementSchema),
+  CollaborationControllers.createGroupSettlement
+);
+
+// Delete a settlement and its budget entries
+router.delete(
+  '/groups/:groupId/settlements/:settlementId',
+  auth(),
+  validateRequest(deleteGroupSettlementSchema),
+  CollaborationControllers.deleteGroupSettlement
+);
+
 // Notes Routes
 // Create a new note
 router.post(
@@ -99,6 +99,61 @@ export interface INoteFilters {
   title?: string;
 }
 
+export enum GroupExpenseSplit {
+  EQUAL = "EQUAL",
+  SHARES = "SHARES",
+  EXACT = "EXACT",
+}
+
+export interface IGroupExpenseParticipant {
+  userId: string;
+  shares?: number; // weight for SHARES splits
+  amount?: number; // for EXACT splits
+}
+
+export interface IGroupExpenseCreate {
+  title: string;
+  amount: number;
+  currency?: string; // defaults to the payer's base currency
+  date?: string; // YYYY-MM-DD, defaults to today
+  paidById?: string; // defaults to the member adding it
+  splitType?: GroupExpenseSplit;
+  participants?: IGroupExpenseParticipant[]; // EQUAL splits default to every member
+  note?: string;
+}
+
+export interface IGroupSettlementCreate {
+  fromUserId?: string; // defaults to the member recording it
+  toUserId: string;
+  amount: number;
+  currency?: string; // defaults to the payer's base currency
+  date?: string; // YYYY-MM-DD, defaults to today
+  category?: string; // of the payer's budget entry
+  note?: string;
+}
+
+export interface IGroupMemberBalance {
+  user: IUser | null; // null for members who deleted their account
+  isMember: boolean; // false once they have left the group
+  paid: number; // group expenses they paid for
+  owed: number; // their shares of group expenses
+  sent: number; // settlements they paid
+  received: number; // settlements paid to them
+  balance: number; // positive when the group owes them
+}
+
+export interface IGroupBalances {
+  currency: string;
+  members: IGroupMemberBalance[];
+}
+
+export interface IGroupSettlementTransfer {
+  from: IUser;
+  to: IUser;
+  amount: number;
+  currency: string;
+}
+
 export interface IGroupInvitation {
   groupId: string;
   inviteeEmail: string;
@@ -1,5 +1,19 @@
 import { z } from "zod";
-import { GroupRole } from "./collaboration.types";
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { GroupExpenseSplit, GroupRole } from "./collaboration.types";
+
+// Date validation regex (YYYY-MM-DD format)
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const currencyCode = z.string().refine(currencyHelpers.isValidCurrency, {
+  message: "Currency must be a 3-letter ISO 4217 code, e.g. EUR",
+});
+
+const groupParams = z.object({
+  groupId: z.string({
+    required_error: "Group ID is required",
+  }),
+});
 
 export const createStudyGroupSchema = z.object({
   body: z.object({
@@ -110,6 +124,114 @@ export const updateMemberRoleSchema = z.object({
   }),
 });
 
+// Shared expenses
+export const getGroupExpensesSchema = z.object({
+  query: z.object({
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+  params: groupParams,
+});
+
+export const createGroupExpenseSchema = z.object({
+  body: z.object({
+    title: z
+      .string({
+        required_error: "Title is required",
+      })
+      .min(1, "Title cannot be empty")
+      .max(100, "Title too long"),
+
+    amount: z
+      .number({
+        required_error: "Amount is required",
+      })
+      .positive("Amount must be positive"),
+
+    currency: currencyCode.optional(),
+
+    date: z
+      .string()
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format")
+      .optional(),
+
+    paidById: z.string().optional(),
+
+    splitType: z
+      .nativeEnum(GroupExpenseSplit, {
+        invalid_type_error: "Split must be EQUAL, SHARES or EXACT",
+      })
+      .optional(),
+
+    participants: z
+      .array(
+        z.object({
+          userId: z.string({
+            required_error: "Participant user ID is required",
+          }),
+          shares: z.number().positive("Shares must be positive").optional(),
+          amount: z.number().min(0, "Amount cannot be negative").optional(),
+        })
+      )
+      .min(1, "At least one participant is required")
+      .max(50, "Maximum 50 participants allowed")
+      .optional(),
+
+    note: z.string().max(500, "Note too long").optional(),
+  }),
+  params: groupParams,
+});
+
+export const deleteGroupExpenseSchema = z.object({
+  params: groupParams.extend({
+    expenseId: z.string({
+      required_error: "Expense ID is required",
+    }),
+  }),
+});
+
+export const getGroupBalancesSchema = z.object({
+  params: groupParams,
+});
+
+export const getGroupSettlementsSchema = getGroupExpensesSchema;
+
+export const createGroupSettlementSchema = z.object({
+  body: z.object({
+    fromUserId: z.string().optional(),
+
+    toUserId: z.string({
+      required_error: "Receiver user ID is required",
+    }),
+
+    amount: z
+      .number({
+        required_error: "Amount is required",
+      })
+      .positive("Amount must be positive"),
+
+    currency: currencyCode.optional(),
+
+    date: z
+      .string()
+      .regex(dateRegex, "Date must be in YYYY-MM-DD format")
+      .optional(),
+
+    category: z.string().min(1, "Category cannot be empty").optional(),
+
+    note: z.string().max(500, "Note too long").optional(),
+  }),
+  params: groupParams,
+});
+
+export const deleteGroupSettlementSchema = z.object({
+  params: groupParams.extend({
+    settlementId: z.string({
+      required_error: "Settlement ID is required",
+    }),
+  }),
+});
+
 export const createNoteSchema = z.object({
   body: z.object({
     title: z
@@ -0,0 +1,619 @@
+import { currencyHelpers } from "../../../helpers/currencyHelpers";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import {
+  getUserBaseCurrency,
+  getUserTimezone,
+} from "../../../helpers/userHelpers";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { BudgetLimitServices } from "../budget/budget-limit.service";
+import { BudgetType } from "../budget/budget.types";
+import { getLocalDateString } from "../class/class.utils";
+import {
+  GroupExpenseSplit,
+  GroupRole,
+  IGroupBalances,
+  IGroupExpenseCreate,
+  IGroupExpenseParticipant,
+  IGroupMemberBalance,
+  IGroupSettlementCreate,
+  IGroupSettlementTransfer,
+  IUser,
+} from "./collaboration.types";
+
+type TBalanceTotals = {
+  paid: number;
+  owed: number;
+  sent: number;
+  received: number;
+};
+
+const USER_SELECT = { id: true, name: true, email: true, avatar: true };
+
+// Ledger key for rows whose member deleted their account
+const DELETED_USER = "deleted";
+
+// Amounts are split and balanced in whole cents so shares always add up to
+// the expense
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Only members see a group's money, whether or not the group is public
+const getMembership = async (userId: string, groupId: string) => {
+  const group = await prisma.studyGroup.findUnique({
+    where: { id: groupId },
+    include: {
+      members: {
+        include: { user: { select: USER_SELECT } },
+        orderBy: { joinedAt: "asc" },
+      },
+    },
+  });
+
+  if (!group) {
+    throw new ApiError(404, "Study group not found");
+  }
+
+  const member = group.members.find((item) => item.userId === userId);
+
+  if (!member) {
+    throw new ApiError(
+      403,
+      "Only group members can see or record shared expenses"
+    );
+  }
+
+  return {
+    group,
+    isAdmin: group.creatorId === userId || member.role === GroupRole.ADMIN,
+  };
+};
+
+// Splits whole cents in proportion to the weights. Cents left over from
+// rounding go to the largest remainders, ties to the earlier participant.
+const allocate = (totalCents: number, weights: number[]) => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) => (totalCents * weight) / totalWeight);
+  const cents = exact.map(Math.floor);
+  let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - cents[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i++, leftover--) {
+    cents[order[i % order.length].index]++;
+  }
+
+  return cents;
+};
+
+const splitExpense = (
+  amount: number,
+  splitType: GroupExpenseSplit,
+  participants: IGroupExpenseParticipant[]
+) => {
+  const totalCents = toCents(amount);
+
+  if (splitType === GroupExpenseSplit.EXACT) {
+    if (participants.some((item) => item.amount === undefined)) {
+      throw new ApiError(400, "Exact splits need an amount for everyone");
+    }
+
+    const cents = participants.map((item) => toCents(item.amount as number));
+    const assigned = cents.reduce((sum, value) => sum + value, 0);
+
+    if (assigned !== totalCents) {
+      throw new ApiError(
+        400,
+        `Exact amounts add up to ${fromCents(assigned)}, not ${amount}`
+      );
+    }
+
+    return participants.map((item, index) => ({
+      userId: item.userId,
+      amount: fromCents(cents[index]),
+      shares: null,
+    }));
+  }
+
+  if (
+    splitType === GroupExpenseSplit.SHARES &&
+    participants.some((item) => !item.shares || item.shares <= 0)
+  ) {
+    throw new ApiError(400, "Share splits need a positive share for everyone");
+  }
+
+  const weights = participants.map((item) =>
+    splitType === GroupExpenseSplit.SHARES ? (item.shares as number) : 1
+  );
+  const cents = allocate(totalCents, weights);
+
+  return participants.map((item, index) => ({
+    userId: item.userId,
+    amount: fromCents(cents[index]),
+    shares: splitType === GroupExpenseSplit.SHARES ? weights[index] : null,
+  }));
+};
+
+const getExpenses = async (
+  userId: string,
+  groupId: string,
+  page = 1,
+  limit = 20
+) => {
+  await getMembership(userId, groupId);
+
+  const where = { studyGroupId: groupId };
+
+  const [expenses, total] = await Promise.all([
+    prisma.groupExpense.findMany({
+      where,
+      include: {
+        paidBy: { select: USER_SELECT },
+        createdBy: { select: USER_SELECT },
+        shares: { include: { user: { select: USER_SELECT } } },
+      },
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.groupExpense.count({ where }),
+  ]);
+
+  return {
+    data: expenses,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+const createExpense = async (
+  userId: string,
+  groupId: string,
+  payload: IGroupExpenseCreate
+) => {
+  const { group } = await getMembership(userId, groupId);
+  const memberIds = group.members.map((member) => member.userId);
+  const splitType = payload.splitType ?? GroupExpenseSplit.EQUAL;
+  const paidById = payload.paidById ?? userId;
+
+  if (!payload.participants && splitType !== GroupExpenseSplit.EQUAL) {
+    throw new ApiError(400, "Choose who shares the expense and how much");
+  }
+
+  const participants =
+    payload.participants ?? memberIds.map((memberId) => ({ userId: memberId }));
+  const participantIds = participants.map((item) => item.userId);
+
+  if (!memberIds.includes(paidById)) {
+    throw new ApiError(400, "The payer must be a member of this group");
+  }
+  if (!participants.length) {
+    throw new ApiError(400, "An expense needs at least one participant");
+  }
+  if (new Set(participantIds).size !== participantIds.length) {
+    throw new ApiError(400, "Each member can only be listed once");
+  }
+  if (participantIds.some((id) => !memberIds.includes(id))) {
+    throw new ApiError(400, "Expenses can only be shared with group members");
+  }
+
+  const shares = splitExpense(payload.amount, splitType, participants);
+  const [currency, date] = await Promise.all([
+    payload.currency
+      ? currencyHelpers.normalizeCurrency(payload.currency)
+      : getUserBaseCurrency(paidById),
+    payload.date ??
+      getUserTimezone(userId).then((timeZone) => getLocalDateString(timeZone)),
+  ]);
+
+  return prisma.groupExpense.create({
+    data: {
+      title: payload.title.trim(),
+      amount: currencyHelpers.roundAmount(payload.amount),
+      currency,
+      date: new Date(date),
+      splitType,
+      note: payload.note,
+      studyGroupId: groupId,
+      paidById,
+      createdById: userId,
+      shares: { create: shares },
+    },
+    include: {
+      paidBy: { select: USER_SELECT },
+      createdBy: { select: USER_SELECT },
+      shares: { include: { user: { select: USER_SELECT } } },
+    },
+  });
+};
+
+const deleteExpense = async (
+  userId: string,
+  groupId: string,
+  expenseId: string
+) => {
+  const { isAdmin } = await getMembership(userId, groupId);
+
+  const expense = await prisma.groupExpense.findFirst({
+    where: { id: expenseId, studyGroupId: groupId },
+  });
+
+  if (!expense) {
+    throw new ApiError(404, "Group expense not found");
+  }
+  if (
+    !isAdmin &&
+    expense.paidById !== userId &&
+    expense.createdById !== userId
+  ) {
+    throw new ApiError(
+      403,
+      "Only the payer, whoever added it or a group admin can delete an expense"
+    );
+  }
+
+  await prisma.groupExpense.delete({ where: { id: expenseId } });
+
+  return { message: "Group expense deleted successfully" };
+};
+
+// Per currency, since members may not share a base currency or exchange
+// rates. Former members stay listed while they still have a balance.
+const computeBalances = async (
+  group: Awaited<ReturnType<typeof getMembership>>["group"]
+): Promise<IGroupBalances[]> => {
+  const [expenses, settlements] = await Promise.all([
+    prisma.groupExpense.findMany({
+      where: { studyGroupId: group.id },
+      select: {
+        amount: true,
+        currency: true,
+        paidById: true,
+        shares: { select: { userId: true, amount: true } },
+      },
+    }),
+    prisma.groupSettlement.findMany({
+      where: { studyGroupId: group.id },
+      select: {
+        amount: true,
+        currency: true,
+        fromUserId: true,
+        toUserId: true,
+      },
+    }),
+  ]);
+
+  const ledgers = new Map<string, Map<string, TBalanceTotals>>();
+
+  const entry = (currency: string, userId: string | null) => {
+    const key = userId ?? DELETED_USER;
+    const ledger = ledgers.get(currency) || new Map<string, TBalanceTotals>();
+    const totals = ledger.get(key) || {
+      paid: 0,
+      owed: 0,
+      sent: 0,
+      received: 0,
+    };
+
+    ledgers.set(currency, ledger);
+    ledger.set(key, totals);
+
+    return totals;
+  };
+
+  expenses.forEach((expense) => {
+    entry(expense.currency, expense.paidById).paid += toCents(expense.amount);
+    expense.shares.forEach((share) => {
+      entry(expense.currency, share.userId).owed += toCents(share.amount);
+    });
+  });
+  settlements.forEach((settlement) => {
+    entry(settlement.currency, settlement.fromUserId).sent += toCents(
+      settlement.amount
+    );
+    entry(settlement.currency, settlement.toUserId).received += toCents(
+      settlement.amount
+    );
+  });
+
+  const users = new Map<string, IUser>(
+    group.members.map((member) => [member.userId, member.user as IUser])
+  );
+  const formerIds = Array.from(ledgers.values())
+    .flatMap((ledger) => Array.from(ledger.keys()))
+    .filter((id) => id !== DELETED_USER && !users.has(id));
+
+  if (formerIds.length) {
+    const formerMembers = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(formerIds)) } },
+      select: USER_SELECT,
+    });
+
+    formerMembers.forEach((user) => users.set(user.id, user as IUser));
+  }
+
+  return Array.from(ledgers.keys())
+    .sort()
+    .map((currency) => {
+      const ledger = ledgers.get(currency) as Map<string, TBalanceTotals>;
+      const memberIds = group.members.map((member) => member.userId);
+      const ids = [
+        ...memberIds,
+        ...Array.from(ledger.keys()).filter((id) => !memberIds.includes(id)),
+      ];
+
+      const members = ids
+        .map((id): IGroupMemberBalance | null => {
+          const totals = ledger.get(id) || {
+            paid: 0,
+            owed: 0,
+            sent: 0,
+            received: 0,
+          };
+          const balance =
+            totals.paid - totals.owed + totals.sent - totals.received;
+          const isMember = memberIds.includes(id);
+
+          if (!isMember && balance === 0) return null;
+
+          return {
+            user: id === DELETED_USER ? null : (users.get(id) as IUser),
+            isMember,
+            paid: fromCents(totals.paid),
+            owed: fromCents(totals.owed),
+            sent: fromCents(totals.sent),
+            received: fromCents(totals.received),
+            balance: fromCents(balance),
+          };
+        })
+        .filter((item): item is IGroupMemberBalance => item !== null);
+
+      return { currency, members };
+    });
+};
+
+const getBalances = async (userId: string, groupId: string) => {
+  const { group } = await getMembership(userId, groupId);
+
+  return computeBalances(group);
+};
+
+// Who pays whom to clear every balance. Repeatedly matching the largest
+// debtor with the largest creditor needs at most one payment fewer than
+// there are people with a balance. Balances of deleted accounts cannot be
+// paid, so they are left out.
+const getSettlementPlan = async (userId: string, groupId: string) => {
+  const balances = await getBalances(userId, groupId);
+  const transfers: IGroupSettlementTransfer[] = [];
+
+  balances.forEach(({ currency, members }) => {
+    const byBalance = (a: { cents: number }, b: { cents: number }) =>
+      Math.abs(b.cents) - Math.abs(a.cents);
+    const people = members.flatMap((member) =>
+      member.user ? [{ user: member.user, cents: toCents(member.balance) }] : []
+    );
+    const creditors = people.filter((item) => item.cents > 0).sort(byBalance);
+    const debtors = people.filter((item) => item.cents < 0).sort(byBalance);
+
+    let i = 0;
+    let j = 0;
+
+    while (i < debtors.length && j < creditors.length) {
+      const cents = Math.min(-debtors[i].cents, creditors[j].cents);
+
+      transfers.push({
+        from: debtors[i].user,
+        to: creditors[j].user,
+        amount: fromCents(cents),
+        currency,
+      });
+
+      debtors[i].cents += cents;
+      creditors[j].cents -= cents;
+
+      if (debtors[i].cents === 0) i++;
+      if (creditors[j].cents === 0) j++;
+    }
+  });
+
+  return transfers;
+};
+
+const getSettlements = async (
+  userId: string,
+  groupId: string,
+  page = 1,
+  limit = 20
+) => {
+  await getMembership(userId, groupId);
+
+  const where = { studyGroupId: groupId };
+
+  const [settlements, total] = await Promise.all([
+    prisma.groupSettlement.findMany({
+      where,
+      include: {
+        fromUser: { select: USER_SELECT },
+        toUser: { select: USER_SELECT },
+      },
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.groupSettlement.count({ where }),
+  ]);
+
+  return {
+    data: settlements,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+};
+
+// Records a payment between two members and adds it to both budgets: an
+// expense for the payer and income for the receiver, each on the payment
+// date in their own time zone. Former members can still be paid or pay back
+// while the ledger shows them a balance.
+const recordSettlement = async (
+  userId: string,
+  groupId: string,
+  payload: IGroupSettlementCreate
+) => {
+  const { group, isAdmin } = await getMembership(userId, groupId);
+  const fromUserId = payload.fromUserId ?? userId;
+  const { toUserId } = payload;
+  const people = new Map<string, IUser>(
+    group.members.map((member) => [member.userId, member.user as IUser])
+  );
+
+  if (!people.has(fromUserId) || !people.has(toUserId)) {
+    (await computeBalances(group)).forEach(({ members }) =>
+      members.forEach(({ user, balance }) => {
+        if (user && balance !== 0) people.set(user.id, user);
+      })
+    );
+  }
+
+  const from = people.get(fromUserId);
+  const to = people.get(toUserId);
+
+  if (fromUserId === toUserId) {
+    throw new ApiError(400, "A settlement needs two different members");
+  }
+  if (!from || !to) {
+    throw new ApiError(
+      400,
+      "Both people must be members of this group or still have a balance in it"
+    );
+  }
+  if (!isAdmin && userId !== fromUserId && userId !== toUserId) {
+    throw new ApiError(
+      403,
+      "Only the two members involved or a group admin can record a settlement"
+    );
+  }
+
+  const [currency, fromZone, toZone, ownZone] = await Promise.all([
+    payload.currency
+      ? currencyHelpers.normalizeCurrency(payload.currency)
+      : getUserBaseCurrency(fromUserId),
+    getUserTimezone(fromUserId),
+    getUserTimezone(toUserId),
+    getUserTimezone(userId),
+  ]);
+  const amount = currencyHelpers.roundAmount(payload.amount);
+  const date = payload.date || getLocalDateString(ownZone);
+  const note = payload.note ? ` (${payload.note})` : "";
+
+  const settlement = await prisma.$transaction(async (tx) => {
+    const created = await tx.groupSettlement.create({
+      data: {
+        amount,
+        currency,
+        date: new Date(date),
+        note: payload.note,
+        studyGroupId: groupId,
+        fromUserId,
+        toUserId,
+        recordedById: userId,
+      },
+      include: {
+        fromUser: { select: USER_SELECT },
+        toUser: { select: USER_SELECT },
+      },
+    });
+
+    await tx.budget.createMany({
+      data: [
+        {
+          title: `${group.name} settle-up`,
+          amount,
+          currency,
+          type: BudgetType.EXPENSE,
+          category: payload.category?.trim() || "Miscellaneous",
+          description: `Paid ${to.name}${note}`,
+          date: timezoneHelpers.toInstant(date, "12:00", fromZone),
+          groupSettlementId: created.id,
+          userId: fromUserId,
+        },
+        {
+          title: `${group.name} settle-up`,
+          amount,
+          currency,
+          type: BudgetType.INCOME,
+          category: "Other Income",
+          description: `Received from ${from.name}${note}`,
+          date: timezoneHelpers.toInstant(date, "12:00", toZone),
+          groupSettlementId: created.id,
+          userId: toUserId,
+        },
+      ],
+    });
+
+    return created;
+  });
+
+  await BudgetLimitServices.checkLimitAlerts(fromUserId);
+
+  return settlement;
+};
+
+// Also removes the budget entries it created
+const deleteSettlement = async (
+  userId: string,
+  groupId: string,
+  settlementId: string
+) => {
+  const { isAdmin } = await getMembership(userId, groupId);
+
+  const settlement = await prisma.groupSettlement.findFirst({
+    where: { id: settlementId, studyGroupId: groupId },
+  });
+
+  if (!settlement) {
+    throw new ApiError(404, "Settlement not found");
+  }
+  if (
+    !isAdmin &&
+    ![
+      settlement.fromUserId,
+      settlement.toUserId,
+      settlement.recordedById,
+    ].includes(userId)
+  ) {
+    throw new ApiError(
+      403,
+      "Only the members involved or a group admin can delete a settlement"
+    );
+  }
+
+  // The budget entries only outlive settlements removed with their group or
+  // a member's account
+  await prisma.$transaction([
+    prisma.budget.deleteMany({ where: { groupSettlementId: settlementId } }),
+    prisma.groupSettlement.delete({ where: { id: settlementId } }),
+  ]);
+
+  return { message: "Settlement deleted successfully" };
+};
+
+export const GroupExpenseServices = {
+  getExpenses,
+  createExpense,
+  deleteExpense,
+  getBalances,
+  getSettlementPlan,
+  getSettlements,
+  recordSettlement,
+  deleteSettlement,
+};
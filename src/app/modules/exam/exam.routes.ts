@@ -1,5 +1,6 @@
 import express from "express";
 import auth from "../../middleware/auth";
+import { aiRateLimiter } from "../../middleware/rateLimiter";
 import validateRequest from "../../middleware/validateRequest";
 import { ExamControllers } from "./exam.controller";
 import {
@@ -98,6 +99,7 @@ router.get(
 router.post(
   "/ai/generate",
   auth(),
+  aiRateLimiter,
   validateRequest(generateAIQuestionsSchema),
   ExamControllers.generateQuestionsWithAI
 );
@@ -106,6 +108,7 @@ router.post(
 router.post(
   "/ai/generate-by-topics",
   auth(),
+  aiRateLimiter,
   validateRequest(generateQuestionsByTopicsSchema),
   ExamControllers.generateQuestionsByTopics
 );
@@ -114,6 +117,7 @@ router.post(
 router.post(
   "/ai/adaptive-quiz",
   auth(),
+  aiRateLimiter,
   validateRequest(generateAdaptiveQuizSchema),
   ExamControllers.generateAdaptiveQuiz
 );
@@ -122,6 +126,7 @@ router.post(
 router.post(
   "/ai/bulk-generate",
   auth(),
+  aiRateLimiter,
   validateRequest(bulkGenerateQuestionsSchema),
   ExamControllers.bulkGenerateQuestions
 );
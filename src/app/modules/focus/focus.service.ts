@@ -1,4 +1,6 @@
 import { PrismaClient } from "@prisma/client";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
 import ApiError from "../../errors/ApiError";
 import {
   FAMOUS_FOCUS_METHODS,
@@ -261,8 +263,13 @@ export class FocusService {
       completedSessions: number;
     }
   ): Promise<IFocusHabitSession> {
-    const sessionDate = sessionData.date || new Date();
-    sessionDate.setHours(0, 0, 0, 0); // Normalize to start of day
+    // Normalize to the user's calendar day, stored as UTC midnight
+    const sessionDate = new Date(
+      timezoneHelpers.getLocalDate(
+        await getUserTimezone(userId),
+        sessionData.date || new Date()
+      )
+    );
 
     // Check if session already exists for this date
     const existingSession = await prisma.focusHabitSession.findUnique({
@@ -342,9 +349,12 @@ export class FocusService {
     const progressPercentage = (habit.completedDays / habit.targetDays) * 100;
     const daysRemaining = Math.max(0, habit.targetDays - habit.completedDays);
 
-    // Calculate if on track
-    const daysSinceStart = Math.floor(
-      (Date.now() - habit.startDate.getTime()) / (1000 * 60 * 60 * 24)
+    // Calculate if on track, counting calendar days in the user's time zone
+    const timeZone = await getUserTimezone(userId);
+    const daysSinceStart = Math.round(
+      (Date.parse(timezoneHelpers.getLocalDate(timeZone)) -
+        Date.parse(timezoneHelpers.getLocalDate(timeZone, habit.startDate))) /
+        (1000 * 60 * 60 * 24)
     );
     const expectedProgress = Math.min(
       100,
@@ -388,22 +398,31 @@ export class FocusService {
   ): Promise<IFocusAnalytics> {
     const { period = "month", subjectId } = options;
 
-    // Calculate date range
+    // Calculate date range. Habit sessions are keyed by the user's calendar
+    // day (UTC midnight), so their range runs from startDay to today.
     const endDate = new Date();
-    const startDate = new Date();
+    const startDate = new Date(endDate);
+    const today = new Date(
+      timezoneHelpers.getLocalDate(await getUserTimezone(userId), endDate)
+    );
+    const startDay = new Date(today);
 
     switch (period) {
       case "week":
-        startDate.setDate(startDate.getDate() - 7);
+        startDate.setUTCDate(startDate.getUTCDate() - 7);
+        startDay.setUTCDate(startDay.getUTCDate() - 7);
         break;
       case "month":
-        startDate.setMonth(startDate.getMonth() - 1);
+        startDate.setUTCMonth(startDate.getUTCMonth() - 1);
+        startDay.setUTCMonth(startDay.getUTCMonth() - 1);
         break;
       case "quarter":
-        startDate.setMonth(startDate.getMonth() - 3);
+        startDate.setUTCMonth(startDate.getUTCMonth() - 3);
+        startDay.setUTCMonth(startDay.getUTCMonth() - 3);
         break;
       case "year":
-        startDate.setFullYear(startDate.getFullYear() - 1);
+        startDate.setUTCFullYear(startDate.getUTCFullYear() - 1);
+        startDay.setUTCFullYear(startDay.getUTCFullYear() - 1);
         break;
     }
 
@@ -417,7 +436,7 @@ export class FocusService {
       include: {
         habitSessions: {
           where: {
-            date: { gte: startDate, lte: endDate },
+            date: { gte: startDay, lte: today },
           },
         },
         subject: {
@@ -1,5 +1,6 @@
 import express from 'express';
 import auth from '../../middleware/auth';
+import { aiRateLimiter } from '../../middleware/rateLimiter';
 import validateRequest from '../../middleware/validateRequest';
 import * as learningController from './learning.controller';
 import {
@@ -81,6 +82,7 @@ router.delete(
 router.post(
   '/materials/:id/process-ai',
   auth(),
+  aiRateLimiter,
   validateRequest(processWithAISchema),
   learningController.processWithAI
 );
@@ -1,3 +1,5 @@
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../helpers/userHelpers";
 import ApiError from "../../errors/ApiError";
 import prisma from "../../shared/prisma";
 import learningAIService from "./learning-ai.service";
@@ -706,7 +708,7 @@ const addStreakEntry = async (
 
   const entryData = {
     ...payload,
-    date: new Date(payload.date),
+    date: await getStreakDate(userId, new Date(payload.date)),
     streakId,
   };
 
@@ -759,6 +761,13 @@ const getLearningDashboard = async (
 };
 
 // Helper functions for streak management
+
+// Streak entries are keyed by the user's calendar date, stored as UTC
+// midnight, so a session at 23:30 local time counts for that day whatever
+// the server clock says
+const getStreakDate = async (userId: string, date = new Date()) =>
+  new Date(timezoneHelpers.getLocalDate(await getUserTimezone(userId), date));
+
 const updateLearningStreaks = async (
   userId: string,
   data: {
@@ -767,8 +776,7 @@ const updateLearningStreaks = async (
     sessionDate: Date;
   }
 ) => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = await getStreakDate(userId);
 
   // Update daily study streak
   await updateDailyStudyStreak(userId, data.studyDuration, today);
@@ -788,8 +796,7 @@ const updateNotesValidationStreak = async (
   userId: string,
   subjectId?: string
 ) => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = await getStreakDate(userId);
 
   // Find or create notes validation streak
   let streak = await prisma.learningStreak.findFirst({
@@ -1139,45 +1146,53 @@ const updateSubjectStreak = async (
   await updateStreakStatistics(streak.id);
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const updateStreakStatistics = async (streakId: string) => {
+  const streak = await prisma.learningStreak.findUnique({
+    where: { id: streakId },
+    select: { userId: true },
+  });
+
   const entries = await prisma.streakEntry.findMany({
     where: { streakId },
     orderBy: { date: "desc" },
   });
 
-  if (entries.length === 0) return;
+  if (!streak || entries.length === 0) return;
+
+  // Entries come from different sources and may not sit exactly on midnight
+  const dayOf = (date: Date) => Math.floor(date.getTime() / DAY_MS);
 
   let currentStreak = 0;
   let longestStreak = 0;
   let tempStreak = 0;
-  let lastDate: Date | null = null;
+  let isCurrent = true;
+  let lastDay: number | null = null;
 
-  // Calculate current streak (from most recent date)
-  for (const entry of entries) {
-    if (!lastDate) {
-      lastDate = entry.date;
-      if (entry.goalMet) {
-        currentStreak = 1;
-        tempStreak = 1;
-      }
-      continue;
-    }
+  // The current streak is still alive if the latest entry is from today or
+  // yesterday in the user's time zone
+  const today = dayOf(await getStreakDate(streak.userId));
+  if (today - dayOf(entries[0].date) > 1) isCurrent = false;
 
-    const daysDiff = Math.floor(
-      (lastDate.getTime() - entry.date.getTime()) / (1000 * 60 * 60 * 24)
-    );
+  // Walk back from the most recent date
+  for (const entry of entries) {
+    const day = dayOf(entry.date);
+    const continues = lastDay !== null && lastDay - day === 1;
 
-    if (daysDiff === 1 && entry.goalMet) {
-      currentStreak++;
+    if (continues && entry.goalMet) {
       tempStreak++;
     } else {
       if (tempStreak > longestStreak) {
         longestStreak = tempStreak;
       }
+      if (lastDay !== null) isCurrent = false;
       tempStreak = entry.goalMet ? 1 : 0;
+      if (!entry.goalMet) isCurrent = false;
     }
 
-    lastDate = entry.date;
+    if (isCurrent) currentStreak = tempStreak;
+    lastDay = day;
   }
 
   if (tempStreak > longestStreak) {
@@ -0,0 +1,148 @@
+import { Notification, PushSubscription } from "@prisma/client";
+import fs from "fs/promises";
+import path from "path";
+import config from "../../../config";
+import { mailer } from "../../shared/mailer";
+import prisma from "../../shared/prisma";
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from "./notification.types";
+
+export type TNotificationRecipient = {
+  id: string;
+  email: string;
+  name: string;
+};
+
+export interface INotificationChannel {
+  send: (
+    recipient: TNotificationRecipient,
+    notification: Notification
+  ) => Promise<NotificationDeliveryStatus>;
+}
+
+export type TPushPayload = {
+  title: string;
+  body: string;
+  data: Notification["data"];
+  notificationId: string;
+};
+
+export interface IPushTransport {
+  send: (
+    subscription: PushSubscription,
+    payload: TPushPayload
+  ) => Promise<void>;
+}
+
+// Prints push messages to the server log (default for local development)
+const consolePushTransport: IPushTransport = {
+  send: async (subscription, payload) => {
+    console.log("🔔 Outgoing push notification:");
+    console.log(`  Endpoint: ${subscription.endpoint}`);
+    console.log(`  Title: ${payload.title}`);
+    console.log(payload.body);
+  },
+};
+
+// Writes each push message as a JSON file into the push outbox directory
+const filePushTransport: IPushTransport = {
+  send: async (subscription, payload) => {
+    const outboxDir = path.join(
+      process.cwd(),
+      config.notifications.push_outbox_dir
+    );
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    await fs.writeFile(
+      path.join(outboxDir, `${Date.now()}-${subscription.id}.json`),
+      JSON.stringify(
+        {
+          endpoint: subscription.endpoint,
+          ...payload,
+          sentAt: new Date().toISOString(),
+        },
+        null,
+        2
+      )
+    );
+  },
+};
+
+const pushTransports: Record<string, IPushTransport> = {
+  console: consolePushTransport,
+  file: filePushTransport,
+};
+
+let activePushTransport: IPushTransport =
+  pushTransports[config.notifications.push_transport] || consolePushTransport;
+
+// Lets a real Web Push sender (VAPID, FCM, ...) be plugged in at startup
+const setPushTransport = (transport: IPushTransport) => {
+  activePushTransport = transport;
+};
+
+const emailChannel: INotificationChannel = {
+  send: async (recipient, notification) => {
+    await mailer.sendMail({
+      to: recipient.email,
+      subject: notification.title,
+      text: `Hi ${recipient.name},\n\n${notification.body}`,
+    });
+
+    return NotificationDeliveryStatus.SENT;
+  },
+};
+
+// Sends to every browser the user subscribed; skipped when there are none
+const webPushChannel: INotificationChannel = {
+  send: async (recipient, notification) => {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: recipient.id },
+    });
+
+    if (!subscriptions.length) return NotificationDeliveryStatus.SKIPPED;
+
+    await Promise.all(
+      subscriptions.map((subscription) =>
+        activePushTransport.send(subscription, {
+          title: notification.title,
+          body: notification.body,
+          data: notification.data,
+          notificationId: notification.id,
+        })
+      )
+    );
+
+    await prisma.pushSubscription.updateMany({
+      where: {
+        id: { in: subscriptions.map((subscription) => subscription.id) },
+      },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return NotificationDeliveryStatus.SENT;
+  },
+};
+
+const channels: Record<NotificationChannel, INotificationChannel> = {
+  [NotificationChannel.EMAIL]: emailChannel,
+  [NotificationChannel.WEB_PUSH]: webPushChannel,
+};
+
+const getChannel = (channel: NotificationChannel) => channels[channel];
+
+// Replaces a delivery channel, e.g. email through a dedicated provider
+const setChannel = (
+  channel: NotificationChannel,
+  implementation: INotificationChannel
+) => {
+  channels[channel] = implementation;
+};
+
+export const notificationChannels = {
+  getChannel,
+  setChannel,
+  setPushTransport,
+};
@@ -0,0 +1,238 @@
+import { Request, Response } from "express";
+import catchAsync from "../../shared/catchAsync";
+import sendResponse from "../../shared/sendResponse";
+import { NotificationServices } from "./notification.service";
+import { NotificationType } from "./notification.types";
+import { ReminderRuleServices } from "./reminder-rule.service";
+
+const getNotifications = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const userId = req.user.id;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const result = await NotificationServices.getNotifications(
+      userId,
+      {
+        unread:
+          req.query.unread === undefined
+            ? undefined
+            : req.query.unread === "true",
+        type: req.query.type as NotificationType | undefined,
+      },
+      page,
+      limit
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Notifications retrieved successfully",
+      meta: result.meta,
+      data: result.data,
+    });
+  }
+);
+
+const getUnreadCount = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.getUnreadCount(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Unread count retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const getNotificationById = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.getNotificationById(
+      req.user.id,
+      req.params.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Notification retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const markAsRead = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.setReadState(
+      req.user.id,
+      req.params.id,
+      true
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Notification marked as read",
+      data: result,
+    });
+  }
+);
+
+const markAsUnread = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.setReadState(
+      req.user.id,
+      req.params.id,
+      false
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Notification marked as unread",
+      data: result,
+    });
+  }
+);
+
+const markAllAsRead = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.markAllRead(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "All notifications marked as read",
+      data: result,
+    });
+  }
+);
+
+const deleteNotification = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.deleteNotification(
+      req.user.id,
+      req.params.id
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Notification deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const getReminderRules = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ReminderRuleServices.getReminderRules(req.user.id);
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Reminder rules retrieved successfully",
+      data: result,
+    });
+  }
+);
+
+const createReminderRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ReminderRuleServices.createReminderRule(
+      req.user.id,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Reminder rule created successfully",
+      data: result,
+    });
+  }
+);
+
+const updateReminderRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ReminderRuleServices.updateReminderRule(
+      req.user.id,
+      req.params.ruleId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Reminder rule updated successfully",
+      data: result,
+    });
+  }
+);
+
+const deleteReminderRule = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await ReminderRuleServices.deleteReminderRule(
+      req.user.id,
+      req.params.ruleId
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Reminder rule deleted successfully",
+      data: result,
+    });
+  }
+);
+
+const savePushSubscription = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.savePushSubscription(
+      req.user.id,
+      req.body,
+      req.get("user-agent")
+    );
+
+    sendResponse(res, {
+      statusCode: 201,
+      success: true,
+      message: "Push subscription saved successfully",
+      data: result,
+    });
+  }
+);
+
+const deletePushSubscription = catchAsync(
+  async (req: Request & { user?: any }, res: Response) => {
+    const result = await NotificationServices.deletePushSubscription(
+      req.user.id,
+      req.body.endpoint
+    );
+
+    sendResponse(res, {
+      statusCode: 200,
+      success: true,
+      message: "Push subscription removed successfully",
+      data: result,
+    });
+  }
+);
+
+export const NotificationControllers = {
+  getNotifications,
+  getUnreadCount,
+  getNotificationById,
+  markAsRead,
+  markAsUnread,
+  markAllAsRead,
+  deleteNotification,
+  getReminderRules,
+  createReminderRule,
+  updateReminderRule,
+  deleteReminderRule,
+  savePushSubscription,
+  deletePushSubscription,
+};
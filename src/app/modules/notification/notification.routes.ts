@@ -0,0 +1,97 @@
+import express from "express";
+import auth from "../../middleware/auth";
+import validateRequest from "../../middleware/validateRequest";
+import { NotificationControllers } from "./notification.controller";
+import {
+  createReminderRuleSchema,
+  deletePushSubscriptionSchema,
+  getNotificationsSchema,
+  notificationParamsSchema,
+  reminderRuleParamsSchema,
+  savePushSubscriptionSchema,
+  updateReminderRuleSchema,
+} from "./notification.validation";
+
+const router = express.Router();
+
+// Inbox
+router.get(
+  "/",
+  auth(),
+  validateRequest(getNotificationsSchema),
+  NotificationControllers.getNotifications
+);
+
+router.get("/unread-count", auth(), NotificationControllers.getUnreadCount);
+
+router.post("/read-all", auth(), NotificationControllers.markAllAsRead);
+
+// Reminder rules
+router.get("/rules", auth(), NotificationControllers.getReminderRules);
+
+router.post(
+  "/rules",
+  auth(),
+  validateRequest(createReminderRuleSchema),
+  NotificationControllers.createReminderRule
+);
+
+router.patch(
+  "/rules/:ruleId",
+  auth(),
+  validateRequest(updateReminderRuleSchema),
+  NotificationControllers.updateReminderRule
+);
+
+router.delete(
+  "/rules/:ruleId",
+  auth(),
+  validateRequest(reminderRuleParamsSchema),
+  NotificationControllers.deleteReminderRule
+);
+
+// Web push subscriptions from the browser's PushManager
+router.post(
+  "/push-subscriptions",
+  auth(),
+  validateRequest(savePushSubscriptionSchema),
+  NotificationControllers.savePushSubscription
+);
+
+router.delete(
+  "/push-subscriptions",
+  auth(),
+  validateRequest(deletePushSubscriptionSchema),
+  NotificationControllers.deletePushSubscription
+);
+
+// Single notification
+router.get(
+  "/:id",
+  auth(),
+  validateRequest(notificationParamsSchema),
+  NotificationControllers.getNotificationById
+);
+
+router.patch(
+  "/:id/read",
+  auth(),
+  validateRequest(notificationParamsSchema),
+  NotificationControllers.markAsRead
+);
+
+router.patch(
+  "/:id/unread",
+  auth(),
+  validateRequest(notificationParamsSchema),
+  NotificationControllers.markAsUnread
+);
+
+router.delete(
+  "/:id",
+  auth(),
+  validateRequest(notificationParamsSchema),
+  NotificationControllers.deleteNotification
+);
+
+export const NotificationRoutes = router;
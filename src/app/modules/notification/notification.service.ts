@@ -0,0 +1,216 @@
+import { Prisma } from "@prisma/client";
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { notificationChannels } from "./notification-channels";
+import {
+  INotificationFilters,
+  INotificationMessage,
+  IPushSubscriptionCreate,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from "./notification.types";
+
+// Stores the notification in the user's inbox and hands it to each channel.
+// A failing channel is recorded on the delivery and does not affect the
+// others. Returns null when a notification with the same dedupeKey exists.
+const notify = async (
+  userId: string,
+  message: INotificationMessage,
+  channels: NotificationChannel[] = []
+) => {
+  if (message.dedupeKey) {
+    const existing = await prisma.notification.findUnique({
+      where: { userId_dedupeKey: { userId, dedupeKey: message.dedupeKey } },
+    });
+
+    if (existing) return null;
+  }
+
+  let notification;
+  try {
+    notification = await prisma.notification.create({
+      data: {
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        data: message.data as Prisma.InputJsonObject | undefined,
+        dedupeKey: message.dedupeKey,
+        ruleId: message.ruleId,
+        userId,
+      },
+    });
+  } catch (error: any) {
+    // Another scheduler run created it in the meantime
+    if (error.code === "P2002") return null;
+    throw error;
+  }
+
+  const recipient = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true },
+  });
+
+  if (!recipient) return notification;
+
+  const deliveries = [];
+
+  for (const channel of Array.from(new Set(channels))) {
+    let status: NotificationDeliveryStatus;
+    let error: string | null = null;
+
+    try {
+      status = await notificationChannels
+        .getChannel(channel)
+        .send(recipient, notification);
+    } catch (sendError) {
+      status = NotificationDeliveryStatus.FAILED;
+      error =
+        sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    deliveries.push(
+      await prisma.notificationDelivery.create({
+        data: { channel, status, error, notificationId: notification.id },
+      })
+    );
+  }
+
+  return { ...notification, deliveries };
+};
+
+const getNotifications = async (
+  userId: string,
+  filters: INotificationFilters,
+  page = 1,
+  limit = 20
+) => {
+  const where: Prisma.NotificationWhereInput = {
+    userId,
+    ...(filters.unread !== undefined && {
+      readAt: filters.unread ? null : { not: null },
+    }),
+    ...(filters.type && { type: filters.type }),
+  };
+
+  const [notifications, total, unread] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { userId, readAt: null } }),
+  ]);
+
+  return {
+    data: notifications,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      unread,
+    },
+  };
+};
+
+const getUnreadCount = async (userId: string) => {
+  const unread = await prisma.notification.count({
+    where: { userId, readAt: null },
+  });
+
+  return { unread };
+};
+
+const getNotificationById = async (userId: string, notificationId: string) => {
+  const notification = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+    include: { deliveries: true },
+  });
+
+  if (!notification) {
+    throw new ApiError(404, "Notification not found");
+  }
+
+  return notification;
+};
+
+const setReadState = async (
+  userId: string,
+  notificationId: string,
+  read: boolean
+) => {
+  const notification = await getNotificationById(userId, notificationId);
+
+  // Keep the original read time when marking an already read one again
+  if (read && notification.readAt) return notification;
+
+  return prisma.notification.update({
+    where: { id: notificationId },
+    data: { readAt: read ? new Date() : null },
+  });
+};
+
+const markAllRead = async (userId: string) => {
+  const result = await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  return { updated: result.count };
+};
+
+const deleteNotification = async (userId: string, notificationId: string) => {
+  await getNotificationById(userId, notificationId);
+
+  await prisma.notification.delete({ where: { id: notificationId } });
+
+  return { message: "Notification deleted successfully" };
+};
+
+// Browsers re-subscribe with the same endpoint; the latest owner wins
+const savePushSubscription = async (
+  userId: string,
+  payload: IPushSubscriptionCreate,
+  userAgent?: string
+) => {
+  const data = {
+    p256dh: payload.keys.p256dh,
+    auth: payload.keys.auth,
+    userAgent: userAgent || null,
+    userId,
+  };
+
+  const subscription = await prisma.pushSubscription.upsert({
+    where: { endpoint: payload.endpoint },
+    create: { ...data, endpoint: payload.endpoint },
+    update: data,
+  });
+
+  return subscription;
+};
+
+const deletePushSubscription = async (userId: string, endpoint: string) => {
+  const result = await prisma.pushSubscription.deleteMany({
+    where: { userId, endpoint },
+  });
+
+  if (!result.count) {
+    throw new ApiError(404, "Push subscription not found");
+  }
+
+  return { message: "Push subscription removed successfully" };
+};
+
+export const NotificationServices = {
+  notify,
+  getNotifications,
+  getUnreadCount,
+  getNotificationById,
+  setReadState,
+  markAllRead,
+  deleteNotification,
+  savePushSubscription,
+  deletePushSubscription,
+};
@@ -0,0 +1,70 @@
+export enum ReminderTarget {
+  CLASS = "CLASS",
+  EXAM = "EXAM",
+  STUDY_PLAN_DEADLINE = "STUDY_PLAN_DEADLINE",
+}
+
+export enum NotificationType {
+  CLASS_REMINDER = "CLASS_REMINDER",
+  EXAM_REMINDER = "EXAM_REMINDER",
+  DEADLINE_REMINDER = "DEADLINE_REMINDER",
+  BUDGET_ALERT = "BUDGET_ALERT",
+}
+
+// Delivery channels on top of the in-app inbox, which always gets a copy
+export enum NotificationChannel {
+  EMAIL = "EMAIL",
+  WEB_PUSH = "WEB_PUSH",
+}
+
+export enum NotificationDeliveryStatus {
+  SENT = "SENT",
+  SKIPPED = "SKIPPED",
+  FAILED = "FAILED",
+}
+
+// Reminders can be set up to 30 days ahead
+export const MAX_REMINDER_LEAD_MINUTES = 30 * 24 * 60;
+
+export interface IReminderRuleCreate {
+  target: ReminderTarget;
+  leadMinutes: number;
+  channels?: NotificationChannel[];
+  subjectId?: string | null;
+  isActive?: boolean;
+}
+
+export interface IReminderRuleUpdate {
+  leadMinutes?: number;
+  channels?: NotificationChannel[];
+  subjectId?: string | null;
+  isActive?: boolean;
+}
+
+export interface INotificationFilters {
+  unread?: boolean;
+  type?: NotificationType;
+}
+
+export interface INotificationMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  // Notifications with the same key are only created once per user
+  dedupeKey?: string;
+  ruleId?: string;
+}
+
+export interface IPushSubscriptionCreate {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface IDueRemindersResult {
+  rules: number;
+  notifications: number;
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import {
+  MAX_REMINDER_LEAD_MINUTES,
+  NotificationChannel,
+  NotificationType,
+  ReminderTarget,
+} from "./notification.types";
+
+const leadMinutes = z
+  .number({
+    required_error: "Lead time is required",
+    invalid_type_error: "Lead time must be a number of minutes",
+  })
+  .int("Lead time must be a whole number of minutes")
+  .min(0, "Lead time cannot be negative")
+  .max(
+    MAX_REMINDER_LEAD_MINUTES,
+    `Lead time cannot exceed ${MAX_REMINDER_LEAD_MINUTES} minutes (30 days)`
+  );
+
+const channels = z.array(z.nativeEnum(NotificationChannel)).max(2);
+
+export const getNotificationsSchema = z.object({
+  query: z.object({
+    unread: z.enum(["true", "false"]).optional(),
+    type: z.nativeEnum(NotificationType).optional(),
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional(),
+  }),
+});
+
+export const notificationParamsSchema = z.object({
+  params: z.object({
+    id: z.string({
+      required_error: "Notification ID is required",
+    }),
+  }),
+});
+
+export const createReminderRuleSchema = z.object({
+  body: z.object({
+    target: z.nativeEnum(ReminderTarget, {
+      required_error: "Target is required",
+      invalid_type_error: "Target must be CLASS, EXAM or STUDY_PLAN_DEADLINE",
+    }),
+    leadMinutes,
+    channels: channels.optional(),
+    subjectId: z.string().nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const updateReminderRuleSchema = z.object({
+  params: z.object({
+    ruleId: z.string({
+      required_error: "Reminder rule ID is required",
+    }),
+  }),
+  body: z.object({
+    leadMinutes: leadMinutes.optional(),
+    channels: channels.optional(),
+    subjectId: z.string().nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const reminderRuleParamsSchema = z.object({
+  params: z.object({
+    ruleId: z.string({
+      required_error: "Reminder rule ID is required",
+    }),
+  }),
+});
+
+export const savePushSubscriptionSchema = z.object({
+  body: z.object({
+    endpoint: z
+      .string({
+        required_error: "Endpoint is required",
+      })
+      .url("Endpoint must be a valid URL"),
+    keys: z.object(
+      {
+        p256dh: z.string().min(1, "p256dh key is required"),
+        auth: z.string().min(1, "auth key is required"),
+      },
+      { required_error: "Subscription keys are required" }
+    ),
+  }),
+});
+
+export const deletePushSubscriptionSchema = z.object({
+  body: z.object({
+    endpoint: z
+      .string({
+        required_error: "Endpoint is required",
+      })
+      .url("Endpoint must be a valid URL"),
+  }),
+});
@@ -0,0 +1,96 @@
+import ApiError from "../../errors/ApiError";
+import prisma from "../../shared/prisma";
+import { IReminderRuleCreate, IReminderRuleUpdate } from "./notification.types";
+
+const checkSubject = async (userId: string, subjectId?: string | null) => {
+  if (!subjectId) return;
+
+  const subject = await prisma.subject.findFirst({
+    where: { id: subjectId, userId },
+    select: { id: true },
+  });
+
+  if (!subject) {
+    throw new ApiError(404, "Subject not found");
+  }
+};
+
+const getReminderRules = async (userId: string) => {
+  const rules = await prisma.reminderRule.findMany({
+    where: { userId },
+    include: { subject: { select: { id: true, name: true, color: true } } },
+    orderBy: [{ target: "asc" }, { leadMinutes: "desc" }],
+  });
+
+  return rules;
+};
+
+const getReminderRuleById = async (userId: string, ruleId: string) => {
+  const rule = await prisma.reminderRule.findFirst({
+    where: { id: ruleId, userId },
+  });
+
+  if (!rule) {
+    throw new ApiError(404, "Reminder rule not found");
+  }
+
+  return rule;
+};
+
+const createReminderRule = async (
+  userId: string,
+  payload: IReminderRuleCreate
+) => {
+  await checkSubject(userId, payload.subjectId);
+
+  const rule = await prisma.reminderRule.create({
+    data: {
+      target: payload.target,
+      leadMinutes: payload.leadMinutes,
+      channels: Array.from(new Set(payload.channels || [])),
+      subjectId: payload.subjectId || null,
+      isActive: payload.isActive ?? true,
+      userId,
+    },
+  });
+
+  return rule;
+};
+
+const updateReminderRule = async (
+  userId: string,
+  ruleId: string,
+  payload: IReminderRuleUpdate
+) => {
+  const rule = await getReminderRuleById(userId, ruleId);
+
+  await checkSubject(userId, payload.subjectId);
+
+  const updatedRule = await prisma.reminderRule.update({
+    where: { id: ruleId },
+    data: {
+      ...payload,
+      ...(payload.channels && {
+        channels: Array.from(new Set(payload.channels)),
+      }),
+    },
+  });
+
+  return updatedRule;
+};
+
+const deleteReminderRule = async (userId: string, ruleId: string) => {
+  await getReminderRuleById(userId, ruleId);
+
+  await prisma.reminderRule.delete({ where: { id: ruleId } });
+
+  return { message: "Reminder rule deleted successfully" };
+};
+
+export const ReminderRuleServices = {
+  getReminderRules,
+  getReminderRuleById,
+  createReminderRule,
+  updateReminderRule,
+  deleteReminderRule,
+};
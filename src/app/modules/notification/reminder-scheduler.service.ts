@@ -0,0 +1,247 @@
+import { ReminderRule } from "@prisma/client";
+import config from "../../../config";
+import { timezoneHelpers } from "../../../helpers/timezoneHelpers";
+import prisma from "../../shared/prisma";
+import { addDays, matchSubject } from "../class/class.utils";
+import { ClassOccurrenceServices } from "../class/occurrence.service";
+import { NotificationServices } from "./notification.service";
+import {
+  IDueRemindersResult,
+  NotificationChannel,
+  NotificationType,
+  ReminderTarget,
+} from "./notification.types";
+
+type TDueEvent = {
+  key: string;
+  startsAt: Date;
+  type: NotificationType;
+  title: string;
+  body: (when: string) => string;
+  data: Record<string, unknown>;
+};
+
+// "today at 09:00", "tomorrow at 14:30" or "on Friday, 2025-10-24 at 10:00"
+// in the user's time zone
+const describeWhen = (startsAt: Date, now: Date, timeZone: string) => {
+  const event = timezoneHelpers.getZonedParts(startsAt, timeZone);
+  const today = timezoneHelpers.getLocalDate(timeZone, now);
+
+  const day =
+    event.date === today
+      ? "today"
+      : event.date === addDays(today, 1)
+      ? "tomorrow"
+      : `on ${event.weekday}, ${event.date}`;
+
+  return `${day} at ${event.time}`;
+};
+
+const findClassEvents = async (
+  rule: ReminderRule,
+  timeZone: string,
+  now: Date,
+  until: Date
+): Promise<TDueEvent[]> => {
+  const occurrences = await ClassOccurrenceServices.getOccurrences(
+    rule.userId,
+    timezoneHelpers.getLocalDate(timeZone, now),
+    timezoneHelpers.getLocalDate(timeZone, until),
+    { subjectId: rule.subjectId || undefined }
+  );
+
+  return occurrences
+    .map((occurrence) => ({
+      occurrence,
+      startsAt: timezoneHelpers.toInstant(
+        occurrence.date,
+        occurrence.startTime,
+        timeZone
+      ),
+    }))
+    .filter(({ startsAt }) => startsAt > now && startsAt <= until)
+    .map(({ occurrence, startsAt }) => ({
+      // Rescheduled meetings get their own reminder at the new time
+      key: `class:${occurrence.classId}:${occurrence.date}T${occurrence.startTime}`,
+      startsAt,
+      type: NotificationType.CLASS_REMINDER,
+      title: `${occurrence.subject} at ${occurrence.startTime}`,
+      body: (when) =>
+        `${occurrence.subject} starts ${when}` +
+        (occurrence.location ? ` in ${occurrence.location}` : "") +
+        (occurrence.status === "room_changed" ? " (room changed)" : "") +
+        ".",
+      data: {
+        classId: occurrence.classId,
+        date: occurrence.date,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        location: occurrence.location,
+      },
+    }));
+};
+
+const findExamEvents = async (
+  rule: ReminderRule,
+  now: Date,
+  until: Date
+): Promise<TDueEvent[]> => {
+  const subjects = await prisma.subject.findMany({
+    where: {
+      userId: rule.userId,
+      isArchived: false,
+      nextExamDate: { gt: now, lte: until },
+      ...(rule.subjectId && { id: rule.subjectId }),
+    },
+  });
+
+  return subjects.map((subject) => {
+    const exam = subject.examType || "Exam";
+    const startsAt = subject.nextExamDate as Date;
+
+    return {
+      key: `exam:${subject.id}:${startsAt.toISOString()}`,
+      startsAt,
+      type: NotificationType.EXAM_REMINDER,
+      title: `${exam}: ${subject.name}`,
+      body: (when) => `Your ${subject.name} ${exam.toLowerCase()} is ${when}.`,
+      data: { subjectId: subject.id, examDate: startsAt.toISOString() },
+    };
+  });
+};
+
+const findDeadlineEvents = async (
+  rule: ReminderRule,
+  now: Date,
+  until: Date
+): Promise<TDueEvent[]> => {
+  const plans = await prisma.studyPlan.findMany({
+    where: {
+      userId: rule.userId,
+      status: { not: "COMPLETED" },
+      deadline: { gt: now, lte: until },
+    },
+  });
+
+  // Study plans name their subject as free text; it is matched against the
+  // user's subjects the same way class names are
+  const subjects = rule.subjectId
+    ? await prisma.subject.findMany({
+        where: { userId: rule.userId },
+        select: { id: true, name: true, code: true },
+      })
+    : [];
+  const matchingPlans = rule.subjectId
+    ? plans.filter(
+        (plan) => matchSubject(subjects, plan.subject)?.id === rule.subjectId
+      )
+    : plans;
+
+  return matchingPlans.map((plan) => {
+    const startsAt = plan.deadline as Date;
+
+    return {
+      key: `study-plan:${plan.id}:${startsAt.toISOString()}`,
+      startsAt,
+      type: NotificationType.DEADLINE_REMINDER,
+      title: `Deadline: ${plan.title}`,
+      body: (when) => `"${plan.title}" (${plan.subject}) is due ${when}.`,
+      data: { studyPlanId: plan.id, deadline: startsAt.toISOString() },
+    };
+  });
+};
+
+// Sends a reminder for every class, exam or deadline that starts within a
+// rule's lead time. Runs are idempotent: each reminder is created once per
+// rule and event, so a missed run is caught up by the next one as long as
+// the event has not started yet.
+const runDueReminders = async (
+  now = new Date()
+): Promise<IDueRemindersResult> => {
+  const rules = await prisma.reminderRule.findMany({
+    where: {
+      isActive: true,
+      user: { suspendedAt: null, deletionRequestedAt: null },
+    },
+    include: { user: { select: { timezone: true } } },
+  });
+
+  let notifications = 0;
+
+  for (const rule of rules) {
+    const until = new Date(now.getTime() + rule.leadMinutes * 60 * 1000);
+
+    try {
+      let events: TDueEvent[] = [];
+
+      switch (rule.target) {
+        case ReminderTarget.CLASS:
+          events = await findClassEvents(rule, rule.user.timezone, now, until);
+          break;
+        case ReminderTarget.EXAM:
+          events = await findExamEvents(rule, now, until);
+          break;
+        case ReminderTarget.STUDY_PLAN_DEADLINE:
+          events = await findDeadlineEvents(rule, now, until);
+          break;
+      }
+
+      for (const event of events) {
+        const notification = await NotificationServices.notify(
+          rule.userId,
+          {
+            type: event.type,
+            title: event.title,
+            body: event.body(
+              describeWhen(event.startsAt, now, rule.user.timezone)
+            ),
+            data: { ...event.data, startsAt: event.startsAt.toISOString() },
+            dedupeKey: `${rule.id}:${event.key}`,
+            ruleId: rule.id,
+          },
+          rule.channels as NotificationChannel[]
+        );
+
+        if (notification) notifications += 1;
+      }
+    } catch (error) {
+      // One broken rule must not hold back everyone else's reminders
+      console.error(`Reminder rule ${rule.id} failed:`, error);
+    }
+  }
+
+  return { rules: rules.length, notifications };
+};
+
+let isRunning = false;
+
+// Runs the scheduler in-process on long-running servers. Serverless
+// deployments trigger POST /admin/maintenance/send-due-reminders instead.
+const startReminderScheduler = () => {
+  const intervalSeconds = config.notifications.scheduler_interval_seconds;
+
+  if (!intervalSeconds) return null;
+
+  const timer = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      await runDueReminders();
+    } catch (error) {
+      console.error("Reminder scheduler run failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalSeconds * 1000);
+
+  // Never keep the process alive just for reminders
+  timer.unref();
+
+  return timer;
+};
+
+export const ReminderSchedulerServices = {
+  runDueReminders,
+  startReminderScheduler,
+};
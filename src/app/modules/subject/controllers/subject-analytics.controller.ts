@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
+import { timezoneHelpers } from "../../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../../helpers/userHelpers";
 import catchAsync from "../../../shared/catchAsync";
 import sendResponse from "../../../shared/sendResponse";
+import { addDays } from "../../class/class.utils";
 import * as focusSessionService from "../services/focus-session.service";
 import * as studySessionService from "../services/study-session.service";
 import * as subjectAnalyticsService from "../services/subject-analytics.service";
@@ -64,13 +67,13 @@ const getDashboardOverview = catchAsync(
     );
 
     // Get today's study sessions
-    const today = new Date();
-    const todayStart = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate()
+    const timeZone = await getUserTimezone(userId);
+    const today = timezoneHelpers.getLocalDate(timeZone);
+    const todayStart = timezoneHelpers.startOfLocalDay(today, timeZone);
+    const todayEnd = timezoneHelpers.startOfLocalDay(
+      addDays(today, 1),
+      timeZone
     );
-    const todayEnd = new Date(todayStart.getTime() + 24 * 60 * 60 * 1000);
 
     const todaySessions = await studySessionService.getStudySessions(
       userId,
@@ -95,17 +98,10 @@ const getDashboardOverview = catchAsync(
       5
     );
 
-    // Calculate weekly progress
-    const weekStart = new Date();
-    weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 7);
-
+    // Calculate weekly progress (the current week in the user's time zone)
     const weeklyTimeTracking = await subjectAnalyticsService.getTimeTracking(
       userId,
-      "week",
-      weekStart.toISOString(),
-      weekEnd.toISOString()
+      "week"
     );
 
     const dashboardData = {
@@ -1,4 +1,16 @@
+import {
+  DEFAULT_TIMEZONE,
+  timezoneHelpers,
+} from "../../../../helpers/timezoneHelpers";
+import { getUserTimezone } from "../../../../helpers/userHelpers";
 import prisma from "../../../shared/prisma";
+import {
+  addDays,
+  getLocalDateString,
+  timeToMinutes,
+  toDateString,
+} from "../../class/class.utils";
+import { ClassOccurrenceServices } from "../../class/occurrence.service";
 import { ISubjectAnalytics, ITimeTracking } from "../subject.types";
 import { getSubjectById } from "./subject-crud.service";
 
@@ -9,6 +21,7 @@ const getSubjectAnalytics = async (
   period = "week"
 ) => {
   const subject = await getSubjectById(userId, subjectId);
+  const timeZone = await getUserTimezone(userId);
 
   const now = new Date();
   let startDate: Date;
@@ -32,7 +45,7 @@ const getSubjectAnalytics = async (
       startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
   }
 
-  const [sessions, weeklyHours] = await Promise.all([
+  const [sessions, weeklyHours, classHours] = await Promise.all([
     prisma.studySession.findMany({
       where: {
         subjectId,
@@ -41,6 +54,7 @@ const getSubjectAnalytics = async (
       orderBy: { startTime: "asc" },
     }),
     getWeeklyHours(userId, subjectId),
+    getClassHours(userId, subjectId, startDate, timeZone),
   ]);
 
   // Calculate analytics
@@ -60,7 +74,7 @@ const getSubjectAnalytics = async (
       : 0;
 
   // Daily breakdown
-  const dailyBreakdown = getDailyBreakdown(sessions, startDate, now);
+  const dailyBreakdown = getDailyBreakdown(sessions, startDate, now, timeZone);
 
   // Weekly progress
   const targetHours = subject.targetHoursPerWeek || 0;
@@ -91,6 +105,11 @@ const getSubjectAnalytics = async (
       totalSessions: sessions.length,
       averageProductivity,
     },
+    classHours: {
+      ...classHours,
+      periodSelfStudyHours: totalHours,
+      periodTotalHours: classHours.periodContactHours + totalHours,
+    },
     upcomingEvents,
   };
 
@@ -104,7 +123,7 @@ const getTimeTracking = async (
   endDate?: string,
   subjectId?: string
 ) => {
-  const now = new Date();
+  const timeZone = await getUserTimezone(userId);
   let start: Date;
   let end: Date;
 
@@ -112,23 +131,33 @@ const getTimeTracking = async (
     start = new Date(startDate);
     end = new Date(endDate);
   } else {
+    // Calendar periods start at midnight in the user's time zone
+    const today = timezoneHelpers.getLocalDate(timeZone);
+    const localStart = (date: string) =>
+      timezoneHelpers.startOfLocalDay(date, timeZone);
+
     switch (period) {
       case "day":
-        start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+        start = localStart(today);
+        end = localStart(addDays(today, 1));
         break;
       case "week":
-        const weekStart = now.getDate() - now.getDay();
-        start = new Date(now.getFullYear(), now.getMonth(), weekStart);
-        end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+        const weekStart = addDays(
+          today,
+          -new Date(`${today}T00:00:00Z`).getUTCDay()
+        );
+        start = localStart(weekStart);
+        end = localStart(addDays(weekStart, 7));
         break;
       case "month":
-        start = new Date(now.getFullYear(), now.getMonth(), 1);
-        end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+        const monthStart = `${today.slice(0, 8)}01`;
+        const nextMonthStart = `${addDays(monthStart, 31).slice(0, 8)}01`;
+        start = localStart(monthStart);
+        end = localStart(nextMonthStart);
         break;
       default:
-        start = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        end = now;
+        end = new Date();
+        start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
     }
   }
 
@@ -156,7 +185,7 @@ const getTimeTracking = async (
     orderBy: { startTime: "desc" },
   });
 
-  return generateTimeTrackingReport(sessions, start, end, period);
+  return generateTimeTrackingReport(sessions, start, end, period, timeZone);
 };
 
 // Helper functions
@@ -182,29 +211,112 @@ const getWeeklyHours = async (
   );
 };
 
-const getDailyBreakdown = (sessions: any[], startDate: Date, endDate: Date) => {
-  const days: any[] = [];
-  const currentDate = new Date(startDate);
+// Share of weeks a class meets in; classes on specific dates have no
+// regular weekly load
+const WEEKLY_SHARE: Record<string, number> = {
+  WEEKLY: 1,
+  BIWEEKLY: 0.5,
+  DATES: 0,
+};
+
+// Contact hours from timetabled classes linked to the subject: the regular
+// weekly load, plus meetings already held in the last week and since
+// startDate, with cancellations, reschedules and holidays applied
+const getClassHours = async (
+  userId: string,
+  subjectId: string,
+  startDate: Date,
+  timeZone: string
+) => {
+  const { date: today, minutes: currentMinutes } =
+    timezoneHelpers.getZonedParts(new Date(), timeZone);
+  const weekAgo = addDays(today, -7);
+  const periodStart = getLocalDateString(timeZone, startDate);
+
+  const [classes, occurrences] = await Promise.all([
+    prisma.class.findMany({
+      where: { userId, subjectId },
+      orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
+    }),
+    ClassOccurrenceServices.getOccurrences(
+      userId,
+      periodStart < weekAgo ? periodStart : weekAgo,
+      today,
+      { subjectId }
+    ),
+  ]);
+
+  const hoursOf = (item: { startTime: string; endTime: string }) =>
+    (timeToMinutes(item.endTime) - timeToMinutes(item.startTime)) / 60;
 
-  while (currentDate < endDate) {
-    const dayStart = new Date(currentDate);
-    const dayEnd = new Date(currentDate);
-    dayEnd.setDate(dayEnd.getDate() + 1);
+  const held = occurrences.filter(
+    (occurrence) =>
+      occurrence.date < today ||
+      timeToMinutes(occurrence.endTime) <= currentMinutes
+  );
+  const inPeriod = held.filter((occurrence) => occurrence.date >= periodStart);
 
+  return {
+    classes: classes.map((classItem) => ({
+      id: classItem.id,
+      dayOfWeek: classItem.dayOfWeek,
+      startTime: classItem.startTime,
+      endTime: classItem.endTime,
+      location: classItem.location,
+    })),
+    scheduledHoursPerWeek: classes
+      .filter(
+        (classItem) =>
+          (!classItem.semesterStart ||
+            toDateString(classItem.semesterStart) <= today) &&
+          (!classItem.semesterEnd ||
+            toDateString(classItem.semesterEnd) >= today)
+      )
+      .reduce(
+        (sum, classItem) =>
+          sum + hoursOf(classItem) * WEEKLY_SHARE[classItem.recurrence],
+        0
+      ),
+    weeklyContactHours: held
+      .filter((occurrence) => occurrence.date > weekAgo)
+      .reduce((sum, occurrence) => sum + hoursOf(occurrence), 0),
+    periodContactHours: inPeriod.reduce(
+      (sum, occurrence) => sum + hoursOf(occurrence),
+      0
+    ),
+    periodMeetings: inPeriod.length,
+  };
+};
+
+// Hours per calendar day in the user's time zone, for every day the range
+// touches
+const getDailyBreakdown = (
+  sessions: any[],
+  startDate: Date,
+  endDate: Date,
+  timeZone = DEFAULT_TIMEZONE
+) => {
+  const days: { date: string; hours: number }[] = [];
+  const lastDate = timezoneHelpers.getLocalDate(
+    timeZone,
+    new Date(endDate.getTime() - 1)
+  );
+
+  for (
+    let date = timezoneHelpers.getLocalDate(timeZone, startDate);
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
     const daySessions = sessions.filter(
-      (session) => session.startTime >= dayStart && session.startTime < dayEnd
+      (session) =>
+        timezoneHelpers.getLocalDate(timeZone, session.startTime) === date
     );
 
     const totalHours =
       daySessions.reduce((sum, session) => sum + (session.duration || 0), 0) /
       60;
 
-    days.push({
-      date: currentDate.toISOString().split("T")[0],
-      hours: totalHours,
-    });
-
-    currentDate.setDate(currentDate.getDate() + 1);
+    days.push({ date, hours: totalHours });
   }
 
   return days;
@@ -214,7 +326,8 @@ const generateTimeTrackingReport = (
   sessions: any[],
   startDate: Date,
   endDate: Date,
-  period: string
+  period: string,
+  timeZone = DEFAULT_TIMEZONE
 ): ITimeTracking => {
   const totalHours =
     sessions.reduce(
@@ -223,11 +336,11 @@ const generateTimeTrackingReport = (
     ) / 60;
 
   // Daily breakdown
-  const daily = getDailyBreakdown(sessions, startDate, endDate).map(
+  const daily = getDailyBreakdown(sessions, startDate, endDate, timeZone).map(
     (day: any) => {
       const daySessions = sessions.filter(
         (session: any) =>
-          session.startTime.toISOString().split("T")[0] === day.date
+          timezoneHelpers.getLocalDate(timeZone, session.startTime) === day.date
       );
 
       const subjectHours = daySessions.reduce((acc: any, session: any) => {
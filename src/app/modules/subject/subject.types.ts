@@ -184,6 +184,22 @@ export interface ISubjectAnalytics {
     totalSessions: number;
     averageProductivity: number;
   };
+  // Timetabled classes linked to the subject next to self-study time
+  classHours: {
+    classes: Array<{
+      id: string;
+      dayOfWeek: string;
+      startTime: string;
+      endTime: string;
+      location: string | null;
+    }>;
+    scheduledHoursPerWeek: number;
+    weeklyContactHours: number;
+    periodContactHours: number;
+    periodMeetings: number;
+    periodSelfStudyHours: number;
+    periodTotalHours: number;
+  };
   upcomingEvents: Array<{
     type: "exam" | "deadline";
     date: Date;
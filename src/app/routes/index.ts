@@ -1,5 +1,6 @@
 import express from "express";
 import testRoutes from "../../test-routes";
+import { AdminRoutes } from "../modules/admin/admin.routes";
 import { AnalyticsRoutes } from "../modules/analytics/analytics.routes";
 import { AuthRoutes } from "../modules/Auth/auth.routes";
 import { BudgetRoutes } from "../modules/budget/budget.routes";
@@ -8,6 +9,7 @@ import { CollaborationRoutes } from "../modules/collaboration/collaboration.rout
 import { ExamRoutes } from "../modules/exam/exam.routes";
 import { FocusRoutes } from "../modules/focus/focus.routes";
 import { LearningRoutes } from "../modules/learning/learning.routes";
+import { NotificationRoutes } from "../modules/notification/notification.routes";
 import { StudyPlannerRoutes } from "../modules/study-planner/study-planner.routes";
 import { SubjectRoutes } from "../modules/subject/subject.routes";
 
@@ -57,6 +59,14 @@ const moduleRoutes = [
     path: "/focus",
     route: FocusRoutes,
   },
+  {
+    path: "/notifications",
+    route: NotificationRoutes,
+  },
+  {
+    path: "/admin",
+    route: AdminRoutes,
+  },
   {
     path: "/test",
     route: testRoutes,
@@ -0,0 +1,79 @@
+import fs from "fs/promises";
+import path from "path";
+import config from "../../config";
+
+export type TMailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface IMailTransport {
+  send: (message: TMailMessage & { from: string }) => Promise<void>;
+}
+
+// Prints outgoing mail to the server log (default for local development)
+const consoleTransport: IMailTransport = {
+  send: async (message) => {
+    console.log("📧 Outgoing mail:");
+    console.log(`  From: ${message.from}`);
+    console.log(`  To: ${message.to}`);
+    console.log(`  Subject: ${message.subject}`);
+    console.log(message.text);
+  },
+};
+
+// Writes each message as a JSON file into the outbox directory
+const fileTransport: IMailTransport = {
+  send: async (message) => {
+    const outboxDir = path.join(process.cwd(), config.mail.outbox_dir);
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(
+      /[^a-z0-9]/gi,
+      "_"
+    )}.json`;
+    await fs.writeFile(
+      path.join(outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+};
+
+const transports: Record<string, IMailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+let activeTransport: IMailTransport =
+  transports[config.mail.transport] || consoleTransport;
+let hasProviderTransport = false;
+
+// Lets a real provider (SMTP, SES, ...) be plugged in at startup
+const setTransport = (transport: IMailTransport) => {
+  activeTransport = transport;
+  hasProviderTransport = true;
+};
+
+// The console and file transports keep reset and verification links (live
+// tokens) on the server, so production refuses to use them
+const assertProviderConfigured = () => {
+  if (config.env === "production" && !hasProviderTransport) {
+    throw new Error(
+      "No mail provider is configured; register one with mailer.setTransport"
+    );
+  }
+};
+
+const sendMail = async (message: TMailMessage) => {
+  assertProviderConfigured();
+
+  await activeTransport.send({ ...message, from: config.mail.from });
+};
+
+export const mailer = {
+  sendMail,
+  setTransport,
+  assertProviderConfigured,
+};
@@ -0,0 +1,121 @@
+import config from "../../config";
+import prisma from "./prisma";
+
+export type TRateLimitCounter = {
+  count: number;
+  resetAt: Date;
+};
+
+// Fixed-window hit counters shared by the route limiters and login throttling
+export interface IRateLimitStore {
+  increment: (key: string, windowMs: number) => Promise<TRateLimitCounter>;
+  decrement: (key: string) => Promise<void>;
+  get: (key: string) => Promise<TRateLimitCounter | null>;
+  reset: (key: string) => Promise<void>;
+}
+
+// Per-process counters; fine for a single server and for tests
+export const createMemoryRateLimitStore = (): IRateLimitStore => {
+  const counters = new Map<string, TRateLimitCounter>();
+
+  const getActive = (key: string) => {
+    const counter = counters.get(key);
+    if (counter && counter.resetAt.getTime() <= Date.now()) {
+      counters.delete(key);
+      return null;
+    }
+    return counter || null;
+  };
+
+  return {
+    increment: async (key, windowMs) => {
+      const counter = getActive(key) || {
+        count: 0,
+        resetAt: new Date(Date.now() + windowMs),
+      };
+      counter.count += 1;
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    decrement: async (key) => {
+      const counter = getActive(key);
+      if (counter && counter.count > 0) counter.count -= 1;
+    },
+    get: async (key) => {
+      const counter = getActive(key);
+      return counter ? { ...counter } : null;
+    },
+    reset: async (key) => {
+      counters.delete(key);
+    },
+  };
+};
+
+// Counters in Postgres so limits hold across serverless instances
+export const createDatabaseRateLimitStore = (): IRateLimitStore => {
+  const pruneExpired = async () => {
+    await prisma.rateLimitCounter.deleteMany({
+      where: { resetAt: { lte: new Date() } },
+    });
+  };
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+
+      // Single atomic upsert: start a new window if the old one has expired
+      const [counter] = await prisma.$queryRaw<TRateLimitCounter[]>`
+        INSERT INTO "rate_limit_counters" ("key", "count", "resetAt")
+        VALUES (${key}, 1, ${resetAt})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE
+            WHEN "rate_limit_counters"."resetAt" <= ${now} THEN 1
+            ELSE "rate_limit_counters"."count" + 1
+          END,
+          "resetAt" = CASE
+            WHEN "rate_limit_counters"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+            ELSE "rate_limit_counters"."resetAt"
+          END
+        RETURNING "count", "resetAt"
+      `;
+
+      // Opportunistic cleanup instead of a separate job
+      if (Math.random() < 0.01) {
+        pruneExpired().catch((error) =>
+          console.error("Failed to prune rate limit counters:", error)
+        );
+      }
+
+      return { count: Number(counter.count), resetAt: counter.resetAt };
+    },
+    decrement: async (key) => {
+      await prisma.rateLimitCounter.updateMany({
+        where: { key, count: { gt: 0 }, resetAt: { gt: new Date() } },
+        data: { count: { decrement: 1 } },
+      });
+    },
+    get: async (key) => {
+      const counter = await prisma.rateLimitCounter.findUnique({
+        where: { key },
+      });
+      if (!counter || counter.resetAt <= new Date()) return null;
+      return { count: counter.count, resetAt: counter.resetAt };
+    },
+    reset: async (key) => {
+      await prisma.rateLimitCounter.deleteMany({ where: { key } });
+    },
+  };
+};
+
+let activeStore: IRateLimitStore =
+  config.rate_limit.store === "database"
+    ? createDatabaseRateLimitStore()
+    : createMemoryRateLimitStore();
+
+export const getRateLimitStore = () => activeStore;
+
+// Lets tests or other backends (e.g. Redis) replace the store
+export const setRateLimitStore = (store: IRateLimitStore) => {
+  activeStore = store;
+};
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import dotenv from "dotenv";
 import path from "path";
 
@@ -10,10 +11,42 @@ if (process.env.NODE_ENV === "development") {
   console.log("  PORT:", process.env.PORT);
 }
 
+// Challenge tokens must never verify as access tokens, so without an explicit
+// secret one is derived from JWT_SECRET instead of reusing it
+const twoFactorChallengeSecret =
+  process.env.JWT_2FA_CHALLENGE_SECRET ||
+  (process.env.JWT_SECRET &&
+    crypto
+      .createHmac("sha256", process.env.JWT_SECRET)
+      .update("2fa-login-challenge")
+      .digest("hex"));
+
+// OIDC_PROVIDERS="university,google" plus OIDC_<NAME>_ISSUER, _CLIENT_ID,
+// _CLIENT_SECRET, _REDIRECT_URI and optional _LABEL / _SCOPES per provider
+const oidcProviders = (process.env.OIDC_PROVIDERS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean)
+  .map((name) => {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+    return {
+      name,
+      label: process.env[`${prefix}LABEL`] || name,
+      issuer: process.env[`${prefix}ISSUER`] || "",
+      client_id: process.env[`${prefix}CLIENT_ID`] || "",
+      client_secret: process.env[`${prefix}CLIENT_SECRET`],
+      redirect_uri: process.env[`${prefix}REDIRECT_URI`] || "",
+      scopes: process.env[`${prefix}SCOPES`] || "openid email profile",
+    };
+  });
+
 export default {
   env: process.env.NODE_ENV,
   port: process.env.PORT || 3000, // Default to 3000 if PORT is not set
   gemini_api_key: process.env.GEMINI_API_KEY,
+  // Request body limit for statement, exchange rate and timetable imports
+  // (Vercel rejects bodies over 4.5mb on its own)
+  import_body_limit: process.env.IMPORT_BODY_LIMIT || "4mb",
   jwt: {
     jwt_secret: process.env.JWT_SECRET,
     expires_in: process.env.JWT_EXPIRES_IN,
@@ -21,5 +54,98 @@ export default {
     refresh_token_expires_in: process.env.JWT_REFRESH_TOKEN_EXPIRES_IN,
     reset_pass_secret: process.env.JWT_RESET_PASS_TOKEN,
     reset_pass_token_expires_in: process.env.JWT_RESET_PASS_TOKEN_EXPIRES_IN,
+    two_factor_challenge_secret: twoFactorChallengeSecret,
+    two_factor_challenge_expires_in:
+      process.env.JWT_2FA_CHALLENGE_EXPIRES_IN || "5m",
+  },
+  two_factor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || "Student Toolkit",
+    backup_code_count: Number(process.env.TWO_FACTOR_BACKUP_CODE_COUNT || 10),
+  },
+  reset_pass_link: process.env.RESET_PASS_LINK,
+  email_verification: {
+    link: process.env.EMAIL_VERIFICATION_LINK,
+    token_expires_in_hours: Number(
+      process.env.EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS || 24
+    ),
+    resend_interval_seconds: Number(
+      process.env.EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS || 60
+    ),
+    max_resends_per_day: Number(
+      process.env.EMAIL_VERIFICATION_MAX_RESENDS_PER_DAY || 5
+    ),
+    // none | collaboration | login
+    policy: process.env.EMAIL_VERIFICATION_POLICY || "collaboration",
+  },
+  account_deletion_grace_days: Number(
+    process.env.ACCOUNT_DELETION_GRACE_DAYS || 14
+  ),
+  rate_limit: {
+    // memory | database (use database when running on serverless instances)
+    store:
+      process.env.RATE_LIMIT_STORE ||
+      (process.env.NODE_ENV === "production" ? "database" : "memory"),
+    login_max_attempts: Number(process.env.LOGIN_MAX_ATTEMPTS || 5),
+    login_ip_max_attempts: Number(process.env.LOGIN_IP_MAX_ATTEMPTS || 50),
+    login_window_minutes: Number(process.env.LOGIN_WINDOW_MINUTES || 15),
+    lockout_base_minutes: Number(process.env.LOGIN_LOCKOUT_BASE_MINUTES || 1),
+    lockout_max_minutes: Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES || 60),
+    ai_requests_per_minute: Number(process.env.AI_RATE_LIMIT_PER_MINUTE || 10),
+    analytics_requests_per_minute: Number(
+      process.env.ANALYTICS_RATE_LIMIT_PER_MINUTE || 30
+    ),
+  },
+  oidc: {
+    providers: oidcProviders,
+    state_expires_in_minutes: Number(
+      process.env.OIDC_STATE_EXPIRES_IN_MINUTES || 10
+    ),
+    // Local identity provider for development and tests; never in production
+    mock: {
+      enabled:
+        process.env.OIDC_MOCK_ENABLED === "true" &&
+        process.env.NODE_ENV !== "production",
+      issuer:
+        process.env.OIDC_MOCK_ISSUER ||
+        `http://localhost:${process.env.PORT || 3000}/mock-oidc`,
+      redirect_uri:
+        process.env.OIDC_MOCK_REDIRECT_URI ||
+        "http://localhost:3000/auth/oidc/mock/callback",
+    },
+  },
+  class: {
+    // reject | warn: what happens when a class overlaps another one
+    overlap_policy: process.env.CLASS_OVERLAP_POLICY || "reject",
+    // Defaults for the free-slot finder (HH:MM)
+    working_hours_start: process.env.CLASS_WORKING_HOURS_START || "08:00",
+    working_hours_end: process.env.CLASS_WORKING_HOURS_END || "20:00",
+    min_free_slot_minutes: Number(
+      process.env.CLASS_MIN_FREE_SLOT_MINUTES || 30
+    ),
+    // Attendance below this percentage triggers a warning; classes can
+    // override it with minAttendance
+    min_attendance_percent: Number(
+      process.env.CLASS_MIN_ATTENDANCE_PERCENT || 75
+    ),
+    // Check-in opens this many minutes before a class starts and counts as
+    // late this many minutes after
+    check_in_early_minutes: Number(
+      process.env.CLASS_CHECK_IN_EARLY_MINUTES || 15
+    ),
+    late_after_minutes: Number(process.env.CLASS_LATE_AFTER_MINUTES || 10),
+  },
+  notifications: {
+    // Seconds between reminder scheduler runs on a long-running server; 0
+    // disables it (serverless deployments call the maintenance endpoint)
+    scheduler_interval_seconds: Number(
+      process.env.NOTIFICATION_SCHEDULER_INTERVAL_SECONDS ?? 60
+    ),
+    push_transport: process.env.PUSH_TRANSPORT || "console", // console | file
+    push_outbox_dir: process.env.PUSH_OUTBOX_DIR || "tmp/push-outbox",
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || "console", // console | file
+    from: process.env.MAIL_FROM || "no-reply@student-toolkit.local",
+    outbox_dir: process.env.MAIL_OUTBOX_DIR || "tmp/outbox",
   },
 };
@@ -0,0 +1,96 @@
+// Small RFC 4180 CSV reader: quoted fields, escaped quotes, embedded newlines
+
+const detectDelimiter = (content: string) => {
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+const parseRows = (content: string, delimiter = detectDelimiter(content)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+// Rows keyed by their (trimmed) header names. `line` is the 1-based row
+// number in the file, counting the header.
+const parseRecords = (content: string, delimiter?: string) => {
+  const [header = [], ...rows] = parseRows(content, delimiter);
+  const columns = header.map((name) => name.trim());
+
+  return {
+    columns,
+    records: rows.map((cells, index) => ({
+      line: index + 2,
+      values: Object.fromEntries(
+        columns.map((column, columnIndex) => [
+          column,
+          (cells[columnIndex] ?? "").trim(),
+        ])
+      ) as Record<string, string>,
+    })),
+  };
+};
+
+// Finds the first column whose normalized name is one of the candidates
+const findColumn = (columns: string[], candidates: string[]) => {
+  const normalize = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const wanted = candidates.map(normalize);
+
+  return columns.find((column) => wanted.includes(normalize(column)));
+};
+
+export const csvHelpers = {
+  detectDelimiter,
+  parseRows,
+  parseRecords,
+  findColumn,
+};
@@ -0,0 +1,20 @@
+// ISO 4217 currency codes for budget amounts. Amounts are stored as entered;
+// totals are converted into the user's base currency with stored rates.
+
+export const DEFAULT_CURRENCY = "USD";
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const normalizeCurrency = (currency: string) => currency.trim().toUpperCase();
+
+const isValidCurrency = (currency: string) =>
+  CURRENCY_CODE.test(normalizeCurrency(currency));
+
+// Two decimals is right for nearly every currency and keeps totals stable
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export const currencyHelpers = {
+  normalizeCurrency,
+  isValidCurrency,
+  roundAmount,
+};
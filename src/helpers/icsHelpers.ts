@@ -0,0 +1,400 @@
+// Minimal iCalendar (RFC 5545) reader and writer for class timetables
+
+import { timezoneHelpers } from "./timezoneHelpers";
+
+export type TIcsEvent = {
+  uid: string;
+  summary: string;
+  start: Date; // wall-clock time in the calendar's zone, read from the UTC fields
+  end: Date;
+  rrule?: string;
+  exdates?: Date[]; // wall-clock starts of occurrences left out of the rrule
+  location?: string | null;
+  description?: string | null;
+  lastModified?: Date;
+};
+
+// Wall-clock date and time as written in the file. Times with a TZID or
+// without zone are kept as-is; "Z" (UTC) times are flagged.
+export type TIcsDateTime = {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM, null for all-day values
+  utc: boolean;
+};
+
+export type TParsedIcsEvent = {
+  uid?: string;
+  summary?: string;
+  location?: string;
+  description?: string;
+  organizer?: string;
+  status?: string;
+  recurrenceId?: string; // set on overrides of a single occurrence
+  start?: TIcsDateTime;
+  end?: TIcsDateTime;
+  durationMinutes?: number;
+  rrule?: Record<string, string>;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Dates carry wall-clock times in their UTC fields, e.g. 09:00 lecture on
+// 2025-09-01 is new Date("2025-09-01T09:00:00Z") and renders as
+// 20250901T090000 without a zone, which calendar apps show as local time.
+const formatLocalDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}`;
+
+const formatUtcDateTime = (date: Date) => `${formatLocalDateTime(date)}Z`;
+
+// Wall-clock values are tied to the calendar's zone when it has one, and
+// left floating otherwise
+const formatDateTimeProperty = (
+  name: string,
+  dates: Date[],
+  timeZone?: string
+) =>
+  `${name}${timeZone ? `;TZID=${timeZone}` : ""}:${dates
+    .map(formatLocalDateTime)
+    .join(",")}`;
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(
+    Math.abs(minutes) % 60
+  )}`;
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Offset changes of the zone during one year, found day by day and then
+// narrowed down to the minute
+const findOffsetTransitions = (timeZone: string, year: number) => {
+  const transitions: { at: number; from: number; to: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = timezoneHelpers.getOffsetMinutes(
+    new Date(previous),
+    timeZone
+  );
+
+  for (let current = previous + DAY_MS; current <= end; current += DAY_MS) {
+    const offset = timezoneHelpers.getOffsetMinutes(
+      new Date(current),
+      timeZone
+    );
+
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = current;
+
+      while (high - low > MINUTE_MS) {
+        const middle =
+          low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        const middleOffset = timezoneHelpers.getOffsetMinutes(
+          new Date(middle),
+          timeZone
+        );
+
+        if (middleOffset === previousOffset) low = middle;
+        else high = middle;
+      }
+
+      transitions.push({ at: high, from: previousOffset, to: offset });
+    }
+
+    previous = current;
+    previousOffset = offset;
+  }
+
+  return transitions;
+};
+
+// VTIMEZONE for a TZID, starting in the given year. A zone with daylight
+// saving time switches twice a year, which is written as two yearly rules
+// (e.g. last Sunday of March); any other change is written as a one-off.
+const buildTimezone = (timeZone: string, year: number) => {
+  const transitions = findOffsetTransitions(timeZone, year);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  if (!transitions.length) {
+    const offset = formatOffset(
+      timezoneHelpers.getOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone)
+    );
+
+    lines.push(
+      "BEGIN:STANDARD",
+      `DTSTART:${year}0101T000000`,
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
+
+  transitions.forEach((transition) => {
+    // Observances start at the wall-clock time before the switch
+    const local = new Date(transition.at + transition.from * MINUTE_MS);
+    const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+
+    lines.push(`BEGIN:${kind}`, `DTSTART:${formatLocalDateTime(local)}`);
+
+    if (transitions.length === 2) {
+      const day = local.getUTCDate();
+      const daysInMonth = new Date(
+        Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+      lines.push(
+        `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${
+          RRULE_WEEKDAYS[local.getUTCDay()]
+        }`
+      );
+    }
+
+    lines.push(
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`
+    );
+  });
+
+  lines.push("END:VTIMEZONE");
+
+  return lines;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Content lines are limited to 75 octets; continuations start with a space
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = chunks.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+const buildCalendar = (
+  calendar: { name: string; refreshInterval?: string; timeZone?: string },
+  events: TIcsEvent[]
+) => {
+  const { timeZone } = calendar;
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Student Toolkit//Class Timetable//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.refreshInterval) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${calendar.refreshInterval}`,
+      `X-PUBLISHED-TTL:${calendar.refreshInterval}`
+    );
+  }
+
+  if (timeZone) {
+    // The rules start a year before the first event so it is covered
+    const firstYear = Math.min(
+      ...events.map((event) => event.start.getUTCFullYear()),
+      now.getUTCFullYear()
+    );
+
+    lines.push(
+      `X-WR-TIMEZONE:${timeZone}`,
+      ...buildTimezone(timeZone, firstYear - 1)
+    );
+  }
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      formatDateTimeProperty("DTSTART", [event.start], timeZone),
+      formatDateTimeProperty("DTEND", [event.end], timeZone)
+    );
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.exdates?.length) {
+      lines.push(formatDateTimeProperty("EXDATE", event.exdates, timeZone));
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+    }
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (match, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+
+// "NAME;PARAM=x;PARAM2="y":value" -> name, params, value
+const parseContentLine = (line: string) => {
+  let inQuotes = false;
+  let colonIndex = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+};
+
+const parseDateTime = (value: string): TIcsDateTime | undefined => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/
+  );
+
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, utc] = match;
+
+  return {
+    date: `${year}-${month}-${day}`,
+    time: hours ? `${hours}:${minutes}` : null,
+    utc: Boolean(utc),
+  };
+};
+
+// Only the day/hour/minute parts matter for class lengths
+const parseDurationMinutes = (value: string) => {
+  const match = value.match(
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?/
+  );
+
+  if (!match) return undefined;
+
+  const [, weeks, days, hours, minutes] = match.map((part) =>
+    Number(part || 0)
+  );
+
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+};
+
+const parseCalendar = (content: string): TParsedIcsEvent[] => {
+  // Unfold continuation lines first
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: TParsedIcsEvent[] = [];
+  let current: TParsedIcsEvent | null = null;
+
+  lines.forEach((line) => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    const { name, params, value } = property;
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      current = {};
+      return;
+    }
+
+    if (!current) return;
+
+    if (name === "END" && value.toUpperCase() === "VEVENT") {
+      events.push(current);
+      current = null;
+      return;
+    }
+
+    switch (name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(value);
+        break;
+      case "ORGANIZER":
+        current.organizer = params.CN || value.replace(/^mailto:/i, "");
+        break;
+      case "STATUS":
+        current.status = value.toUpperCase();
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = value;
+        break;
+      case "DTSTART":
+        current.start = parseDateTime(value);
+        break;
+      case "DTEND":
+        current.end = parseDateTime(value);
+        break;
+      case "DURATION":
+        current.durationMinutes = parseDurationMinutes(value);
+        break;
+      case "RRULE":
+        current.rrule = Object.fromEntries(
+          value.split(";").map((part) => {
+            const [key, ...rest] = part.split("=");
+            return [key.toUpperCase(), rest.join("=").toUpperCase()];
+          })
+        );
+        break;
+    }
+  });
+
+  return events;
+};
+
+export const icsHelpers = {
+  formatLocalDateTime,
+  formatUtcDateTime,
+  escapeText,
+  buildCalendar,
+  parseCalendar,
+};
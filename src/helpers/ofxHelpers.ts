@@ -0,0 +1,86 @@
+// Minimal OFX/QFX statement reader. Handles both OFX 1.x (SGML, leaf tags
+// without closing tags) and OFX 2.x (XML); only bank and credit card
+// transactions are read.
+
+export type TOfxTransaction = {
+  fitId: string | null; // the bank's unique id for the transaction
+  type: string | null; // DEBIT, CREDIT, POS, ATM, ...
+  date: string; // YYYY-MM-DD as posted, without time zone conversion
+  amount: number; // negative for money going out
+  name: string | null;
+  memo: string | null;
+};
+
+export type TOfxStatement = {
+  accountId: string | null;
+  currency: string | null;
+  transactions: TOfxTransaction[];
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#\d+|\w+);/g, (entity, name: string) =>
+    name.startsWith("#")
+      ? String.fromCharCode(Number(name.slice(1)))
+      : ENTITIES[name.toLowerCase()] ?? entity
+  );
+
+// Value of the first leaf element, e.g. <TRNAMT>-12.50 or
+// <TRNAMT>-12.50</TRNAMT>
+const readTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match ? decodeEntities(match[1]).trim() : "";
+
+  return value || null;
+};
+
+// 20250131, 20250131120000 or 20250131120000.000[-5:EST]
+const parseDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const parseStatement = (content: string): TOfxStatement => {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const transactions: TOfxTransaction[] = [];
+
+  blocks.forEach((block) => {
+    const date = parseDate(readTag(block, "DTPOSTED"));
+    // Some banks use a decimal comma
+    const amount = Number(readTag(block, "TRNAMT")?.replace(",", "."));
+
+    if (!date || !Number.isFinite(amount)) return;
+
+    transactions.push({
+      fitId: readTag(block, "FITID"),
+      type: readTag(block, "TRNTYPE")?.toUpperCase() ?? null,
+      date,
+      amount,
+      name: readTag(block, "NAME") ?? readTag(block, "PAYEE"),
+      memo: readTag(block, "MEMO"),
+    });
+  });
+
+  return {
+    accountId: readTag(content, "ACCTID"),
+    currency: readTag(content, "CURDEF"),
+    transactions,
+  };
+};
+
+const isOfx = (content: string) =>
+  /OFXHEADER|<OFX>/i.test(content.slice(0, 2000));
+
+export const ofxHelpers = {
+  parseStatement,
+  isOfx,
+};
@@ -0,0 +1,116 @@
+// Calendar dates and wall-clock times in a user's IANA time zone. The server
+// clock runs in UTC on Vercel, so "today" and day boundaries must be derived
+// from the user's zone rather than from Date's local getters.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export type TZonedParts = {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  minutes: number; // minutes since local midnight
+  hour: number;
+  weekday: string; // Monday, Tuesday, ...
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "long",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, string> = {};
+
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+  return parts;
+};
+
+const getZonedParts = (date: Date, timeZone: string): TZonedParts => {
+  const parts = readParts(date, timeZone);
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    minutes: hour * 60 + minute,
+    hour,
+    weekday: parts.weekday,
+  };
+};
+
+// The user's calendar date for an instant (today by default)
+const getLocalDate = (timeZone: string, date = new Date()) =>
+  getZonedParts(date, timeZone).date;
+
+// Minutes the zone is ahead of UTC at the instant
+const getOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = readParts(date, timeZone);
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// The instant a local date (YYYY-MM-DD) and wall-clock time (HH:MM) occur
+// in the zone
+const toInstant = (date: string, time: string, timeZone: string) => {
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  const guess =
+    wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+
+  // The offset can differ at the result when DST switches in between
+  const offset = getOffsetMinutes(new Date(guess), timeZone);
+
+  return new Date(wallClock - offset * 60000);
+};
+
+// The instant a local calendar date (YYYY-MM-DD) starts in the zone
+const startOfLocalDay = (date: string, timeZone: string) =>
+  toInstant(date, "00:00", timeZone);
+
+export const timezoneHelpers = {
+  isValidTimeZone,
+  getZonedParts,
+  getLocalDate,
+  getOffsetMinutes,
+  toInstant,
+  startOfLocalDay,
+};
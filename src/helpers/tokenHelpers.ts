@@ -0,0 +1,15 @@
+import crypto from "crypto";
+
+// Opaque tokens are only ever persisted as a SHA-256 digest
+const hashToken = (token: string) => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const generateRandomToken = (bytes = 32) => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+export const tokenHelpers = {
+  hashToken,
+  generateRandomToken,
+};
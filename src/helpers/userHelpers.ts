@@ -1,5 +1,7 @@
 import ApiError from "../app/errors/ApiError";
 import prisma from "../app/shared/prisma";
+import { DEFAULT_CURRENCY } from "./currencyHelpers";
+import { DEFAULT_TIMEZONE } from "./timezoneHelpers";
 
 export const findUserById = async (id: string) => {
   const user = await prisma.user.findUnique({
@@ -18,3 +20,44 @@ export const findUserByEmail = async (email: string) => {
   if (!user) throw new ApiError(404, "User Not Found");
   return user;
 };
+
+// Day boundaries (today's classes, streaks, analytics) follow this zone
+export const getUserTimezone = async (id: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { timezone: true },
+  });
+
+  return user?.timezone || DEFAULT_TIMEZONE;
+};
+
+// Budget entries without a currency are in this one, and totals are
+// reported in it
+export const getUserBaseCurrency = async (id: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { baseCurrency: true },
+  });
+
+  return user?.baseCurrency || DEFAULT_CURRENCY;
+};
+
+// Strips credentials before a user is returned or embedded in a token
+export const excludeSensitiveFields = <
+  T extends {
+    password: string;
+    twoFactorSecret?: string | null;
+    twoFactorLastUsedStep?: number | null;
+  }
+>(
+  user: T
+) => {
+  const {
+    password: _password,
+    twoFactorSecret: _twoFactorSecret,
+    twoFactorLastUsedStep: _twoFactorLastUsedStep,
+    ...safeUser
+  } = user;
+
+  return safeUser;
+};
@@ -1,6 +1,12 @@
 import { Server } from "http";
 import app from "./app";
 import config from "./config";
+import { ReminderSchedulerServices } from "./app/modules/notification/reminder-scheduler.service";
+import { mailer } from "./app/shared/mailer";
+
+// Register the mail provider (mailer.setTransport) above this line; without
+// one, production refuses to start rather than failing on every email
+mailer.assertProviderConfigured();
 
 // Export the app as default for Vercel
 export default app;
@@ -18,6 +24,9 @@ async function main() {
       console.log(`📊 Health Check: http://localhost:${config.port}/health`);
     });
 
+    // Fire class, exam and deadline reminders while the server is up
+    ReminderSchedulerServices.startReminderScheduler();
+
     // Handle server shutdown gracefully
     const exitHandler = () => {
       if (server) {